@@ -3,9 +3,10 @@ import { CombinedAIService } from './combined-ai.service';
 import { SummariesModule } from '../summaries/summaries.module';
 import { FlashcardsModule } from '../flashcards/flashcards.module';
 import { QuizzesModule } from '../quizzes/quizzes.module';
+import { LlmModule } from '../llm/llm.module';
 
 @Module({
-  imports: [SummariesModule, FlashcardsModule, QuizzesModule],
+  imports: [SummariesModule, FlashcardsModule, QuizzesModule, LlmModule],
   providers: [CombinedAIService],
   exports: [CombinedAIService]
 })
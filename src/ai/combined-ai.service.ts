@@ -1,8 +1,9 @@
 import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
-import OpenAI from 'openai';
 import { SummariesService, StructuredSummary } from '../summaries/summaries.service';
 import { FlashcardsService, Flashcard } from '../flashcards/flashcards.service';
 import { QuizzesService, QuizQuestion } from '../quizzes/quizzes.service';
+import { normalizeQuizQuestion } from '../quizzes/quiz-questions';
+import { LlmService } from '../llm/llm.service';
 
 export interface CombinedAIResponse {
   summary: StructuredSummary;
@@ -20,8 +21,6 @@ export interface GeneratedCombinedResponse {
 @Injectable()
 export class CombinedAIService {
   private readonly logger = new Logger(CombinedAIService.name);
-  private readonly openai: OpenAI;
-  private readonly model = process.env.OPENAI_MODEL ?? 'gpt-4o-mini';
   private readonly promptVersion = 'v2-combined';
   private readonly minFlashcards = 20;
   private readonly minQuizzes = 12;
@@ -30,11 +29,8 @@ export class CombinedAIService {
     private readonly summariesService: SummariesService,
     private readonly flashcardsService: FlashcardsService,
     private readonly quizzesService: QuizzesService,
-  ) {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
-  }
+    private readonly llm: LlmService
+  ) {}
 
   async generateAll(
     content: string,
@@ -49,24 +45,24 @@ export class CombinedAIService {
     const systemPrompt = 'You are a JSON-only assistant. You respond ONLY with valid JSON objects. Never include explanatory text, markdown, or any other content outside the JSON structure.';
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
+      const response = await this.llm.chat({
+        feature: 'combined',
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: prompt }
         ],
-        response_format: { type: 'json_object' },
+        responseFormat: 'json_object',
         temperature: 0.7,
-        max_tokens: 8000, // Increased for combined output with 20+ items each
+        maxTokens: 8000, // Increased for combined output with 20+ items each
       });
 
-      const llmText = response.choices[0]?.message?.content?.trim();
+      const llmText = response.content;
       if (!llmText) {
-        this.logger.error('Received empty response from OpenAI.');
+        this.logger.error('Received empty response from the LLM.');
         throw new InternalServerErrorException('LLM returned an empty response.');
       }
 
-      this.logger.log('OpenAI Response (Combined):', llmText);
+      this.logger.log('LLM Response (Combined):', llmText);
 
       const parsedData = this.parseCombinedResponse(llmText);
 
@@ -74,13 +70,13 @@ export class CombinedAIService {
       const finalData = await this.retryFailedSections(parsedData, content, topic);
 
       return {
-        model: response.model ?? this.model,
+        model: response.model,
         promptVersion: this.promptVersion,
         data: finalData,
         rawResponse: this.tryParseRaw(llmText),
       };
     } catch (error) {
-      this.logger.error('Combined OpenAI request failed:', error);
+      this.logger.error('Combined LLM request failed:', error);
       this.logger.warn('Falling back to individual service calls...');
 
       // Complete fallback: use individual services
@@ -242,7 +238,11 @@ export class CombinedAIService {
       return {
         summary: parsed.summary,
         flashcards: Array.isArray(parsed.flashcards) ? parsed.flashcards : [],
-        quizzes: Array.isArray(parsed.quizzes) ? parsed.quizzes : [],
+        quizzes: Array.isArray(parsed.quizzes)
+          ? parsed.quizzes
+              .map((question: unknown) => normalizeQuizQuestion(question))
+              .filter((question: QuizQuestion | null): question is QuizQuestion => question !== null)
+          : [],
       };
     } catch (error) {
       this.logger.error('Failed to parse combined response:', error);
@@ -321,7 +321,7 @@ export class CombinedAIService {
     ]);
 
     return {
-      model: this.model,
+      model: this.llm.modelFor('combined'),
       promptVersion: `${this.promptVersion}-fallback`,
       data: {
         summary: summaryResponse?.summary ?? {
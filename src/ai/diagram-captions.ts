@@ -0,0 +1,70 @@
+import { asJsonArray, asJsonObject } from './llm-json';
+import { splitIntoPages } from './page-chunks';
+
+export interface DiagramRelationship {
+  from: string;
+  to: string;
+  label: string;
+}
+
+export interface DiagramCaption {
+  pageNumber: number;
+  labels: string[];
+  relationships: DiagramRelationship[];
+}
+
+const CAPTION_PREFIX = 'DIAGRAM_CAPTION_JSON:';
+
+/**
+ * Recovers the labels and relationships the vision captioner found on diagram
+ * pages. They are stored as the last `DIAGRAM_CAPTION_JSON:` part of a page in
+ * the study source; captions that are not valid JSON are skipped.
+ */
+export function extractDiagramCaptions(source: string): DiagramCaption[] {
+  const captions: DiagramCaption[] = [];
+  for (const page of splitIntoPages(source)) {
+    const start = page.text.indexOf(CAPTION_PREFIX);
+    if (start === -1) {
+      continue;
+    }
+    const parsed = parseCaption(page.text.slice(start + CAPTION_PREFIX.length));
+    if (!parsed) {
+      continue;
+    }
+    const labels = toStrings(parsed.labels);
+    const relationships = asJsonArray(parsed.relationships)
+      .map(entry => {
+        const item = asJsonObject(entry);
+        return {
+          from: typeof item?.from === 'string' ? item.from.trim() : '',
+          to: typeof item?.to === 'string' ? item.to.trim() : '',
+          label: typeof item?.label === 'string' ? item.label.trim() : ''
+        };
+      })
+      .filter(relationship => relationship.from && relationship.to);
+    if (labels.length || relationships.length) {
+      captions.push({ pageNumber: page.pageNumber, labels, relationships });
+    }
+  }
+  return captions;
+}
+
+function parseCaption(raw: string): Record<string, unknown> | null {
+  const cleaned = raw.replace(/```(?:json)?/gi, '').trim();
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    return null;
+  }
+  try {
+    return asJsonObject(JSON.parse(cleaned.slice(start, end + 1)));
+  } catch {
+    return null;
+  }
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === 'string' && Boolean(entry.trim())).map(entry => entry.trim())
+    : [];
+}
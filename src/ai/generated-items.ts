@@ -0,0 +1,17 @@
+import { asJsonObject } from './llm-json';
+
+export type GeneratedItemFeature = 'summary' | 'flashcards' | 'quizzes';
+
+/** The flashcards, quiz questions or summary key points of a generated result, or null if it has none. */
+export function listGeneratedItems(feature: GeneratedItemFeature, result: unknown): Array<Record<string, unknown>> | null {
+  const data = asJsonObject(result);
+  const items =
+    feature === 'flashcards'
+      ? data?.flashcards
+      : feature === 'quizzes'
+        ? data?.questions
+        : asJsonObject(data?.summary)?.key_points;
+  return Array.isArray(items)
+    ? items.map(item => asJsonObject(item)).filter((item): item is Record<string, unknown> => item !== null)
+    : null;
+}
@@ -0,0 +1,188 @@
+export const SUMMARY_DEPTHS = ['brief', 'standard', 'detailed'] as const;
+export type SummaryDepth = (typeof SUMMARY_DEPTHS)[number];
+
+export const FLASHCARD_DIFFICULTIES = ['intro', 'intermediate', 'advanced'] as const;
+export const QUIZ_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export const MAX_GENERATED_ITEMS = 50;
+
+/** Relative weights per difficulty level, e.g. `{ intro: 1, intermediate: 2 }`. Levels left out get none. */
+export type DifficultyMix<Level extends string> = Partial<Record<Level, number>>;
+
+export interface TopicFocusOptions {
+  focusTopics?: string[];
+  excludeTopics?: string[];
+}
+
+export interface SummaryGenerationOptions extends TopicFocusOptions {
+  depth?: SummaryDepth;
+}
+
+export interface FlashcardGenerationOptions extends TopicFocusOptions {
+  count?: number;
+  difficulty?: DifficultyMix<(typeof FLASHCARD_DIFFICULTIES)[number]>;
+}
+
+export interface QuizGenerationOptions extends TopicFocusOptions {
+  count?: number;
+  difficulty?: DifficultyMix<(typeof QUIZ_DIFFICULTIES)[number]>;
+}
+
+export interface GenerationOptions {
+  summary?: SummaryGenerationOptions;
+  flashcards?: FlashcardGenerationOptions;
+  quizzes?: QuizGenerationOptions;
+}
+
+export function buildTopicFocusInstruction(options: TopicFocusOptions | undefined): string {
+  const focus = cleanTopics(options?.focusTopics);
+  const exclude = cleanTopics(options?.excludeTopics);
+  if (!focus.length && !exclude.length) {
+    return '';
+  }
+  return [
+    '=== TOPIC FOCUS ===',
+    focus.length ? `Emphasize these topics and keywords wherever the source covers them: ${focus.join(', ')}.` : '',
+    exclude.length ? `Leave out anything about: ${exclude.join(', ')}.` : '',
+    'Never invent material to cover a focus topic the source does not discuss.'
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Splits `total` items across keys in proportion to their weights (largest
+ * remainder, so the counts always add up). Returns null when no key has a
+ * positive weight.
+ */
+export function allocateByWeight<Key extends string>(
+  total: number,
+  weights: Partial<Record<Key, number>> | undefined
+): Array<{ key: Key; count: number }> | null {
+  const entries = Object.entries(weights ?? {})
+    .map(([key, weight]) => ({ key: key as Key, weight: Number(weight) }))
+    .filter(entry => Number.isFinite(entry.weight) && entry.weight > 0);
+  const weightSum = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  if (!entries.length || total <= 0) {
+    return null;
+  }
+
+  const shares = entries.map(entry => {
+    const exact = (total * entry.weight) / weightSum;
+    return { key: entry.key, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let left = total - shares.reduce((sum, share) => sum + share.count, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (left <= 0) {
+      break;
+    }
+    share.count += 1;
+    left -= 1;
+  }
+  return shares.map(({ key, count }) => ({ key, count }));
+}
+
+/** Splits `total` items across difficulty levels by the mix's weights; null when no level has one. */
+export function allocateDifficulty<Level extends string>(
+  total: number,
+  mix: DifficultyMix<Level> | undefined
+): Array<{ level: Level; count: number }> | null {
+  return allocateByWeight(total, mix)?.map(({ key, count }) => ({ level: key, count })) ?? null;
+}
+
+export function buildDifficultyInstruction<Level extends string>(
+  total: number,
+  mix: DifficultyMix<Level> | undefined
+): string {
+  const allocation = allocateDifficulty(total, mix);
+  if (!allocation) {
+    return '';
+  }
+  const parts = allocation.filter(entry => entry.count > 0).map(entry => `${entry.count} "${entry.level}"`);
+  return `- Difficulty distribution (MANDATORY): ${parts.join(', ')}.`;
+}
+
+/**
+ * Trims generated items to `total`, taking each difficulty level's share first
+ * and filling any gap with the remaining items in their original order.
+ */
+export function selectByDifficulty<T, Level extends string>(
+  items: T[],
+  total: number,
+  mix: DifficultyMix<Level> | undefined,
+  levelOf: (item: T) => string
+): T[] {
+  if (items.length <= total) {
+    return items;
+  }
+  const allocation = allocateDifficulty(total, mix);
+  if (!allocation) {
+    return items.slice(0, total);
+  }
+
+  const quotas = new Map<string, number>(allocation.map(entry => [entry.level, entry.count]));
+  const picked = new Set<number>();
+  items.forEach((item, index) => {
+    const quota = quotas.get(levelOf(item)) ?? 0;
+    if (quota > 0) {
+      picked.add(index);
+      quotas.set(levelOf(item), quota - 1);
+    }
+  });
+  for (let index = 0; index < items.length && picked.size < total; index += 1) {
+    picked.add(index);
+  }
+  return items.filter((_, index) => picked.has(index));
+}
+
+/** Drops empty values so only options the caller actually set are stored with a job. */
+export function normalizeGenerationOptions(options: GenerationOptions | null | undefined): GenerationOptions | null {
+  if (!options) {
+    return null;
+  }
+  const normalized: GenerationOptions = {};
+  const summary = compact({ depth: options.summary?.depth, ...normalizeTopics(options.summary) });
+  const flashcards = compact({
+    count: options.flashcards?.count,
+    difficulty: normalizeMix(options.flashcards?.difficulty),
+    ...normalizeTopics(options.flashcards)
+  });
+  const quizzes = compact({
+    count: options.quizzes?.count,
+    difficulty: normalizeMix(options.quizzes?.difficulty),
+    ...normalizeTopics(options.quizzes)
+  });
+  if (summary) {
+    normalized.summary = summary;
+  }
+  if (flashcards) {
+    normalized.flashcards = flashcards;
+  }
+  if (quizzes) {
+    normalized.quizzes = quizzes;
+  }
+  return Object.keys(normalized).length ? normalized : null;
+}
+
+function normalizeTopics(options: TopicFocusOptions | undefined): TopicFocusOptions {
+  const focusTopics = cleanTopics(options?.focusTopics);
+  const excludeTopics = cleanTopics(options?.excludeTopics);
+  return {
+    ...(focusTopics.length ? { focusTopics } : {}),
+    ...(excludeTopics.length ? { excludeTopics } : {})
+  };
+}
+
+function normalizeMix<Level extends string>(mix: DifficultyMix<Level> | undefined): DifficultyMix<Level> | undefined {
+  const entries = Object.entries(mix ?? {}).filter(([, weight]) => typeof weight === 'number' && weight > 0);
+  return entries.length ? (Object.fromEntries(entries) as DifficultyMix<Level>) : undefined;
+}
+
+function compact<T extends object>(value: T): T | undefined {
+  const entries = Object.entries(value).filter(([, entry]) => entry !== undefined && entry !== null);
+  return entries.length ? (Object.fromEntries(entries) as T) : undefined;
+}
+
+function cleanTopics(topics: string[] | undefined): string[] {
+  return Array.from(new Set((topics ?? []).map(topic => topic.trim()).filter(Boolean)));
+}
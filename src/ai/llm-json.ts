@@ -0,0 +1,44 @@
+/**
+ * Parses a JSON response from the model, ignoring <think> blocks and code
+ * fences, and falling back to the outermost {...} or [...] when text surrounds
+ * it. Returns null when nothing parses; callers narrow the result themselves.
+ */
+export function parseLlmJson(raw: string): unknown {
+  const cleaned = raw
+    .replace(/<think>[\s\S]*?<\/think>/gi, '')
+    .replace(/```json/gi, '')
+    .replace(/```/g, '')
+    .trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Whichever bracket opens first encloses the other, so try that slice first.
+    const candidates = [sliceBetween(cleaned, '{', '}'), sliceBetween(cleaned, '[', ']')]
+      .filter((candidate): candidate is { start: number; text: string } => candidate !== null)
+      .sort((a, b) => a.start - b.start);
+    for (const candidate of candidates) {
+      try {
+        return JSON.parse(candidate.text);
+      } catch {
+        continue;
+      }
+    }
+    return null;
+  }
+}
+
+/** The value as a plain object, or null for arrays, primitives and null. */
+export function asJsonObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+/** The value if it is an array, otherwise an empty one. */
+export function asJsonArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function sliceBetween(text: string, open: string, close: string): { start: number; text: string } | null {
+  const start = text.indexOf(open);
+  const end = text.lastIndexOf(close);
+  return start === -1 || end <= start ? null : { start, text: text.slice(start, end + 1) };
+}
@@ -0,0 +1,49 @@
+export interface OutputLanguage {
+  /** Canonical BCP 47 tag, e.g. `pt-BR`. */
+  code: string;
+  /** English display name used in prompts, e.g. `Brazilian Portuguese`. */
+  name: string;
+}
+
+export const DEFAULT_OUTPUT_LANGUAGE = 'en';
+
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+export function normalizeOutputLanguage(value: string | null | undefined): OutputLanguage | null {
+  const trimmed = value?.trim().replace(/_/g, '-');
+  if (!trimmed) {
+    return null;
+  }
+
+  try {
+    const [code] = Intl.getCanonicalLocales(trimmed);
+    if (!code) {
+      return null;
+    }
+    return { code, name: displayNames.of(code) ?? code };
+  } catch {
+    return null;
+  }
+}
+
+/** Picks the first usable language tag, falling back to English. */
+export function resolveOutputLanguage(...candidates: Array<string | null | undefined>): OutputLanguage {
+  for (const candidate of candidates) {
+    const language = normalizeOutputLanguage(candidate);
+    if (language) {
+      return language;
+    }
+  }
+  return normalizeOutputLanguage(DEFAULT_OUTPUT_LANGUAGE) as OutputLanguage;
+}
+
+export function buildLanguageInstruction(language: OutputLanguage | undefined): string {
+  if (!language) {
+    return '';
+  }
+  return [
+    '=== OUTPUT LANGUAGE ===',
+    `Write every text value in ${language.name} (${language.code}), even if the source material is in another language.`,
+    'Keep JSON keys and fixed values (such as difficulty levels and confidence) exactly as specified.'
+  ].join('\n');
+}
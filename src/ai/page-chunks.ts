@@ -0,0 +1,111 @@
+export interface SourcePage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface PageChunk {
+  /** `4` or `4-12`, for prompts and logs. */
+  rangeLabel: string;
+  text: string;
+  pageCount: number;
+}
+
+/** Reads a `*_PAGE_CHUNK_SIZE` setting. 0 turns chunking off. */
+export function readPageChunkSize(name: string, fallback = 0): number {
+  const value = Number(process.env[name] || fallback);
+  return Number.isFinite(value) ? Math.max(0, Math.floor(value)) : fallback;
+}
+
+export function splitIntoPages(content: string): SourcePage[] {
+  const regex = /^=== Page\s+(\d+)\s+===$/gm;
+  const pages: SourcePage[] = [];
+  let lastIndex = 0;
+  let lastPage: number | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(content)) !== null) {
+    if (lastPage !== null) {
+      const text = content.slice(lastIndex, match.index).trim();
+      pages.push({ pageNumber: lastPage, text });
+    }
+    lastPage = Number(match[1]);
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastPage !== null) {
+    const text = content.slice(lastIndex).trim();
+    pages.push({ pageNumber: lastPage, text });
+  }
+
+  return pages;
+}
+
+export function chunkPages(pages: SourcePage[], chunkSize: number): PageChunk[] {
+  const chunks: PageChunk[] = [];
+  for (let index = 0; index < pages.length; index += chunkSize) {
+    const slice = pages.slice(index, index + chunkSize);
+    if (!slice.length) {
+      continue;
+    }
+    const start = slice[0].pageNumber;
+    const end = slice[slice.length - 1].pageNumber;
+    const rangeLabel = start === end ? `${start}` : `${start}-${end}`;
+    const text = slice
+      .map(page => `=== Page ${page.pageNumber} ===\n${page.text}`)
+      .join('\n\n');
+    chunks.push({ rangeLabel, text, pageCount: slice.length });
+  }
+  return chunks;
+}
+
+/** Page windows of `content`, or null when chunking is off or everything fits in one window. */
+export function buildPageChunks(content: string, chunkSize: number): PageChunk[] | null {
+  if (chunkSize <= 0) {
+    return null;
+  }
+  const pages = splitIntoPages(content);
+  if (!pages.length || pages.length <= chunkSize) {
+    return null;
+  }
+  return chunkPages(pages, chunkSize);
+}
+
+/** A chunk's share of `total` items, in proportion to its pages and rounded up so no window is skipped. */
+export function chunkItemShare(total: number, chunk: PageChunk, chunks: PageChunk[]): number {
+  const totalPages = chunks.reduce((sum, entry) => sum + entry.pageCount, 0);
+  return Math.max(1, Math.ceil((total * chunk.pageCount) / Math.max(1, totalPages)));
+}
+
+/**
+ * The reduce step of chunked generation: drops items whose key repeats an
+ * earlier one and interleaves the rest chunk by chunk, so trimming the result
+ * from the end keeps coverage balanced across the whole document.
+ */
+export function mergeChunkItems<T>(chunkItems: T[][], keyOf: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  const unique = chunkItems.map(items =>
+    items.filter(item => {
+      const key = normalizeItemKey(keyOf(item));
+      if (!key || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+  );
+
+  const merged: T[] = [];
+  const longest = Math.max(0, ...unique.map(items => items.length));
+  for (let index = 0; index < longest; index += 1) {
+    unique.forEach(items => {
+      if (index < items.length) {
+        merged.push(items[index]);
+      }
+    });
+  }
+  return merged;
+}
+
+function normalizeItemKey(text: string): string {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join(' ');
+}
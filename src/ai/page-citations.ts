@@ -0,0 +1,88 @@
+import { GeneratedItemFeature, listGeneratedItems } from './generated-items';
+import { asJsonObject } from './llm-json';
+
+export interface PageCitation {
+  pageNumber: number;
+  /** Storage key of the page image, when the file was uploaded with page images. */
+  imageKey: string | null;
+}
+
+export const MAX_CITED_PAGES = 5;
+
+const PAGE_MARKER = /^=== Page (\d+) ===$/gm;
+
+/** Asks the model to cite pages, but only when the source actually has page markers. */
+export function buildSourcePagesInstruction(content: string, itemLabel: string): string {
+  if (!listSourcePages(content).length) {
+    return '';
+  }
+  return [
+    '=== PAGE CITATIONS ===',
+    `The source is split into "=== Page N ===" sections. Give every ${itemLabel} a "sourcePages" field:`,
+    `an array of the page numbers (N) it is based on, at most ${MAX_CITED_PAGES}, most relevant first.`
+  ].join('\n');
+}
+
+export function listSourcePages(content: string): number[] {
+  return Array.from(content.matchAll(PAGE_MARKER), match => Number(match[1]));
+}
+
+/** Reads cited pages; accepts numbers and numeric strings from the model, and stored citations. */
+export function parseCitedPages(raw: unknown): PageCitation[] {
+  const citations = new Map<number, PageCitation>();
+  for (const entry of Array.isArray(raw) ? raw : [raw]) {
+    const stored = entry && typeof entry === 'object' ? (entry as Partial<PageCitation>) : null;
+    const pageNumber = Number(stored ? stored.pageNumber : entry);
+    if (Number.isInteger(pageNumber) && pageNumber > 0 && !citations.has(pageNumber)) {
+      citations.set(pageNumber, { pageNumber, imageKey: typeof stored?.imageKey === 'string' ? stored.imageKey : null });
+    }
+  }
+  return Array.from(citations.values()).slice(0, MAX_CITED_PAGES);
+}
+
+/**
+ * Checks the pages cited by each generated item against the source, attaches
+ * the page image keys, and falls back to the page of the item's supporting
+ * passage when the model cited nothing usable.
+ */
+export function attachPageCitations<T>(
+  feature: GeneratedItemFeature,
+  result: T,
+  source: string,
+  pageImageKeys: Array<{ pageNumber: number; storageKey: string }> = []
+): T {
+  const items = listGeneratedItems(feature, result);
+  if (!items) {
+    return result;
+  }
+  const resolve = buildResolver(source, pageImageKeys);
+  items.forEach(item => {
+    item.sourcePages = resolve(item);
+  });
+  return result;
+}
+
+export function attachItemPageCitations(
+  item: { sourcePages?: PageCitation[] },
+  source: string,
+  pageImageKeys: Array<{ pageNumber: number; storageKey: string }> = []
+): void {
+  item.sourcePages = buildResolver(source, pageImageKeys)(asJsonObject(item) ?? {});
+}
+
+function buildResolver(
+  source: string,
+  pageImageKeys: Array<{ pageNumber: number; storageKey: string }>
+): (item: Record<string, unknown>) => PageCitation[] {
+  const pages = new Set(listSourcePages(source));
+  const imageKeys = new Map(pageImageKeys.map(entry => [entry.pageNumber, entry.storageKey]));
+  return item => {
+    let cited = parseCitedPages(item.sourcePages ?? []).filter(citation => pages.has(citation.pageNumber));
+    const grounding = asJsonObject(item.grounding);
+    const supportingPage = grounding?.supported ? Number(grounding.page) : NaN;
+    if (!cited.length && pages.has(supportingPage)) {
+      cited = [{ pageNumber: supportingPage, imageKey: null }];
+    }
+    return cited.map(citation => ({ ...citation, imageKey: imageKeys.get(citation.pageNumber) ?? null }));
+  };
+}
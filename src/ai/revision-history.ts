@@ -0,0 +1,26 @@
+export const MAX_ITEM_REVISIONS = 10;
+
+/** One replaced version of a generated item, newest last in `history`. */
+export interface ItemRevision {
+  previous: Record<string, unknown>;
+  replacedAt: string;
+  note: string | null;
+}
+
+/**
+ * Applies a replacement to a stored item and pushes the version it replaces
+ * onto the item's history, keeping the most recent revisions only.
+ */
+export function reviseItem<T extends { history?: ItemRevision[] }>(
+  current: T,
+  replacement: Partial<T>,
+  note?: string | null
+): T {
+  const { history = [], ...previous } = current;
+  const revision: ItemRevision = {
+    previous,
+    replacedAt: new Date().toISOString(),
+    note: note?.trim() || null
+  };
+  return { ...current, ...replacement, history: [...history, revision].slice(-MAX_ITEM_REVISIONS) };
+}
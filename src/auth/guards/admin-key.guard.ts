@@ -0,0 +1,25 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+
+export const ADMIN_KEY_HEADER = 'x-admin-key';
+
+/** Lets a request through only when it carries ADMIN_API_KEY; admin routes are closed while no key is configured. */
+@Injectable()
+export class AdminKeyGuard implements CanActivate {
+  constructor(private readonly config: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.config.get<string>('ADMIN_API_KEY');
+    const provided = context.switchToHttp().getRequest<Request>().header(ADMIN_KEY_HEADER);
+    if (!expected || !provided || !timingSafeEqual(this.digest(expected), this.digest(provided))) {
+      throw new ForbiddenException('A valid admin key is required.');
+    }
+    return true;
+  }
+
+  private digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ConceptMapsService } from './concept-maps.service';
+import { LlmModule } from '../llm/llm.module';
+
+@Module({
+  imports: [LlmModule],
+  providers: [ConceptMapsService],
+  exports: [ConceptMapsService]
+})
+export class ConceptMapsModule {}
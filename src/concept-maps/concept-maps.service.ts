@@ -0,0 +1,361 @@
+import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import { buildLanguageInstruction, OutputLanguage } from '../ai/output-language';
+import { listSourcePages } from '../ai/page-citations';
+import { asJsonArray, asJsonObject, parseLlmJson } from '../ai/llm-json';
+import { buildPageChunks, PageChunk, readPageChunkSize } from '../ai/page-chunks';
+import { DiagramCaption, extractDiagramCaptions } from '../ai/diagram-captions';
+import { LlmService } from '../llm/llm.service';
+
+export const CONCEPT_RELATIONS = [
+  'is_a',
+  'part_of',
+  'causes',
+  'produces',
+  'requires',
+  'regulates',
+  'contrasts_with',
+  'example_of',
+  'related_to'
+] as const;
+export type ConceptRelation = (typeof CONCEPT_RELATIONS)[number];
+
+/** Whether a node or edge was found in the text, in a diagram caption, or both. */
+export type ConceptOrigin = 'text' | 'diagram' | 'both';
+
+export interface ConceptNode {
+  /** Slug of the label, so the same concept gets the same id in every file. */
+  id: string;
+  label: string;
+  description: string | null;
+  pages: number[];
+  origin: ConceptOrigin;
+}
+
+export interface ConceptEdge {
+  id: string;
+  source: string;
+  target: string;
+  relation: ConceptRelation;
+  /** The relation in the source's own words, e.g. "converts into". */
+  label: string;
+  pages: number[];
+  origin: ConceptOrigin;
+}
+
+export interface ConceptMap {
+  nodes: ConceptNode[];
+  edges: ConceptEdge[];
+}
+
+export interface GeneratedConceptMapResponse extends ConceptMap {
+  model: string;
+  promptVersion: string;
+  rawResponse: unknown;
+}
+
+export interface ConceptMapSource extends ConceptMap {
+  fileId: string;
+  fileName: string;
+}
+
+type FileSources = Array<{ fileId: string; fileName: string; pages: number[] }>;
+
+export interface StudySetConceptMap {
+  /** `pages` refer to the first file in `sources`. */
+  nodes: Array<ConceptNode & { sources: FileSources }>;
+  edges: Array<ConceptEdge & { sources: FileSources }>;
+  sourceFiles: Array<{ fileId: string; fileName: string }>;
+}
+
+/** Pages per extraction call for long documents. */
+const DEFAULT_PAGE_CHUNK_SIZE = 10;
+const MAX_NODES_PER_CALL = 30;
+const MAX_DIAGRAM_HINTS = 60;
+
+@Injectable()
+export class ConceptMapsService {
+  private readonly logger = new Logger(ConceptMapsService.name);
+  readonly promptVersion = 'v1-concept-map';
+  readonly pageChunkSize: number;
+
+  constructor(private readonly llm: LlmService) {
+    this.pageChunkSize = readPageChunkSize('CONCEPT_MAP_PAGE_CHUNK_SIZE', DEFAULT_PAGE_CHUNK_SIZE);
+  }
+
+  /**
+   * Builds a concept graph from the source text, then adds every diagram
+   * relationship the vision captioner found, so diagram edges are kept even
+   * when the model leaves them out.
+   */
+  async generateConceptMap(
+    content: string,
+    topic?: string,
+    language?: OutputLanguage
+  ): Promise<GeneratedConceptMapResponse> {
+    const trimmedContent = content.trim();
+    if (!trimmedContent) {
+      throw new InternalServerErrorException('Cannot build a concept map from empty content.');
+    }
+
+    try {
+      const chunks = buildPageChunks(trimmedContent, this.pageChunkSize);
+      const { model, map, rawResponse } = chunks
+        ? await this.extractFromChunks(chunks, topic, language)
+        : await this.extractMap(trimmedContent, topic, language);
+      const withDiagrams = mergeConceptMaps([map, diagramConceptMap(extractDiagramCaptions(trimmedContent))]);
+      return { model, promptVersion: this.promptVersion, ...withDiagrams, rawResponse };
+    } catch (error) {
+      this.logger.error('LLM request failed:', error);
+      throw new InternalServerErrorException('Unable to build the concept map at the moment.');
+    }
+  }
+
+  /** Merges per-file maps into one for the study set; concepts with the same label become one node. */
+  mergeFileConceptMaps(sources: ConceptMapSource[]): StudySetConceptMap {
+    const tagged = sources.map(source => {
+      const tag = <T extends { pages: number[] }>(entry: T) => ({
+        ...entry,
+        pages: [],
+        sources: [{ fileId: source.fileId, fileName: source.fileName, pages: entry.pages }]
+      });
+      return { nodes: source.nodes.map(tag), edges: source.edges.map(tag) };
+    });
+    const merged = mergeConceptMaps(tagged, (target, duplicate) => {
+      const known = new Set(target.sources.map(entry => entry.fileId));
+      target.sources.push(...duplicate.sources.filter(entry => !known.has(entry.fileId)));
+    });
+    const withPages = <T extends { pages: number[]; sources: FileSources }>(entry: T) => ({
+      ...entry,
+      pages: entry.sources[0]?.pages ?? []
+    });
+    return {
+      nodes: merged.nodes.map(withPages),
+      edges: merged.edges.map(withPages),
+      sourceFiles: sources.map(source => ({ fileId: source.fileId, fileName: source.fileName }))
+    };
+  }
+
+  private async extractFromChunks(
+    chunks: PageChunk[],
+    topic?: string,
+    language?: OutputLanguage
+  ): Promise<{ model: string; map: ConceptMap; rawResponse: unknown }> {
+    this.logger.log(`Extracting concept map from ${chunks.length} page chunk(s).`);
+    const maps: ConceptMap[] = [];
+    const rawResponses: Array<{ pages: string; response: unknown }> = [];
+    let model = '';
+
+    for (const chunk of chunks) {
+      try {
+        const extracted = await this.extractMap(chunk.text, topic, language);
+        maps.push(extracted.map);
+        rawResponses.push({ pages: chunk.rangeLabel, response: extracted.rawResponse });
+        model = extracted.model;
+      } catch (error) {
+        this.logger.warn(`Concept map for pages ${chunk.rangeLabel} failed. Skipping them.`, error as Error);
+      }
+    }
+
+    const map = mergeConceptMaps(maps);
+    if (!map.nodes.length) {
+      throw new Error('No page chunk produced usable concepts.');
+    }
+    return { model, map, rawResponse: { chunks: rawResponses } };
+  }
+
+  private async extractMap(
+    content: string,
+    topic?: string,
+    language?: OutputLanguage
+  ): Promise<{ model: string; map: ConceptMap; rawResponse: unknown }> {
+    const pages = listSourcePages(content);
+    const diagramHints = extractDiagramCaptions(content)
+      .flatMap(caption =>
+        caption.relationships.map(
+          relationship =>
+            `- [page ${caption.pageNumber}] ${relationship.from} → ${relationship.to}${relationship.label ? ` (${relationship.label})` : ''}`
+        )
+      )
+      .slice(0, MAX_DIAGRAM_HINTS);
+    const prompt = [
+      '=== STRICT JSON OUTPUT MODE ===',
+      'You MUST output ONLY a valid JSON object of the form { "nodes": [ ... ], "edges": [ ... ] }. NO other text is allowed.',
+      '',
+      'TASK: Build a concept map of the source material: the key concepts and how they relate to each other.',
+      '',
+      '=== REQUIRED JSON STRUCTURE ===',
+      `nodes (at most ${MAX_NODES_PER_CALL}), each with EXACTLY:`,
+      '- label (string): Short name of the concept as the source writes it',
+      '- description (string): One sentence from the source explaining the concept',
+      pages.length ? '- pages (array of numbers): The N of the "=== Page N ===" sections that discuss it' : '',
+      'edges, each with EXACTLY:',
+      '- from (string): label of the source node',
+      '- to (string): label of the target node',
+      `- relation (one of ${CONCEPT_RELATIONS.map(relation => `"${relation}"`).join(', ')})`,
+      '- label (string): The relation in a few words, e.g. "converts into"',
+      pages.length ? '- pages (array of numbers): The pages that state the relation' : '',
+      '',
+      '=== QUALITY GUIDELINES ===',
+      '- Use only concepts and relations the source states; never add general knowledge',
+      '- Every edge must connect two labels from nodes',
+      '- Prefer a specific relation over "related_to"',
+      '- Connect every node to at least one other node where the source allows',
+      '',
+      diagramHints.length
+        ? ['=== DIAGRAM RELATIONSHIPS ===', 'These were read from diagrams in the source; include them as edges:', ...diagramHints].join('\n')
+        : '',
+      topic ? `Topic: ${topic}` : '',
+      buildLanguageInstruction(language),
+      '',
+      '=== SOURCE MATERIAL ===',
+      content,
+      '',
+      '=== OUTPUT JSON ONLY ==='
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    const response = await this.llm.chat({
+      feature: 'conceptMap',
+      messages: [
+        { role: 'system', content: 'You are a JSON-only assistant.' },
+        { role: 'user', content: prompt }
+      ],
+      responseFormat: 'json_object',
+      temperature: 0.3,
+      maxTokens: 4000
+    });
+
+    const llmText = response.content;
+    if (!llmText) {
+      this.logger.error('Received empty response from the LLM.');
+      throw new InternalServerErrorException('LLM returned an empty concept map response.');
+    }
+
+    const parsed = parseLlmJson(llmText);
+    const map = this.normalizeMap(parsed, new Set(pages));
+    if (!map.nodes.length) {
+      throw new Error('LLM did not return any usable concepts.');
+    }
+    return { model: response.model, map, rawResponse: parsed ?? llmText };
+  }
+
+  private normalizeMap(parsed: unknown, validPages: Set<number>): ConceptMap {
+    const readPages = (value: unknown) =>
+      Array.from(new Set(asJsonArray(value).map(Number).filter(page => validPages.has(page))));
+    const data = asJsonObject(parsed);
+    const map: ConceptMap = { nodes: [], edges: [] };
+    for (const raw of asJsonArray(data?.nodes).slice(0, MAX_NODES_PER_CALL)) {
+      const item = asJsonObject(raw);
+      const label = typeof item?.label === 'string' ? item.label.trim() : '';
+      const description = typeof item?.description === 'string' && item.description.trim() ? item.description.trim() : null;
+      if (conceptId(label)) {
+        map.nodes.push({ id: conceptId(label), label, description, pages: readPages(item?.pages), origin: 'text' });
+      }
+    }
+    for (const raw of asJsonArray(data?.edges)) {
+      const item = asJsonObject(raw);
+      const relation = CONCEPT_RELATIONS.find(known => known === item?.relation);
+      addEdge(map, {
+        from: String(item?.from ?? ''),
+        to: String(item?.to ?? ''),
+        relation: relation ?? 'related_to',
+        label: typeof item?.label === 'string' ? item.label.trim() : '',
+        pages: readPages(item?.pages),
+        origin: 'text'
+      });
+    }
+    return map;
+  }
+}
+
+function diagramConceptMap(captions: DiagramCaption[]): ConceptMap {
+  const map: ConceptMap = { nodes: [], edges: [] };
+  for (const caption of captions) {
+    const pages = [caption.pageNumber];
+    caption.labels
+      .filter(label => conceptId(label))
+      .forEach(label => map.nodes.push({ id: conceptId(label), label, description: null, pages, origin: 'diagram' }));
+    caption.relationships.forEach(relationship =>
+      addEdge(map, { ...relationship, relation: 'related_to', pages, origin: 'diagram' })
+    );
+  }
+  return map;
+}
+
+/**
+ * Unions concept maps. Nodes merge by id. Edges merge by endpoints and relation;
+ * a diagram edge also merges into a typed text edge between the same concepts,
+ * which is more specific than the diagram's untyped `related_to`.
+ */
+function mergeConceptMaps<N extends ConceptNode, E extends ConceptEdge>(
+  maps: Array<{ nodes: N[]; edges: E[] }>,
+  mergeExtra?: <T extends N | E>(target: T, duplicate: T) => void
+): { nodes: N[]; edges: E[] } {
+  const nodes = new Map<string, N>();
+  const edges = new Map<string, E>();
+  const combine = <T extends N | E>(target: T, duplicate: T) => {
+    target.pages = Array.from(new Set([...target.pages, ...duplicate.pages])).sort((a, b) => a - b);
+    target.origin = target.origin === duplicate.origin ? target.origin : 'both';
+    mergeExtra?.(target, duplicate);
+  };
+
+  for (const map of maps) {
+    for (const node of map.nodes) {
+      const existing = nodes.get(node.id);
+      if (existing) {
+        existing.description = existing.description ?? node.description;
+        combine(existing, node);
+      } else {
+        nodes.set(node.id, { ...node, pages: node.pages.slice() });
+      }
+    }
+    for (const edge of map.edges) {
+      const existing =
+        edges.get(edge.id) ??
+        (edge.relation === 'related_to'
+          ? Array.from(edges.values()).find(entry => entry.source === edge.source && entry.target === edge.target)
+          : undefined);
+      if (existing) {
+        existing.label = existing.label || edge.label;
+        combine(existing, edge);
+      } else {
+        edges.set(edge.id, { ...edge, pages: edge.pages.slice() });
+      }
+    }
+  }
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+}
+
+/** Adds an edge and a bare node for each endpoint the map does not have yet. Self-loops are dropped. */
+function addEdge(
+  map: ConceptMap,
+  edge: { from: string; to: string; relation: ConceptRelation; label: string; pages: number[]; origin: ConceptOrigin }
+): void {
+  const source = conceptId(edge.from);
+  const target = conceptId(edge.to);
+  if (!source || !target || source === target) {
+    return;
+  }
+  for (const [id, label] of [
+    [source, edge.from.trim()],
+    [target, edge.to.trim()]
+  ]) {
+    if (!map.nodes.some(node => node.id === id)) {
+      map.nodes.push({ id, label, description: null, pages: edge.pages.slice(), origin: edge.origin });
+    }
+  }
+  map.edges.push({
+    id: `${source}>${edge.relation}>${target}`,
+    source,
+    target,
+    relation: edge.relation,
+    label: edge.label,
+    pages: edge.pages,
+    origin: edge.origin
+  });
+}
+
+function conceptId(label: string): string {
+  return (label.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join('-');
+}
@@ -0,0 +1,184 @@
+export interface ClozeDeletion {
+  /** 1-based deletion number, stable for the life of the card. */
+  index: number;
+  answer: string;
+  hint?: string | null;
+}
+
+export const CLOZE_BLANK = '[...]';
+export const MAX_CLOZE_DELETIONS = 10;
+
+const CLOZE_ITEM_SEPARATOR = '.c';
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+interface TermRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Checks that every deletion is a non-empty term that appears in the text.
+ * Returns a readable error, or null when the deletions are valid.
+ */
+export function validateClozeDeletions(
+  clozeText: string,
+  clozes: Array<{ answer: string; hint?: string | null }>
+): string | null {
+  if (!clozeText.trim()) {
+    return 'clozeText must not be empty.';
+  }
+  if (!clozes.length) {
+    return 'A cloze card needs at least one deletion.';
+  }
+  if (clozes.length > MAX_CLOZE_DELETIONS) {
+    return `A cloze card can have at most ${MAX_CLOZE_DELETIONS} deletions.`;
+  }
+
+  const seen = new Set<string>();
+  for (const cloze of clozes) {
+    const answer = cloze.answer?.trim() ?? '';
+    if (!answer) {
+      return 'Cloze deletions must not be empty.';
+    }
+    if (!findTermRanges(clozeText, answer).length) {
+      return `Cloze deletion "${answer}" does not appear in the text.`;
+    }
+    const key = answer.toLowerCase();
+    if (seen.has(key)) {
+      return `Cloze deletion "${answer}" is listed more than once.`;
+    }
+    seen.add(key);
+  }
+  if (locateClozeDeletions(clozeText, clozes).some(range => !range)) {
+    return 'Cloze deletions must not overlap in the text.';
+  }
+  return null;
+}
+
+/**
+ * Numbers the deletions of a card. When editing, terms kept from the previous
+ * version keep their index so review progress stays attached to them.
+ */
+export function buildClozeDeletions(
+  clozes: Array<{ answer: string; hint?: string | null }>,
+  previous: ClozeDeletion[] = []
+): ClozeDeletion[] {
+  const previousIndex = new Map(previous.map(cloze => [cloze.answer.trim().toLowerCase(), cloze.index]));
+  let nextIndex = previous.reduce((max, cloze) => Math.max(max, cloze.index), 0) + 1;
+  return clozes.map(cloze => ({
+    index: previousIndex.get(cloze.answer.trim().toLowerCase()) ?? nextIndex++,
+    answer: cloze.answer.trim(),
+    hint: cloze.hint?.trim() || null
+  }));
+}
+
+/** Blanks out one deletion (or all of them when no index is given) and leaves the rest readable. */
+export function renderClozePrompt(clozeText: string, clozes: ClozeDeletion[], activeIndex?: number): string {
+  // Every deletion is placed first, so a blank sits in the same spot whichever one is active.
+  const ranges = locateClozeDeletions(clozeText, clozes);
+  const blanks = clozes
+    .map((cloze, position) => ({ cloze, range: ranges[position] }))
+    .filter(
+      (entry): entry is { cloze: ClozeDeletion; range: TermRange } =>
+        entry.range !== null && (activeIndex === undefined || entry.cloze.index === activeIndex)
+    )
+    .sort((a, b) => a.range.start - b.range.start);
+
+  let prompt = '';
+  let cursor = 0;
+  for (const { cloze, range } of blanks) {
+    prompt += clozeText.slice(cursor, range.start) + (cloze.hint ? `[${cloze.hint}]` : CLOZE_BLANK);
+    cursor = range.end;
+  }
+  return prompt + clozeText.slice(cursor);
+}
+
+/**
+ * Where each deletion sits in the original text, in the order given; null for
+ * deletions that do not appear or only overlap others. Longer answers are
+ * placed first so a term inside another deletion lands on its own occurrence.
+ */
+function locateClozeDeletions(clozeText: string, clozes: Array<{ answer: string }>): Array<TermRange | null> {
+  const ranges: Array<TermRange | null> = clozes.map(() => null);
+  const claimed: TermRange[] = [];
+  clozes
+    .map((cloze, position) => ({ answer: cloze.answer.trim(), position }))
+    .sort((a, b) => b.answer.length - a.answer.length)
+    .forEach(({ answer, position }) => {
+      const range = findTermRanges(clozeText, answer).find(candidate =>
+        claimed.every(other => candidate.end <= other.start || candidate.start >= other.end)
+      );
+      if (range) {
+        claimed.push(range);
+        ranges[position] = range;
+      }
+    });
+  return ranges;
+}
+
+/** Each deletion is reviewed on its own under `<cardId>.c<index>`. */
+export function buildClozeItemId(cardId: string, clozeIndex: number): string {
+  return `${cardId}${CLOZE_ITEM_SEPARATOR}${clozeIndex}`;
+}
+
+export function parseClozeItemId(itemId: string): { cardId: string; clozeIndex: number | null } {
+  const separator = itemId.lastIndexOf(CLOZE_ITEM_SEPARATOR);
+  if (separator === -1) {
+    return { cardId: itemId, clozeIndex: null };
+  }
+  const clozeIndex = Number(itemId.slice(separator + CLOZE_ITEM_SEPARATOR.length));
+  return Number.isInteger(clozeIndex) && clozeIndex > 0
+    ? { cardId: itemId.slice(0, separator), clozeIndex }
+    : { cardId: itemId, clozeIndex: null };
+}
+
+/**
+ * Case-insensitive occurrences of the term, whole-word matches first. Matching
+ * runs on the text itself rather than a lowercased copy, whose length can differ.
+ */
+function findTermRanges(text: string, term: string): TermRange[] {
+  const trimmed = term.trim();
+  if (!trimmed) {
+    return [];
+  }
+  const whole: TermRange[] = [];
+  const partial: TermRange[] = [];
+  for (const match of text.matchAll(new RegExp(trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'giu'))) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const isWholeWord = !WORD_CHAR.test(text.charAt(start - 1)) && !WORD_CHAR.test(text.charAt(end));
+    (isWholeWord ? whole : partial).push({ start, end });
+  }
+  return [...whole, ...partial];
+}
+
+export interface ReviewableCard {
+  id: string;
+  type?: string;
+  prompt: string;
+  answer: string;
+  clozeText?: string;
+  clozes?: ClozeDeletion[];
+}
+
+/**
+ * Splits a stored card into the items a learner reviews. Basic cards are a
+ * single item; cloze cards yield one item per deletion with only that term blanked.
+ */
+export function toReviewItems<T extends ReviewableCard>(
+  card: T
+): Array<T & { cardId: string; clozeIndex: number | null }> {
+  if (card.type !== 'cloze' || !card.clozeText || !card.clozes?.length) {
+    return [{ ...card, cardId: card.id, clozeIndex: null }];
+  }
+  const clozeText = card.clozeText;
+  const clozes = card.clozes;
+  return clozes.map(cloze => ({
+    ...card,
+    id: buildClozeItemId(card.id, cloze.index),
+    prompt: renderClozePrompt(clozeText, clozes, cloze.index),
+    answer: cloze.answer,
+    cardId: card.id,
+    clozeIndex: cloze.index
+  }));
+}
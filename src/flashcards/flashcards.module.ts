@@ -1,11 +1,13 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { FlashcardsService } from './flashcards.service';
+import { LlmModule } from '../llm/llm.module';
 import { FlashcardProgress, FlashcardProgressSchema } from './schemas/flashcard-progress.schema';
 import { StudySession, StudySessionSchema } from './schemas/study-session.schema';
 
 @Module({
   imports: [
+    LlmModule,
     MongooseModule.forFeature([
       { name: FlashcardProgress.name, schema: FlashcardProgressSchema },
       { name: StudySession.name, schema: StudySessionSchema }
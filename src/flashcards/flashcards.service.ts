@@ -1,8 +1,36 @@
 import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
-import OpenAI from 'openai';
+import { buildLanguageInstruction, OutputLanguage } from '../ai/output-language';
+import {
+  buildDifficultyInstruction,
+  buildTopicFocusInstruction,
+  FlashcardGenerationOptions,
+  selectByDifficulty
+} from '../ai/generation-options';
+import { ItemRevision } from '../ai/revision-history';
+import type { ItemGrounding } from '../grounding/grounding.service';
+import { buildSourcePagesInstruction, PageCitation, parseCitedPages } from '../ai/page-citations';
+import { buildPageChunks, chunkItemShare, mergeChunkItems, PageChunk, readPageChunkSize } from '../ai/page-chunks';
+import { LlmService } from '../llm/llm.service';
+import {
+  buildClozeDeletions,
+  ClozeDeletion,
+  MAX_CLOZE_DELETIONS,
+  renderClozePrompt,
+  validateClozeDeletions
+} from './cloze';
+
+export type FlashcardType = 'basic' | 'cloze';
+
+/** Pages per generation call for long documents; small enough that 3 cards a page fit the response. */
+const DEFAULT_PAGE_CHUNK_SIZE = 10;
+
+export const FLASHCARD_GENERATION_MODES = ['basic', 'cloze', 'mixed'] as const;
+export type FlashcardGenerationMode = (typeof FLASHCARD_GENERATION_MODES)[number];
 
 export interface Flashcard {
   id: string;
+  /** Missing on cards created before cloze cards existed, which are all basic. */
+  type?: FlashcardType;
   prompt: string;
   answer: string;
   followUp: string;
@@ -12,6 +40,12 @@ export interface Flashcard {
   originalPrompt?: string;
   originalAnswer?: string;
   originalFollowUp?: string;
+  history?: ItemRevision[];
+  grounding?: ItemGrounding;
+  sourcePages?: PageCitation[];
+  /** Cloze cards only: the source sentence and the terms blanked out of it. */
+  clozeText?: string;
+  clozes?: ClozeDeletion[];
 }
 
 export interface GeneratedFlashcardsResponse {
@@ -21,27 +55,87 @@ export interface GeneratedFlashcardsResponse {
   rawResponse: unknown;
 }
 
+export type RegeneratedFlashcardContent = Pick<
+  Flashcard,
+  'type' | 'prompt' | 'answer' | 'followUp' | 'difficulty' | 'clozeText' | 'clozes' | 'sourcePages'
+>;
+
+/** A regenerated flashcard as the API returns it, with the study set and file it belongs to. */
+export interface RegeneratedFlashcardResponse {
+  id: string;
+  studySetId: string;
+  fileId: string;
+  sourceFile: string;
+  language: string | null;
+  type: FlashcardType;
+  clozeText: string | null;
+  clozes: Array<Required<ClozeDeletion>> | null;
+  prompt: string;
+  answer: string;
+  followUp: string;
+  difficulty: Flashcard['difficulty'];
+  isEdited: boolean;
+  editedAt: string;
+  history: ItemRevision[];
+  grounding: ItemGrounding | null;
+  sourcePages: PageCitation[];
+}
+
+export interface ParsedFlashcardId {
+  studySetId: string;
+  fileId: string;
+  language: string | null;
+  index: number;
+}
+
+/**
+ * Flashcard IDs look like `fc_<studySetId>_<fileId>~<language>_<index>`.
+ * IDs created before results were tracked per language have no `~<language>`.
+ */
+export function buildFlashcardId(
+  studySetId: string,
+  fileId: string,
+  language: string | null | undefined,
+  index: number
+): string {
+  const group = language ? `${fileId}~${language}` : fileId;
+  return `fc_${studySetId}_${group}_${String(index).padStart(3, '0')}`;
+}
+
+export function parseFlashcardId(flashcardId: string): ParsedFlashcardId | null {
+  const parts = flashcardId.split('_');
+  if (parts.length < 4 || parts[0] !== 'fc') {
+    return null;
+  }
+
+  const [fileId, language] = parts.slice(2, -1).join('_').split('~');
+  return {
+    studySetId: parts[1],
+    fileId,
+    language: language || null,
+    index: parseInt(parts[parts.length - 1], 10)
+  };
+}
+
 @Injectable()
 export class FlashcardsService {
   private readonly logger = new Logger(FlashcardsService.name);
-  private readonly openai: OpenAI;
-  private readonly model = process.env.OPENAI_MODEL ?? 'gpt-4o-mini';
-  private readonly promptVersion = 'v3-flashcards';
+  readonly promptVersion = 'v4-flashcards';
+  readonly pageChunkSize: number;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
+  constructor(private readonly llm: LlmService) {
+    this.pageChunkSize = readPageChunkSize('FLASHCARD_PAGE_CHUNK_SIZE', DEFAULT_PAGE_CHUNK_SIZE);
   }
 
-  private assignFlashcardIds(
+  assignFlashcardIds(
     studySetId: string,
     fileId: string,
-    flashcards: Array<{ prompt: string; answer: string; followUp: string; difficulty: string }>
+    language: string | undefined,
+    flashcards: Array<Omit<Flashcard, 'id' | 'isEdited' | 'editedAt'>>
   ): Flashcard[] {
     return flashcards.map((card, index) => ({
       ...card,
-      id: `fc_${studySetId}_${fileId}_${String(index).padStart(3, '0')}`,
+      id: buildFlashcardId(studySetId, fileId, language, index),
       isEdited: false,
       editedAt: null
     }));
@@ -51,60 +145,26 @@ export class FlashcardsService {
     content: string,
     topic?: string,
     studySetId?: string,
-    fileId?: string
+    fileId?: string,
+    language?: OutputLanguage,
+    mode: FlashcardGenerationMode = 'basic',
+    options: FlashcardGenerationOptions = {}
   ): Promise<GeneratedFlashcardsResponse> {
     const trimmedContent = content.trim();
     if (!trimmedContent) {
       throw new InternalServerErrorException('Cannot generate flashcards from empty content.');
     }
 
-    const prompt = this.buildPrompt(trimmedContent, topic);
-    const systemPrompt = 'You are a JSON-only assistant. You respond ONLY with valid JSON arrays. Never include explanatory text, markdown, or any other content outside the JSON structure.';
-    const minCards = this.minFlashcardsForContent(trimmedContent);
-
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: prompt }
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.7,
-        max_tokens: 5000
-      });
-
-      const llmText = response.choices[0]?.message?.content?.trim();
-      if (!llmText) {
-        this.logger.error('Received empty response from OpenAI.');
-        throw new InternalServerErrorException('LLM returned an empty flashcard response.');
-      }
-
-      this.logger.log('OpenAI Response (Flashcards):', llmText);
-
-      let flashcards = this.parseFlashcards(llmText);
-      if (flashcards.length < minCards) {
-        const missing = minCards - flashcards.length;
-        this.logger.warn(
-          `Flashcards below minimum (${flashcards.length}/${minCards}). Requesting ${missing} more.`
-        );
-        const additional = await this.requestAdditionalFlashcards(
-          trimmedContent,
-          flashcards,
-          missing,
-          topic
-        );
-        flashcards = this.mergeFlashcards(flashcards, additional);
-        if (flashcards.length < minCards) {
-          this.logger.warn(`Flashcards still below minimum (${flashcards.length}/${minCards}).`);
-        }
-      }
-      const rawResponse = this.tryParseRaw(llmText);
+      const chunks = buildPageChunks(trimmedContent, this.pageChunkSize);
+      const { model, flashcards, rawResponse } = chunks
+        ? await this.generateFromChunks(chunks, topic, mode, options, language)
+        : await this.generateFromContent(trimmedContent, topic, mode, options, language);
 
       // Assign IDs to flashcards if studySetId and fileId are provided
       const flashcardsWithIds =
         studySetId && fileId
-          ? this.assignFlashcardIds(studySetId, fileId, flashcards)
+          ? this.assignFlashcardIds(studySetId, fileId, language?.code, flashcards)
           : flashcards.map((card, index) => ({
               ...card,
               id: `fc_temp_${index}`,
@@ -113,34 +173,222 @@ export class FlashcardsService {
             }));
 
       return {
-        model: response.model ?? this.model,
+        model,
         promptVersion: this.promptVersion,
         flashcards: flashcardsWithIds,
         rawResponse
       };
     } catch (error) {
-      this.logger.error('OpenAI request failed:', error);
+      this.logger.error('LLM request failed:', error);
       throw new InternalServerErrorException('Unable to generate flashcards at the moment.');
     }
   }
 
-  private buildPrompt(content: string, topic: string | undefined): string {
+  /** Writes a replacement for one card from the same source, keeping the card's type. */
+  async regenerateFlashcard(
+    content: string,
+    card: Flashcard,
+    note?: string | null,
+    language?: OutputLanguage
+  ): Promise<{ model: string; card: RegeneratedFlashcardContent }> {
+    const mode: FlashcardGenerationMode = card.type === 'cloze' ? 'cloze' : 'basic';
+    const current =
+      mode === 'cloze'
+        ? { clozeText: card.clozeText, clozes: card.clozes?.map(cloze => cloze.answer) }
+        : { prompt: card.prompt, answer: card.answer };
+    const prompt = [
+      '=== STRICT JSON OUTPUT MODE ===',
+      'You MUST output ONLY a valid JSON object of the form { "flashcards": [ ... ] }. NO other text is allowed.',
+      '',
+      'TASK: A student flagged one flashcard as wrong or unhelpful. Return exactly 1 replacement flashcard.',
+      '- Test the same concept unless the source material shows the concept itself was wrong.',
+      '- Every fact in the replacement must come from the source material.',
+      '',
+      '=== FLAGGED FLASHCARD ===',
+      JSON.stringify({ ...current, followUp: card.followUp, difficulty: card.difficulty }, null, 2),
+      note?.trim() ? `Student's note on what is wrong: ${note.trim()}` : 'The student did not say what is wrong.',
+      '',
+      ...this.buildStructureLines(mode),
+      '',
+      buildSourcePagesInstruction(content, 'flashcard'),
+      buildLanguageInstruction(language),
+      '',
+      '=== SOURCE MATERIAL ===',
+      content,
+      '',
+      '=== OUTPUT JSON ONLY ==='
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    try {
+      const response = await this.llm.chat({
+        feature: 'flashcards',
+        messages: [
+          { role: 'system', content: 'You are a JSON-only assistant.' },
+          { role: 'user', content: prompt }
+        ],
+        responseFormat: 'json_object',
+        temperature: 0.5,
+        maxTokens: 800
+      });
+      const items = this.extractFlashcardItems(response.content, this.stripBoilerplate(response.content)) ?? [];
+      const replacement = items
+        .map(item => this.normalizeGeneratedCard(item))
+        .find((next): next is Flashcard => next !== null && (next.type ?? 'basic') === mode);
+      if (!replacement) {
+        throw new Error('LLM did not return a usable flashcard.');
+      }
+      return {
+        model: response.model,
+        card: {
+          type: replacement.type,
+          prompt: replacement.prompt,
+          answer: replacement.answer,
+          followUp: replacement.followUp,
+          difficulty: replacement.difficulty,
+          sourcePages: replacement.sourcePages ?? [],
+          ...(mode === 'cloze' ? { clozeText: replacement.clozeText, clozes: replacement.clozes } : {})
+        }
+      };
+    } catch (error) {
+      this.logger.error('Flashcard regeneration failed:', error);
+      throw new InternalServerErrorException('Unable to regenerate the flashcard at the moment.');
+    }
+  }
+
+  private async generateFromContent(
+    content: string,
+    topic: string | undefined,
+    mode: FlashcardGenerationMode,
+    options: FlashcardGenerationOptions,
+    language?: OutputLanguage
+  ): Promise<{ model: string; flashcards: Flashcard[]; rawResponse: unknown }> {
+    const prompt = this.buildPrompt(content, topic, mode, options, language);
+    const systemPrompt = 'You are a JSON-only assistant. You respond ONLY with valid JSON arrays. Never include explanatory text, markdown, or any other content outside the JSON structure.';
+    const minCards = options.count ?? this.minFlashcardsForContent(content);
+
+    const response = await this.llm.chat({
+      feature: 'flashcards',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: prompt }
+      ],
+      responseFormat: 'json_object',
+      temperature: 0.7,
+      maxTokens: 5000
+    });
+
+    const llmText = response.content;
+    if (!llmText) {
+      this.logger.error('Received empty response from the LLM.');
+      throw new InternalServerErrorException('LLM returned an empty flashcard response.');
+    }
+
+    this.logger.log('LLM Response (Flashcards):', llmText);
+
+    let flashcards = this.parseFlashcards(llmText, mode);
+    if (flashcards.length < minCards) {
+      const missing = minCards - flashcards.length;
+      this.logger.warn(
+        `Flashcards below minimum (${flashcards.length}/${minCards}). Requesting ${missing} more.`
+      );
+      const additional = await this.requestAdditionalFlashcards(
+        content,
+        flashcards,
+        missing,
+        mode,
+        options,
+        topic,
+        language
+      );
+      flashcards = this.mergeFlashcards(flashcards, additional);
+      if (flashcards.length < minCards) {
+        this.logger.warn(`Flashcards still below minimum (${flashcards.length}/${minCards}).`);
+      }
+    }
+    if (options.count) {
+      flashcards = selectByDifficulty(flashcards, options.count, options.difficulty, card => card.difficulty);
+    }
+
+    return { model: response.model, flashcards, rawResponse: this.tryParseRaw(llmText) };
+  }
+
+  /**
+   * Generates cards for each page window of a long document, then merges them.
+   * A window that fails, unparseable responses included, is skipped so one bad
+   * response does not lose the rest.
+   */
+  private async generateFromChunks(
+    chunks: PageChunk[],
+    topic: string | undefined,
+    mode: FlashcardGenerationMode,
+    options: FlashcardGenerationOptions,
+    language?: OutputLanguage
+  ): Promise<{ model: string; flashcards: Flashcard[]; rawResponse: unknown }> {
+    this.logger.log(`Generating flashcards from ${chunks.length} page chunk(s).`);
+    const chunkCards: Flashcard[][] = [];
+    const rawResponses: Array<{ pages: string; response: unknown }> = [];
+    let model = '';
+
+    for (const chunk of chunks) {
+      const chunkOptions = options.count ? { ...options, count: chunkItemShare(options.count, chunk, chunks) } : options;
+      try {
+        const generated = await this.generateFromContent(chunk.text, topic, mode, chunkOptions, language);
+        chunkCards.push(generated.flashcards);
+        rawResponses.push({ pages: chunk.rangeLabel, response: generated.rawResponse });
+        model = generated.model;
+      } catch (error) {
+        this.logger.warn(`Flashcards for pages ${chunk.rangeLabel} failed. Skipping them.`, error as Error);
+      }
+    }
+
+    let flashcards = mergeChunkItems(chunkCards, card => card.clozeText ?? card.prompt);
+    if (!flashcards.length) {
+      throw new Error('No page chunk produced usable flashcards.');
+    }
+    if (options.count) {
+      flashcards = selectByDifficulty(flashcards, options.count, options.difficulty, card => card.difficulty);
+    }
+    return { model, flashcards, rawResponse: { chunks: rawResponses } };
+  }
+
+  private buildPrompt(
+    content: string,
+    topic: string | undefined,
+    mode: FlashcardGenerationMode,
+    options: FlashcardGenerationOptions,
+    language?: OutputLanguage
+  ): string {
     const pageCount = this.countPages(content);
-    const minCards = this.minFlashcardsForContent(content);
-    const exampleOutput = [
+    const minCards = options.count ?? this.minFlashcardsForContent(content);
+    const basicExamples = [
       {
+        type: 'basic',
         prompt: 'What is the primary function of mitochondria?',
         answer: 'Mitochondria are the powerhouse of the cell, generating ATP through cellular respiration.',
         followUp: 'Review the electron transport chain process',
         difficulty: 'intro'
       },
       {
+        type: 'basic',
         prompt: 'Explain the difference between aerobic and anaerobic respiration',
         answer: 'Aerobic respiration requires oxygen and produces ~38 ATP, while anaerobic produces only 2 ATP without oxygen.',
         followUp: 'Practice drawing both pathways',
         difficulty: 'intermediate'
       }
     ];
+    const clozeExamples = [
+      {
+        type: 'cloze',
+        clozeText: 'Mitochondria produce ATP through oxidative phosphorylation on the inner membrane.',
+        clozes: [{ answer: 'ATP' }, { answer: 'oxidative phosphorylation', hint: 'process' }],
+        followUp: 'Review where each stage of cellular respiration happens',
+        difficulty: 'intro'
+      }
+    ];
+    const exampleOutput =
+      mode === 'basic' ? basicExamples : mode === 'cloze' ? clozeExamples : [basicExamples[0], ...clozeExamples];
 
     return [
       '=== STRICT JSON OUTPUT MODE ===',
@@ -169,33 +417,39 @@ export class FlashcardsService {
       '=== COVERAGE REQUIREMENTS ===',
       '- Scan the ENTIRE material, not just the beginning',
       '- Distribute flashcards across ALL major topics/sections',
-      '- Include a mix of difficulty levels (intro, intermediate, advanced)',
+      buildDifficultyInstruction(minCards, options.difficulty) ||
+        '- Include a mix of difficulty levels (intro, intermediate, advanced)',
       '- Ensure comprehensive coverage for exam preparation',
-      `- Minimum required flashcards: ${minCards} (3 per page across ${pageCount} pages)`,
+      options.count
+        ? `- Required flashcards: exactly ${minCards}`
+        : `- Minimum required flashcards: ${minCards} (3 per page across ${pageCount} pages)`,
       '',
-      '=== REQUIRED JSON STRUCTURE ===',
-      'Each flashcard must include EXACTLY:',
-      '- prompt (string): Question or cue (short, specific, clear)',
-      '- answer (string): Concise answer in 1–2 sentences from source material',
-      '- followUp (string): Actionable study tip or related concept to review',
-      '- difficulty ("intro", "intermediate", or "advanced")',
+      ...this.buildStructureLines(mode),
       '',
       '=== EXAMPLE OUTPUT ===',
       JSON.stringify(exampleOutput, null, 2),
       '',
       '=== QUALITY GUIDELINES ===',
-      `- You MUST generate at least ${minCards} flashcards`,
-      '- Generate as many flashcards as possible to ensure comprehensive coverage of ALL material',
-      '- Create flashcards for EVERY major concept, definition, fact, formula, and process',
-      '- There is NO limit - the more flashcards, the better for exam preparation',
+      ...(options.count
+        ? [`- You MUST generate exactly ${minCards} flashcards, chosen to cover the most exam-critical material`]
+        : [
+            `- You MUST generate at least ${minCards} flashcards`,
+            '- Generate as many flashcards as possible to ensure comprehensive coverage of ALL material',
+            '- Create flashcards for EVERY major concept, definition, fact, formula, and process',
+            '- There is NO limit - the more flashcards, the better for exam preparation'
+          ]),
       '- If the material is short, split concepts into smaller, more granular cards without inventing facts',
-      '- Prompts should be direct questions or fill-in-the-blank cues',
+      mode === 'basic' ? '- Prompts should be direct questions or fill-in-the-blank cues' : '',
+      mode !== 'basic' ? '- Use cloze cards for vocabulary, formulas and definitions; blank the key terms only' : '',
       '- Answers must come from the source material, not general knowledge',
       '- FollowUp should help students deepen understanding or make connections',
       '- Match the academic level and terminology of the source material',
       '- Avoid overly broad or vague prompts',
       '',
       topic ? `Topic: ${topic}` : '',
+      buildTopicFocusInstruction(options),
+      buildSourcePagesInstruction(content, 'flashcard'),
+      buildLanguageInstruction(language),
       '',
       '=== SOURCE MATERIAL ===',
       content,
@@ -220,7 +474,10 @@ export class FlashcardsService {
     content: string,
     existing: Flashcard[],
     missing: number,
-    topic?: string
+    mode: FlashcardGenerationMode,
+    options: FlashcardGenerationOptions,
+    topic?: string,
+    language?: OutputLanguage
   ): Promise<Flashcard[]> {
     if (missing <= 0) {
       return [];
@@ -243,13 +500,12 @@ export class FlashcardsService {
         ? `Existing prompts (do not repeat):\n- ${existingPrompts.join('\n- ')}`
         : '',
       '',
-      '=== REQUIRED JSON STRUCTURE ===',
-      '- prompt (string)',
-      '- answer (string)',
-      '- followUp (string)',
-      '- difficulty ("intro", "intermediate", or "advanced")',
+      ...this.buildStructureLines(mode),
       '',
       topic ? `Topic: ${topic}` : '',
+      buildTopicFocusInstruction(options),
+      buildSourcePagesInstruction(content, 'flashcard'),
+      buildLanguageInstruction(language),
       '',
       '=== SOURCE MATERIAL ===',
       content,
@@ -260,21 +516,21 @@ export class FlashcardsService {
       .join('\n');
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
+      const response = await this.llm.chat({
+        feature: 'flashcards',
         messages: [
           { role: 'system', content: 'You are a JSON-only assistant.' },
           { role: 'user', content: prompt }
         ],
-        response_format: { type: 'json_object' },
+        responseFormat: 'json_object',
         temperature: 0.7,
-        max_tokens: 3500
+        maxTokens: 3500
       });
-      const llmText = response.choices[0]?.message?.content?.trim();
+      const llmText = response.content;
       if (!llmText) {
         return [];
       }
-      return this.parseFlashcards(llmText);
+      return this.parseFlashcards(llmText, mode);
     } catch (error) {
       this.logger.warn('Additional flashcard request failed.', error as Error);
       return [];
@@ -298,10 +554,28 @@ export class FlashcardsService {
     return merged;
   }
 
-  private parseFlashcards(raw: string): Flashcard[] {
+  private parseFlashcards(raw: string, mode: FlashcardGenerationMode): Flashcard[] {
     const cleaned = this.stripBoilerplate(raw);
+    const items = this.extractFlashcardItems(raw, cleaned);
+    if (items) {
+      const cards = items
+        .map(item => this.normalizeGeneratedCard(item))
+        .filter((card): card is Flashcard => card !== null && (mode === 'mixed' || (card.type ?? 'basic') === mode));
+      if (cards.length < items.length) {
+        this.logger.warn(
+          `Dropped ${items.length - cards.length} flashcard(s) that were incomplete or had invalid cloze deletions.`
+        );
+      }
+      return cards;
+    }
+
+    this.logger.error('Unparseable flashcard response:', cleaned || raw);
+    throw new Error('LLM returned a flashcard response that could not be parsed.');
+  }
+
+  private extractFlashcardItems(raw: string, cleaned: string): unknown[] | null {
     try {
-      const parsed = JSON.parse(cleaned) as Flashcard[] | { flashcards?: Flashcard[] };
+      const parsed = JSON.parse(cleaned) as unknown[] | { flashcards?: unknown[] };
 
       // Validate array structure
       if (Array.isArray(parsed)) {
@@ -329,23 +603,97 @@ export class FlashcardsService {
     } catch (error) {
       this.logger.warn('Failed to parse flashcards JSON, falling back to text.', error as Error);
     }
-    return [
-      {
-        id: 'fc_parse_error_000',
-        prompt: 'Unable to parse flashcards',
-        answer: cleaned || raw,
-        followUp: 'Try regenerating the flashcards.',
-        difficulty: 'intro',
-        isEdited: false,
-        editedAt: null
+    return null;
+  }
+
+  private normalizeGeneratedCard(raw: unknown): Flashcard | null {
+    if (!raw || typeof raw !== 'object') {
+      return null;
+    }
+    const item = raw as Record<string, any>;
+    const followUp = typeof item.followUp === 'string' ? item.followUp : '';
+    const difficulty = typeof item.difficulty === 'string' ? item.difficulty : 'intermediate';
+    const sourcePages = parseCitedPages(item.sourcePages ?? []);
+
+    if (item.type === 'cloze' || item.clozeText !== undefined) {
+      const clozeText = typeof item.clozeText === 'string' ? item.clozeText.trim() : '';
+      // Keep only deletions that really occur in the sentence; drop the card if none do.
+      const terms: Array<{ answer: string; hint?: string | null }> = [];
+      for (const cloze of Array.isArray(item.clozes) ? item.clozes : []) {
+        const term = typeof cloze === 'string' ? { answer: cloze } : { answer: String(cloze?.answer ?? ''), hint: cloze?.hint };
+        if (terms.length < MAX_CLOZE_DELETIONS && !validateClozeDeletions(clozeText, [...terms, term])) {
+          terms.push(term);
+        }
+      }
+      if (!clozeText || !terms.length) {
+        return null;
       }
+      const clozes = buildClozeDeletions(terms);
+      return {
+        id: '',
+        type: 'cloze',
+        prompt: renderClozePrompt(clozeText, clozes),
+        answer: clozes.map(cloze => cloze.answer).join('; '),
+        followUp,
+        difficulty,
+        isEdited: false,
+        editedAt: null,
+        clozeText,
+        clozes,
+        sourcePages
+      };
+    }
+
+    if (typeof item.prompt !== 'string' || typeof item.answer !== 'string' || !item.prompt.trim()) {
+      return null;
+    }
+    return {
+      id: '',
+      type: 'basic',
+      prompt: item.prompt,
+      answer: item.answer,
+      followUp,
+      difficulty,
+      isEdited: false,
+      editedAt: null,
+      sourcePages
+    };
+  }
+
+  private buildStructureLines(mode: FlashcardGenerationMode): string[] {
+    const basic = [
+      '- type: "basic"',
+      '- prompt (string): Question or cue (short, specific, clear)',
+      '- answer (string): Concise answer in 1–2 sentences from source material',
+      '- followUp (string): Actionable study tip or related concept to review',
+      '- difficulty ("intro", "intermediate", or "advanced")'
+    ];
+    const cloze = [
+      '- type: "cloze"',
+      '- clozeText (string): One sentence taken or closely paraphrased from the source material',
+      `- clozes (array of 1-${MAX_CLOZE_DELETIONS} { "answer": string, "hint"?: string }): Key terms to blank out; each answer MUST appear verbatim in clozeText`,
+      '- followUp (string): Actionable study tip or related concept to review',
+      '- difficulty ("intro", "intermediate", or "advanced")'
+    ];
+    if (mode === 'basic') {
+      return ['=== REQUIRED JSON STRUCTURE ===', 'Each flashcard must include EXACTLY:', ...basic];
+    }
+    if (mode === 'cloze') {
+      return ['=== REQUIRED JSON STRUCTURE ===', 'Every flashcard is a cloze card and must include EXACTLY:', ...cloze];
+    }
+    return [
+      '=== REQUIRED JSON STRUCTURE ===',
+      'Mix basic and cloze cards. Basic cards must include EXACTLY:',
+      ...basic,
+      'Cloze cards must include EXACTLY:',
+      ...cloze
     ];
   }
 
   private hasWrongFlashcardStructure(obj: any): boolean {
     // Check for common wrong structures that DeepSeek might generate
     const wrongKeys = ['search_query', 'page_numbers', 'results', 'id', 'text'];
-    return wrongKeys.some(key => key in obj) || !('prompt' in obj && 'answer' in obj);
+    return wrongKeys.some(key => key in obj) || !(('prompt' in obj && 'answer' in obj) || 'clozeText' in obj);
   }
 
   private tryParseRaw(raw: string): unknown {
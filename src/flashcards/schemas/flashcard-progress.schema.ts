@@ -18,6 +18,10 @@ export class FlashcardProgress {
   @Prop({ required: true })
   flashcardId!: string;
 
+  // Set when the item is one deletion of a cloze card (flashcardId is `<cardId>.c<index>`)
+  @Prop({ type: Number, default: null })
+  clozeIndex!: number | null;
+
   // Denormalized content for query performance
   @Prop({ required: true })
   prompt!: string;
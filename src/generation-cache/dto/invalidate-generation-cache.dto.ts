@@ -0,0 +1,34 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export class InvalidateGenerationCacheDto {
+  @ApiPropertyOptional({ enum: ['summary', 'flashcards', 'quizzes', 'glossary', 'conceptMap'], example: 'flashcards' })
+  @IsOptional()
+  @IsEnum(['summary', 'flashcards', 'quizzes', 'glossary', 'conceptMap'])
+  feature?: string;
+
+  @ApiPropertyOptional({ example: 'v4-flashcards' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  promptVersion?: string;
+
+  @ApiPropertyOptional({ example: 'gpt-4o-mini' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  model?: string;
+
+  @ApiPropertyOptional({
+    example: '3f1c9b2a6d0e4c8f9a7b5d3e1f2a4c6b8d0e2f4a6c8b0d2e4f6a8c0b2d4e6f8a',
+    description: 'SHA-256 of the whitespace-normalized source text.'
+  })
+  @IsOptional()
+  @Matches(/^[a-f0-9]{64}$/)
+  sourceHash?: string;
+}
+
+export class InvalidateGenerationCacheResponseDto {
+  @ApiProperty({ example: 12 })
+  deleted!: number;
+}
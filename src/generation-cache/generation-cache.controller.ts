@@ -0,0 +1,28 @@
+import { Body, Controller, HttpCode, HttpStatus, Post, UseGuards } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { AdminKeyGuard } from '../auth/guards/admin-key.guard';
+import { GenerationCacheService } from './generation-cache.service';
+import {
+  InvalidateGenerationCacheDto,
+  InvalidateGenerationCacheResponseDto
+} from './dto/invalidate-generation-cache.dto';
+
+@ApiTags('Admin')
+@ApiSecurity('admin-key')
+@Controller('admin/generation-cache')
+export class GenerationCacheController {
+  constructor(private readonly generationCache: GenerationCacheService) {}
+
+  @Post('invalidate')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(AdminKeyGuard)
+  @ApiOperation({
+    summary: 'Invalidate cached generations',
+    description:
+      'Deletes cached summaries, flashcards and quizzes matching every given filter, so the next upload generates afresh. An empty body clears the whole cache.'
+  })
+  @ApiOkResponse({ type: InvalidateGenerationCacheResponseDto })
+  async invalidate(@Body() dto: InvalidateGenerationCacheDto): Promise<InvalidateGenerationCacheResponseDto> {
+    return { deleted: await this.generationCache.invalidate(dto) };
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { GenerationCacheService } from './generation-cache.service';
+import { GenerationCacheController } from './generation-cache.controller';
+import { GenerationCacheEntry, GenerationCacheEntrySchema } from './schemas/generation-cache-entry.schema';
+import { LlmModule } from '../llm/llm.module';
+
+@Module({
+  imports: [
+    LlmModule,
+    MongooseModule.forFeature([{ name: GenerationCacheEntry.name, schema: GenerationCacheEntrySchema }])
+  ],
+  controllers: [GenerationCacheController],
+  providers: [GenerationCacheService],
+  exports: [GenerationCacheService]
+})
+export class GenerationCacheModule {}
@@ -0,0 +1,139 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash } from 'crypto';
+import { GenerationCacheEntry, GenerationCacheEntryDocument } from './schemas/generation-cache-entry.schema';
+import { LlmService } from '../llm/llm.service';
+import { LlmFeature } from '../llm/llm.types';
+
+export interface GenerationCacheRequest {
+  feature: LlmFeature;
+  source: string;
+  promptVersion: string;
+  /** Everything besides the source that changes the output: language, modes, generation options. */
+  options?: Record<string, unknown>;
+  /** Prompt topic hint such as the file name; handed to the generator only while caching is off. */
+  topic?: string;
+}
+
+export interface GenerationCacheFilter {
+  feature?: string;
+  promptVersion?: string;
+  model?: string;
+  sourceHash?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reuses generated results across uploads of the same document. Entries are
+ * keyed on the normalized source text, feature, model, prompt version and
+ * options, so changing any of them generates afresh. Entries are shared across
+ * users, so the request's topic hint (the file name) only reaches the generator
+ * when caching is off; otherwise it would end up in another upload's titles and
+ * topic tags.
+ */
+@Injectable()
+export class GenerationCacheService {
+  private readonly logger = new Logger(GenerationCacheService.name);
+  private readonly enabled: boolean;
+  private readonly ttlDays: number;
+
+  constructor(
+    @InjectModel(GenerationCacheEntry.name)
+    private readonly cacheModel: Model<GenerationCacheEntryDocument>,
+    private readonly llm: LlmService,
+    private readonly config: ConfigService
+  ) {
+    this.enabled = (this.config.get<string>('GENERATION_CACHE_ENABLED') ?? 'true').toLowerCase() !== 'false';
+    const ttlDays = Number(this.config.get<string>('GENERATION_CACHE_TTL_DAYS'));
+    this.ttlDays = Number.isFinite(ttlDays) && ttlDays >= 0 ? ttlDays : 30;
+  }
+
+  /** Returns the cached result for the request, or generates and caches it. */
+  async getOrGenerate<T>(
+    request: GenerationCacheRequest,
+    generate: (topic: string | undefined) => Promise<T>
+  ): Promise<{ result: T; cached: boolean }> {
+    if (!this.enabled) {
+      return { result: await generate(request.topic), cached: false };
+    }
+
+    const entry = this.describe(request);
+    const now = new Date();
+    // Expired entries linger until the TTL monitor removes them; they must not count as hits.
+    const hit = await this.cacheModel
+      .findOneAndUpdate(
+        { key: entry.key, $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+        { $inc: { hits: 1 }, $set: { lastHitAt: now } }
+      )
+      .lean()
+      .exec()
+      .catch(error => {
+        this.logger.warn(`Generation cache lookup failed: ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+      });
+    if (hit) {
+      this.logger.log(`Generation cache hit for ${request.feature} (${entry.sourceHash.slice(0, 12)})`);
+      return { result: hit.result as T, cached: true };
+    }
+
+    const result = await generate(undefined);
+    await this.cacheModel
+      .updateOne(
+        { key: entry.key },
+        {
+          $set: {
+            ...entry,
+            result,
+            hits: 0,
+            lastHitAt: null,
+            expiresAt: this.ttlDays ? new Date(Date.now() + this.ttlDays * DAY_MS) : null
+          }
+        },
+        { upsert: true }
+      )
+      .exec()
+      .catch(error => {
+        this.logger.warn(`Failed to cache ${request.feature} result: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    return { result, cached: false };
+  }
+
+  /** Deletes matching entries; an empty filter clears the whole cache. */
+  async invalidate(filter: GenerationCacheFilter): Promise<number> {
+    const query = Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== undefined && value !== ''));
+    const { deletedCount } = await this.cacheModel.deleteMany(query).exec();
+    this.logger.log(`Invalidated ${deletedCount} generation cache entries (${JSON.stringify(query)})`);
+    return deletedCount;
+  }
+
+  hashSource(source: string): string {
+    return createHash('sha256').update(source.replace(/\s+/g, ' ').trim()).digest('hex');
+  }
+
+  private describe(request: GenerationCacheRequest) {
+    const sourceHash = this.hashSource(request.source);
+    const model = this.llm.modelFor(request.feature);
+    const options = request.options ?? null;
+    const key = createHash('sha256')
+      .update(stableStringify({ feature: request.feature, sourceHash, model, promptVersion: request.promptVersion, options }))
+      .digest('hex');
+    return { key, feature: request.feature, sourceHash, model, promptVersion: request.promptVersion, options };
+  }
+}
+
+/** JSON with sorted object keys, so equal options always produce the same key. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
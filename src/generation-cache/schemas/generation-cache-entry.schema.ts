@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+
+export type GenerationCacheEntryDocument = HydratedDocument<GenerationCacheEntry>;
+
+/** A generated feature result, reusable for any upload with the same source text and settings. */
+@Schema({ timestamps: true })
+export class GenerationCacheEntry {
+  @Prop({ required: true })
+  key!: string;
+
+  @Prop({ required: true })
+  feature!: string;
+
+  @Prop({ required: true })
+  sourceHash!: string;
+
+  @Prop({ required: true })
+  model!: string;
+
+  @Prop({ required: true })
+  promptVersion!: string;
+
+  @Prop({ type: Object, default: null })
+  options!: Record<string, unknown> | null;
+
+  @Prop({ type: Object, required: true })
+  result!: unknown;
+
+  @Prop({ default: 0 })
+  hits!: number;
+
+  @Prop({ type: Date, default: null })
+  lastHitAt!: Date | null;
+
+  @Prop({ type: Date, default: null })
+  expiresAt!: Date | null;
+
+  @Prop()
+  createdAt?: Date;
+}
+
+export const GenerationCacheEntrySchema = SchemaFactory.createForClass(GenerationCacheEntry);
+
+GenerationCacheEntrySchema.index({ key: 1 }, { unique: true });
+GenerationCacheEntrySchema.index({ feature: 1, promptVersion: 1 });
+GenerationCacheEntrySchema.index({ sourceHash: 1 });
+GenerationCacheEntrySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { GlossaryService } from './glossary.service';
+import { LlmModule } from '../llm/llm.module';
+
+@Module({
+  imports: [LlmModule],
+  providers: [GlossaryService],
+  exports: [GlossaryService]
+})
+export class GlossaryModule {}
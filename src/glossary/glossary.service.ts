@@ -0,0 +1,279 @@
+import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import { buildLanguageInstruction, OutputLanguage } from '../ai/output-language';
+import { listSourcePages } from '../ai/page-citations';
+import { asJsonArray, asJsonObject, parseLlmJson } from '../ai/llm-json';
+import { buildPageChunks, PageChunk, readPageChunkSize } from '../ai/page-chunks';
+import { LlmService } from '../llm/llm.service';
+
+export interface GlossaryTerm {
+  term: string;
+  definition: string;
+  synonyms: string[];
+  relatedTerms: string[];
+  /** Page of the source where the term first appears; null for sources without page markers. */
+  firstMentionPage: number | null;
+}
+
+export interface GeneratedGlossaryResponse {
+  model: string;
+  promptVersion: string;
+  terms: GlossaryTerm[];
+  rawResponse: unknown;
+}
+
+export interface GlossarySource {
+  fileId: string;
+  fileName: string;
+  terms: GlossaryTerm[];
+}
+
+export interface StudySetGlossaryTerm extends GlossaryTerm {
+  /** Every file that defines the term. `firstMentionPage` above refers to the first of them. */
+  sources: Array<{ fileId: string; fileName: string; firstMentionPage: number | null }>;
+}
+
+export interface StudySetGlossary {
+  terms: StudySetGlossaryTerm[];
+  sourceFiles: Array<{ fileId: string; fileName: string }>;
+}
+
+/** Pages per extraction call for long documents. */
+const DEFAULT_PAGE_CHUNK_SIZE = 10;
+const TERMS_PER_PAGE = 2;
+const MIN_TERMS = 5;
+const MAX_TERMS_PER_CALL = 40;
+
+@Injectable()
+export class GlossaryService {
+  private readonly logger = new Logger(GlossaryService.name);
+  readonly promptVersion = 'v1-glossary';
+  readonly pageChunkSize: number;
+
+  constructor(private readonly llm: LlmService) {
+    this.pageChunkSize = readPageChunkSize('GLOSSARY_PAGE_CHUNK_SIZE', DEFAULT_PAGE_CHUNK_SIZE);
+  }
+
+  async generateGlossary(content: string, topic?: string, language?: OutputLanguage): Promise<GeneratedGlossaryResponse> {
+    const trimmedContent = content.trim();
+    if (!trimmedContent) {
+      throw new InternalServerErrorException('Cannot build a glossary from empty content.');
+    }
+
+    try {
+      const chunks = buildPageChunks(trimmedContent, this.pageChunkSize);
+      const { model, terms, rawResponse } = chunks
+        ? await this.extractFromChunks(chunks, topic, language)
+        : await this.extractTerms(trimmedContent, topic, language);
+      return { model, promptVersion: this.promptVersion, terms, rawResponse };
+    } catch (error) {
+      this.logger.error('LLM request failed:', error);
+      throw new InternalServerErrorException('Unable to build the glossary at the moment.');
+    }
+  }
+
+  /**
+   * Merges per-file glossaries into one for the study set. Terms that share a
+   * name or synonym are combined; the first file in upload order keeps its
+   * definition and the others are listed as sources.
+   */
+  mergeFileGlossaries(sources: GlossarySource[]): StudySetGlossary {
+    const terms = mergeGlossaryTerms<StudySetGlossaryTerm>(
+      sources.map(source =>
+        source.terms.map(term => ({
+          ...term,
+          sources: [{ fileId: source.fileId, fileName: source.fileName, firstMentionPage: term.firstMentionPage }]
+        }))
+      ),
+      (target, duplicate) => {
+        const known = new Set(target.sources.map(entry => entry.fileId));
+        target.sources.push(...duplicate.sources.filter(entry => !known.has(entry.fileId)));
+      }
+    );
+    return {
+      terms,
+      sourceFiles: sources.map(source => ({ fileId: source.fileId, fileName: source.fileName }))
+    };
+  }
+
+  private async extractFromChunks(
+    chunks: PageChunk[],
+    topic?: string,
+    language?: OutputLanguage
+  ): Promise<{ model: string; terms: GlossaryTerm[]; rawResponse: unknown }> {
+    this.logger.log(`Extracting glossary terms from ${chunks.length} page chunk(s).`);
+    const chunkTerms: GlossaryTerm[][] = [];
+    const rawResponses: Array<{ pages: string; response: unknown }> = [];
+    let model = '';
+
+    for (const chunk of chunks) {
+      try {
+        const extracted = await this.extractTerms(chunk.text, topic, language);
+        chunkTerms.push(extracted.terms);
+        rawResponses.push({ pages: chunk.rangeLabel, response: extracted.rawResponse });
+        model = extracted.model;
+      } catch (error) {
+        this.logger.warn(`Glossary terms for pages ${chunk.rangeLabel} failed. Skipping them.`, error as Error);
+      }
+    }
+
+    const terms = mergeGlossaryTerms(chunkTerms);
+    if (!terms.length) {
+      throw new Error('No page chunk produced usable glossary terms.');
+    }
+    return { model, terms, rawResponse: { chunks: rawResponses } };
+  }
+
+  private async extractTerms(
+    content: string,
+    topic?: string,
+    language?: OutputLanguage
+  ): Promise<{ model: string; terms: GlossaryTerm[]; rawResponse: unknown }> {
+    const pages = listSourcePages(content);
+    const minTerms = Math.min(MAX_TERMS_PER_CALL, Math.max(MIN_TERMS, pages.length * TERMS_PER_PAGE));
+    const prompt = [
+      '=== STRICT JSON OUTPUT MODE ===',
+      'You MUST output ONLY a valid JSON object of the form { "terms": [ ... ] }. NO other text is allowed.',
+      '',
+      'TASK: Build a glossary of the domain-specific terms a student must know from the source material.',
+      '',
+      '=== WHAT TO INCLUDE ===',
+      '- Technical vocabulary, named concepts, processes, laws, formulas and abbreviations',
+      '- Skip everyday words and terms the source only mentions in passing',
+      `- Extract at least ${minTerms} terms when the material has them, and no more than ${MAX_TERMS_PER_CALL}`,
+      '',
+      '=== REQUIRED JSON STRUCTURE ===',
+      'Each term must include EXACTLY:',
+      '- term (string): The term as the source writes it',
+      '- definition (string): A 1-2 sentence definition based on the source material',
+      '- synonyms (array of strings): Abbreviations or alternative names used for the term; empty if none',
+      '- relatedTerms (array of strings): Other glossary terms it is closely connected to',
+      pages.length
+        ? '- firstMentionPage (number): The N of the first "=== Page N ===" section that mentions the term'
+        : '',
+      '',
+      '=== QUALITY GUIDELINES ===',
+      '- Definitions must come from the source material, not general knowledge',
+      '- List each term once; put variants of the same term under synonyms',
+      '- Match the academic level and terminology of the source material',
+      '',
+      topic ? `Topic: ${topic}` : '',
+      buildLanguageInstruction(language),
+      '',
+      '=== SOURCE MATERIAL ===',
+      content,
+      '',
+      '=== OUTPUT JSON ONLY ==='
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    const response = await this.llm.chat({
+      feature: 'glossary',
+      messages: [
+        { role: 'system', content: 'You are a JSON-only assistant.' },
+        { role: 'user', content: prompt }
+      ],
+      responseFormat: 'json_object',
+      temperature: 0.3,
+      maxTokens: 4000
+    });
+
+    const llmText = response.content;
+    if (!llmText) {
+      this.logger.error('Received empty response from the LLM.');
+      throw new InternalServerErrorException('LLM returned an empty glossary response.');
+    }
+
+    const parsed = parseLlmJson(llmText);
+    const items = Array.isArray(parsed) ? parsed : asJsonArray(asJsonObject(parsed)?.terms);
+    const validPages = new Set(pages);
+    const terms = mergeGlossaryTerms([
+      items
+        .map(item => this.normalizeTerm(item, validPages))
+        .filter((term): term is GlossaryTerm => term !== null)
+    ]);
+    if (!terms.length) {
+      throw new Error('LLM did not return any usable glossary terms.');
+    }
+    return { model: response.model, terms, rawResponse: parsed ?? llmText };
+  }
+
+  private normalizeTerm(raw: unknown, validPages: Set<number>): GlossaryTerm | null {
+    const item = asJsonObject(raw);
+    if (!item) {
+      return null;
+    }
+    const term = typeof item.term === 'string' ? item.term.trim() : '';
+    const definition = typeof item.definition === 'string' ? item.definition.trim() : '';
+    if (!term || !definition) {
+      return null;
+    }
+    const page = Number(item.firstMentionPage);
+    return {
+      term,
+      definition,
+      synonyms: uniqueTerms(toStrings(item.synonyms), [term]),
+      relatedTerms: uniqueTerms(toStrings(item.relatedTerms), [term]),
+      firstMentionPage: validPages.has(page) ? page : null
+    };
+  }
+}
+
+/**
+ * Combines glossaries term by term, matching on the term or any synonym. The
+ * first occurrence keeps its definition; later ones add synonyms, related
+ * terms and a first-mention page if it had none. Sorted alphabetically.
+ */
+function mergeGlossaryTerms<T extends GlossaryTerm>(
+  lists: T[][],
+  mergeExtra?: (target: T, duplicate: T) => void
+): T[] {
+  const merged: T[] = [];
+  const byName = new Map<string, T>();
+  for (const terms of lists) {
+    for (const term of terms) {
+      const names = [term.term, ...term.synonyms].map(termKey).filter(Boolean);
+      const existing = names.map(name => byName.get(name)).find((entry): entry is T => entry !== undefined);
+      const target = existing ?? { ...term, synonyms: term.synonyms.slice(), relatedTerms: term.relatedTerms.slice() };
+      if (existing) {
+        existing.synonyms = uniqueTerms([...existing.synonyms, term.term, ...term.synonyms], [existing.term]);
+        existing.relatedTerms = uniqueTerms([...existing.relatedTerms, ...term.relatedTerms], [
+          existing.term,
+          ...existing.synonyms
+        ]);
+        existing.firstMentionPage = existing.firstMentionPage ?? term.firstMentionPage;
+        mergeExtra?.(existing, term);
+      } else {
+        merged.push(target);
+      }
+      names.forEach(name => {
+        if (!byName.has(name)) {
+          byName.set(name, target);
+        }
+      });
+    }
+  }
+  return merged.sort((a, b) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base' }));
+}
+
+function uniqueTerms(values: string[], exclude: string[]): string[] {
+  const seen = new Set(exclude.map(termKey));
+  return values.filter(value => {
+    const key = termKey(value);
+    if (!key || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === 'string').map(entry => entry.trim())
+    : [];
+}
+
+function termKey(text: string): string {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).join(' ');
+}
@@ -0,0 +1,273 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { GeneratedItemFeature, listGeneratedItems } from '../ai/generated-items';
+import { asJsonArray, asJsonObject } from '../ai/llm-json';
+
+export type GroundedFeature = GeneratedItemFeature;
+
+/** How well one generated item is backed by the study source. */
+export interface ItemGrounding {
+  /** Share (0-1) of the item's weighted terms found in the best passage. */
+  score: number;
+  supported: boolean;
+  passage: string | null;
+  page: number | null;
+}
+
+export interface GroundingReport {
+  status: 'checked' | 'skipped';
+  method: 'lexical';
+  threshold: number;
+  checkedItems: number;
+  unsupportedItems: number;
+  reason: string | null;
+  checkedAt: string;
+}
+
+interface SourcePassage {
+  page: number | null;
+  text: string;
+  terms: Set<string>;
+}
+
+export interface SourceIndex {
+  passages: SourcePassage[];
+  idf: Map<string, number>;
+  missingIdf: number;
+}
+
+const PASSAGE_SENTENCES = 3;
+const MAX_PASSAGE_CHARS = 400;
+const STEM_LENGTH = 6;
+const MIN_CLAIM_TERMS = 3;
+const SOURCE_LABELS = /\b(OCR_TEXT|DIAGRAM_CAPTION_JSON):\s*/g;
+
+@Injectable()
+export class GroundingService {
+  private readonly logger = new Logger(GroundingService.name);
+  private readonly enabled: boolean;
+  private readonly threshold: number;
+
+  constructor(private readonly config: ConfigService) {
+    this.enabled = (this.config.get<string>('GROUNDING_ENABLED') ?? 'true').toLowerCase() !== 'false';
+    const threshold = Number(this.config.get<string>('GROUNDING_MIN_SUPPORT'));
+    this.threshold = Number.isFinite(threshold) ? Math.min(1, Math.max(0, threshold)) : 0.5;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Annotates every flashcard, quiz question or summary key point in a
+   * generated result with its grounding, and adds a `grounding` report to the
+   * result. Matching is lexical, so content generated in a different language
+   * from the source is marked as skipped instead of being flagged wholesale.
+   */
+  groundResult<T>(
+    feature: GroundedFeature,
+    result: T,
+    source: string,
+    languages: { source?: string | null; output?: string | null } = {}
+  ): T {
+    const items = listGeneratedItems(feature, result);
+    if (!items) {
+      return result;
+    }
+
+    if (!this.enabled) {
+      return { ...result, grounding: this.buildReport('skipped', 0, 0, 'Grounding checks are disabled.') };
+    }
+    if (this.isCrossLanguage(languages.source, languages.output)) {
+      return { ...result, grounding: this.buildReport('skipped', 0, 0, 'Generated in a different language from the source.') };
+    }
+
+    const index = this.buildIndex(source);
+    let unsupported = 0;
+    items.forEach(item => {
+      const grounding = this.checkClaim(index, this.claimFor(feature, item));
+      item.grounding = grounding;
+      if (!grounding.supported) {
+        unsupported += 1;
+      }
+    });
+
+    if (unsupported) {
+      this.logger.warn(`${unsupported}/${items.length} ${feature} item(s) are not supported by the source.`);
+    }
+    return { ...result, grounding: this.buildReport('checked', items.length, unsupported, null) };
+  }
+
+  /**
+   * Grounds a single item, e.g. after it was regenerated, and refreshes the
+   * counts in the result's report. Items of unchecked results are left ungrounded.
+   */
+  groundItem<T>(
+    feature: GroundedFeature,
+    result: T,
+    item: { grounding?: ItemGrounding },
+    source: string,
+    languages: { source?: string | null; output?: string | null } = {}
+  ): T {
+    delete item.grounding;
+    const report = (result as { grounding?: GroundingReport } | null)?.grounding;
+    if (!this.enabled || report?.status !== 'checked' || this.isCrossLanguage(languages.source, languages.output)) {
+      return result;
+    }
+
+    item.grounding = this.checkClaim(this.buildIndex(source), this.claimFor(feature, asJsonObject(item) ?? {}));
+    const checked = (listGeneratedItems(feature, result) ?? [])
+      .map(entry => asJsonObject(entry.grounding))
+      .filter((grounding): grounding is Record<string, unknown> => grounding !== null);
+    const unsupported = checked.filter(grounding => !grounding.supported).length;
+    return { ...result, grounding: this.buildReport('checked', checked.length, unsupported, null) };
+  }
+
+  buildIndex(source: string): SourceIndex {
+    const passages: SourcePassage[] = [];
+    for (const page of this.splitPages(source)) {
+      const sentences = page.text
+        .split(/(?<=[.!?。！？])\s+|\n+/)
+        .map(sentence => sentence.trim())
+        .filter(Boolean);
+      // Overlapping windows so a claim spanning two sentences still finds one passage.
+      for (let start = 0; start < sentences.length; start += Math.max(1, PASSAGE_SENTENCES - 1)) {
+        const text = sentences.slice(start, start + PASSAGE_SENTENCES).join(' ');
+        passages.push({ page: page.number, text, terms: new Set(this.tokenize(text)) });
+        if (start + PASSAGE_SENTENCES >= sentences.length) {
+          break;
+        }
+      }
+    }
+
+    const documentFrequency = new Map<string, number>();
+    passages.forEach(passage =>
+      passage.terms.forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1))
+    );
+    const total = passages.length;
+    const idf = new Map<string, number>();
+    documentFrequency.forEach((count, term) => idf.set(term, Math.log(1 + total / count)));
+    // Terms that never occur in the source weigh as much as the rarest ones that do.
+    return { passages, idf, missingIdf: Math.log(1 + Math.max(1, total)) };
+  }
+
+  checkClaim(index: SourceIndex, claim: string): ItemGrounding {
+    const terms = Array.from(new Set(this.tokenize(claim)));
+    const weight = (term: string) => index.idf.get(term) ?? index.missingIdf;
+    const totalWeight = terms.reduce((sum, term) => sum + weight(term), 0);
+    if (!terms.length || !index.passages.length || totalWeight === 0) {
+      return { score: 0, supported: false, passage: null, page: null };
+    }
+
+    let best: SourcePassage | null = null;
+    let bestScore = 0;
+    for (const passage of index.passages) {
+      const matched = terms.reduce((sum, term) => (passage.terms.has(term) ? sum + weight(term) : sum), 0);
+      const score = matched / totalWeight;
+      if (score > bestScore) {
+        best = passage;
+        bestScore = score;
+      }
+    }
+
+    const score = Math.round(bestScore * 100) / 100;
+    return {
+      score,
+      supported: score >= this.threshold,
+      passage: best ? this.trimPassage(best.text) : null,
+      page: best?.page ?? null
+    };
+  }
+
+  /**
+   * The statement that must be backed by the source for the item to be
+   * trustworthy. Question wording rarely appears in the source, so it is only
+   * added when the answer alone is too short to judge.
+   */
+  private claimFor(feature: GroundedFeature, item: Record<string, unknown>): string {
+    const text = (value: unknown) => (typeof value === 'string' || typeof value === 'number' ? String(value) : '');
+    const withContext = (answer: string, context: string) =>
+      new Set(this.tokenize(answer)).size >= MIN_CLAIM_TERMS ? answer : `${context} ${answer}`;
+    if (feature === 'summary') {
+      return withContext(text(item.detail), text(item.heading));
+    }
+    if (feature === 'flashcards') {
+      return item.type === 'cloze' ? text(item.clozeText) : withContext(text(item.answer), text(item.prompt));
+    }
+
+    const question = text(item.question);
+    const options = asJsonArray(item.options).map(text);
+    switch (item.type) {
+      case 'true_false':
+        // A false statement is not in the source by design; check the explanation instead.
+        return item.correctAnswer === false ? text(item.explanation) : question;
+      case 'multi_select':
+        return withContext(
+          asJsonArray(item.correctIndices)
+            .map(index => options[Number(index)] ?? '')
+            .join(' '),
+          question
+        );
+      case 'fill_blank':
+        return question.replace(/_{3,}/, text(asJsonArray(item.acceptedAnswers)[0]));
+      case 'matching':
+        return asJsonArray(item.pairs)
+          .map(entry => {
+            const pair = asJsonObject(entry);
+            return `${text(pair?.left)} ${text(pair?.right)}`;
+          })
+          .join(' ');
+      case 'short_answer':
+        return withContext(text(item.sampleAnswer), question);
+      default:
+        return withContext(options[Number(item.correctIndex)] ?? '', question);
+    }
+  }
+
+  private splitPages(source: string): Array<{ number: number | null; text: string }> {
+    const clean = (text: string) => text.replace(SOURCE_LABELS, '').trim();
+    const parts = source.split(/^=== Page (\d+) ===$/m);
+    if (parts.length === 1) {
+      return [{ number: null, text: clean(source) }];
+    }
+    const pages: Array<{ number: number | null; text: string }> = [];
+    for (let index = 1; index < parts.length; index += 2) {
+      pages.push({ number: Number(parts[index]), text: clean(parts[index + 1] ?? '') });
+    }
+    return pages;
+  }
+
+  private tokenize(text: string): string[] {
+    return (text.replace(SOURCE_LABELS, ' ').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+      .filter(token => token.length >= 3 || /^\d+$/.test(token))
+      .map(token => (token.length > STEM_LENGTH ? token.slice(0, STEM_LENGTH) : token));
+  }
+
+  private trimPassage(text: string): string {
+    return text.length > MAX_PASSAGE_CHARS ? `${text.slice(0, MAX_PASSAGE_CHARS - 1).trimEnd()}…` : text;
+  }
+
+  private isCrossLanguage(source?: string | null, output?: string | null): boolean {
+    if (!source || !output) {
+      return false;
+    }
+    return source.split('-')[0].toLowerCase() !== output.split('-')[0].toLowerCase();
+  }
+
+  private buildReport(
+    status: GroundingReport['status'],
+    checkedItems: number,
+    unsupportedItems: number,
+    reason: string | null
+  ): GroundingReport {
+    return {
+      status,
+      method: 'lexical',
+      threshold: this.threshold,
+      checkedItems,
+      unsupportedItems,
+      reason,
+      checkedAt: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,275 @@
+import { createHash } from 'crypto';
+import { LlmChatResponse, LlmCompletionRequest, LlmMessage, LlmProvider } from './llm.types';
+
+const FAKE_MODEL = 'fake-llm';
+const DEFAULT_ITEM_COUNT = 5;
+const MAX_ITEM_COUNT = 60;
+const SOURCE_MARKERS = ['=== SOURCE MATERIAL ===', '=== FILE SUMMARIES ==='];
+
+/**
+ * Offline backend that answers every prompt with well-formed output built from
+ * the prompt's own source material. The same request always yields the same
+ * response, so it is safe to use in development and tests.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+
+  async complete(request: LlmCompletionRequest): Promise<LlmChatResponse> {
+    const prompt = this.extractPrompt(request.messages);
+    const sentences = this.extractSentences(prompt);
+    const seed = createHash('sha256').update(`${request.feature}|${prompt}`).digest('hex').slice(0, 8);
+
+    let content: string;
+    if (request.responseFormat !== 'json_object' && request.feature !== 'vision') {
+      content = sentences.slice(0, 8).map(sentence => `- ${sentence}`).join('\n');
+    } else {
+      content = JSON.stringify(this.buildJson(request, prompt, sentences, seed));
+    }
+
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+    return {
+      content,
+      model: FAKE_MODEL,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+    };
+  }
+
+  isRetryable(): boolean {
+    return false;
+  }
+
+  private buildJson(request: LlmCompletionRequest, prompt: string, sentences: string[], seed: string): unknown {
+    const count = this.requestedCount(prompt);
+    switch (request.feature) {
+      case 'summary': {
+        const summary = this.buildSummary(sentences, seed);
+        // Master summaries cite the tagged files they merge.
+        const tags = Array.from(new Set(prompt.match(/\[F\d+\]/g) ?? [])).map(tag => tag.slice(1, -1));
+        return tags.length
+          ? {
+              ...summary,
+              sections: tags.map((tag, index) => ({
+                heading: `Section ${index + 1}`,
+                content: this.pick(sentences, index),
+                sources: [tag]
+              }))
+            }
+          : summary;
+      }
+      case 'flashcards':
+        return { flashcards: this.buildFlashcards(sentences, count, seed, this.requestedCardTypes(prompt)) };
+      case 'quizzes':
+        return { questions: this.buildQuestions(sentences, count, seed, this.requestedQuestionTypes(prompt)) };
+      case 'glossary':
+        return { terms: this.buildGlossary(prompt, sentences, count, seed) };
+      case 'conceptMap':
+        return this.buildConceptMap(sentences, Math.min(count, 8));
+      case 'studyGuide':
+        return this.buildStudyGuide(sentences);
+      case 'combined':
+        return {
+          summary: this.buildSummary(sentences, seed),
+          flashcards: this.buildFlashcards(sentences, 20, seed),
+          quizzes: this.buildQuestions(sentences, 12, seed)
+        };
+      case 'vision': {
+        const labels = sentences.slice(0, 3).map(sentence => sentence.split(/\s+/).slice(0, 3).join(' '));
+        const relationships =
+          labels.length > 1 ? [{ from: labels[0], to: labels[1], label: 'relates to' }] : [];
+        return prompt.includes('"transcription"')
+          ? { transcription: sentences.slice(0, 5).join('\n'), labels, relationships }
+          : { labels, relationships };
+      }
+      default:
+        return {};
+    }
+  }
+
+  private buildSummary(sentences: string[], seed: string) {
+    const keyPoints = Array.from({ length: 10 }, (_, index) => ({
+      heading: `Key point ${index + 1}`,
+      detail: this.pick(sentences, index)
+    }));
+    const detailedWords: string[] = [];
+    for (let index = 0; detailedWords.length < 460; index += 1) {
+      detailedWords.push(...this.pick(sentences, index).split(/\s+/));
+    }
+    return {
+      title: `Study Summary ${seed}`,
+      summary: sentences.slice(0, 3).join(' ') || 'No source material provided.',
+      detailed_summary: detailedWords.join(' '),
+      key_points: keyPoints,
+      study_recommendations: Array.from({ length: 6 }, (_, index) => `Review: ${this.pick(sentences, index)}`),
+      confidence: 'medium'
+    };
+  }
+
+  private buildFlashcards(sentences: string[], count: number, seed: string, types = ['basic']) {
+    return Array.from({ length: count }, (_, index) => {
+      if (types[index % types.length] === 'cloze') {
+        const sentence = this.pick(sentences, index);
+        const terms = sentence.split(/\s+/).filter(word => /^[\p{L}\p{N}]{5,}$/u.test(word));
+        return {
+          type: 'cloze',
+          clozeText: `(${seed}-${index + 1}) ${sentence}`,
+          clozes: (terms.length ? terms.slice(0, 2) : [this.excerpt(sentence)]).map(answer => ({ answer })),
+          followUp: `How does this connect to: ${this.excerpt(this.pick(sentences, index + 1))}?`,
+          difficulty: ['intro', 'intermediate', 'advanced'][index % 3]
+        };
+      }
+      return {
+        type: 'basic',
+        prompt: `(${seed}-${index + 1}) What does the material say about: ${this.excerpt(this.pick(sentences, index))}?`,
+        answer: this.pick(sentences, index),
+        followUp: `How does this connect to: ${this.excerpt(this.pick(sentences, index + 1))}?`,
+        difficulty: ['intro', 'intermediate', 'advanced'][index % 3]
+      };
+    });
+  }
+
+  private buildGlossary(prompt: string, sentences: string[], count: number, seed: string) {
+    const pages = Array.from(prompt.matchAll(/^=== Page (\d+) ===$/gm), match => Number(match[1]));
+    const termAt = (index: number) =>
+      `${this.excerpt(this.pick(sentences, index)).split(' ').slice(0, 2).join(' ')} ${seed}-${(index % count) + 1}`;
+    return Array.from({ length: count }, (_, index) => ({
+      term: termAt(index),
+      definition: this.pick(sentences, index),
+      synonyms: [],
+      relatedTerms: count > 1 ? [termAt(index + 1)] : [],
+      firstMentionPage: pages.length ? pages[index % pages.length] : null
+    }));
+  }
+
+  private buildConceptMap(sentences: string[], count: number) {
+    const labels = Array.from(
+      new Set(sentences.map(sentence => this.excerpt(sentence).split(' ').slice(0, 3).join(' ')))
+    ).slice(0, count);
+    return {
+      nodes: labels.map((label, index) => ({ label, description: this.pick(sentences, index), pages: [] })),
+      edges: labels.slice(1).map((label, index) => ({
+        from: labels[index],
+        to: label,
+        relation: 'related_to',
+        label: 'leads to',
+        pages: []
+      }))
+    };
+  }
+
+  private buildStudyGuide(sentences: string[]) {
+    return {
+      title: 'Study guide',
+      sections: [0, 1, 2].map(section => ({
+        heading: `Topic ${section + 1}`,
+        entries: [0, 1, 2].map(index => {
+          const text = this.pick(sentences, section * 3 + index);
+          return { cue: this.excerpt(text), text };
+        })
+      })),
+      summary: this.pick(sentences, 0)
+    };
+  }
+
+  private requestedCardTypes(prompt: string): string[] {
+    if (prompt.includes('Every flashcard is a cloze card')) {
+      return ['cloze'];
+    }
+    return prompt.includes('Mix basic and cloze cards') ? ['basic', 'cloze'] : ['basic'];
+  }
+
+  private buildQuestions(sentences: string[], count: number, seed: string, types = ['multiple_choice']) {
+    return Array.from({ length: count }, (_, index) => {
+      const correct = this.pick(sentences, index);
+      const distractors = [1, 2, 3].map(offset => this.pick(sentences, index + offset));
+      const base = {
+        type: types[index % types.length],
+        question: `(${seed}-${index + 1}) Which statement matches the material on "${this.excerpt(correct)}"?`,
+        explanation: correct,
+        difficulty: ['easy', 'medium', 'hard'][index % 3],
+        topicTag: this.excerpt(correct)
+      };
+      switch (base.type) {
+        case 'true_false':
+          return { ...base, question: `(${seed}-${index + 1}) ${correct}`, correctAnswer: true };
+        case 'multi_select':
+          return { ...base, options: [correct, ...distractors], correctIndices: [0, 1] };
+        case 'fill_blank': {
+          const words = correct.split(/\s+/);
+          const answer = words.pop() ?? correct;
+          return {
+            ...base,
+            question: `(${seed}-${index + 1}) ${words.join(' ')} ____`,
+            acceptedAnswers: [answer.replace(/[.!?]+$/, '')]
+          };
+        }
+        case 'matching':
+          return {
+            ...base,
+            pairs: [correct, ...distractors.slice(0, 2)].map(sentence => ({
+              left: this.excerpt(sentence),
+              right: sentence
+            }))
+          };
+        case 'short_answer':
+          return { ...base, sampleAnswer: correct, keyPoints: [this.excerpt(correct)] };
+        default: {
+          const correctIndex = index % 4;
+          const options = distractors.slice();
+          options.splice(correctIndex, 0, correct);
+          return { ...base, options, correctIndex };
+        }
+      }
+    });
+  }
+
+  private requestedQuestionTypes(prompt: string): string[] {
+    const line = prompt.match(/Allowed question types: (.+)/);
+    const types = line ? Array.from(line[1].matchAll(/"([a-z_]+)"/g), match => match[1]) : [];
+    return types.length ? types : ['multiple_choice'];
+  }
+
+  private requestedCount(prompt: string): number {
+    const missing = prompt.match(/need (\d+) more/i);
+    const minimums = Array.from(prompt.matchAll(/(?:at least|exactly) (\d+)/gi), match => Number(match[1]));
+    const count = missing ? Number(missing[1]) : minimums.length ? Math.max(...minimums) : DEFAULT_ITEM_COUNT;
+    return Math.min(MAX_ITEM_COUNT, Math.max(1, count));
+  }
+
+  private extractPrompt(messages: LlmMessage[]): string {
+    const user = [...messages].reverse().find(message => message.role === 'user');
+    if (!user?.content) {
+      return '';
+    }
+    if (typeof user.content === 'string') {
+      return user.content;
+    }
+    return user.content
+      .map(part => (part.type === 'text' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private extractSentences(prompt: string): string[] {
+    const marker = SOURCE_MARKERS.map(label => ({ label, index: prompt.lastIndexOf(label) }))
+      .filter(entry => entry.index >= 0)
+      .sort((a, b) => b.index - a.index)[0];
+    const source = marker ? prompt.slice(marker.index + marker.label.length) : prompt;
+    const sentences = source
+      .split('\n')
+      .filter(line => !line.startsWith('===') && !/^-{2,}.*-{2,}$/.test(line.trim()))
+      .join(' ')
+      .split(/(?<=[.!?])\s+/)
+      .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+      .filter(sentence => sentence.length >= 12);
+    return sentences.length ? sentences : ['The source material did not contain enough text to summarize.'];
+  }
+
+  private pick(sentences: string[], index: number): string {
+    return sentences[index % sentences.length];
+  }
+
+  private excerpt(sentence: string): string {
+    return sentence.split(/\s+/).slice(0, 6).join(' ').replace(/[.!?,;:]+$/, '');
+  }
+}
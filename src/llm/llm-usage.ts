@@ -0,0 +1,87 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { LlmFeature } from './llm.types';
+
+/** One completion attempt. Failed attempts are recorded too, with the tokens the provider reported (usually none). */
+export interface LlmCallRecord {
+  feature: LlmFeature;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+  succeeded: boolean;
+  attempt: number;
+  durationMs: number;
+  at: Date;
+}
+
+/** USD per million tokens. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'o4-mini': { input: 1.1, output: 4.4 }
+};
+
+/**
+ * Finds the price of a model, matching dated snapshots (`gpt-4o-mini-2024-07-18`)
+ * by their longest known prefix. Unknown models (local servers, the fake
+ * provider) cost nothing.
+ */
+export function resolveModelPricing(model: string, pricing: Record<string, ModelPricing>): ModelPricing | null {
+  const name = model.toLowerCase();
+  const match = Object.keys(pricing)
+    .filter(key => name === key.toLowerCase() || name.startsWith(`${key.toLowerCase()}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? pricing[match] : null;
+}
+
+export function estimateCostUsd(pricing: ModelPricing | null, promptTokens: number, completionTokens: number): number {
+  if (!pricing) {
+    return 0;
+  }
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return { calls: 0, failedCalls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCostUsd: 0 };
+}
+
+export function addUsage(totals: UsageTotals, usage: UsageTotals | LlmCallRecord): UsageTotals {
+  const isRecord = 'succeeded' in usage;
+  totals.calls += isRecord ? 1 : usage.calls;
+  totals.failedCalls += isRecord ? (usage.succeeded ? 0 : 1) : usage.failedCalls;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.totalTokens += usage.totalTokens;
+  totals.estimatedCostUsd += usage.estimatedCostUsd;
+  return totals;
+}
+
+const usageCollectors = new AsyncLocalStorage<LlmCallRecord[]>();
+
+/** Runs `fn` and collects every LLM call it makes, including calls made by concurrent branches inside it. */
+export function runWithLlmUsage<T>(records: LlmCallRecord[], fn: () => Promise<T>): Promise<T> {
+  return usageCollectors.run(records, fn);
+}
+
+export function currentLlmUsageCollector(): LlmCallRecord[] | undefined {
+  return usageCollectors.getStore();
+}
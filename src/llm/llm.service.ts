@@ -0,0 +1,184 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FakeLlmProvider } from './fake-llm.provider';
+import {
+  currentLlmUsageCollector,
+  DEFAULT_MODEL_PRICING,
+  estimateCostUsd,
+  ModelPricing,
+  resolveModelPricing
+} from './llm-usage';
+import { LlmChatRequest, LlmChatResponse, LlmFeature, LlmProvider, LlmUsage } from './llm.types';
+import { OpenAiLlmProvider } from './openai-llm.provider';
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+const FEATURE_MODEL_KEYS: Record<LlmFeature, string> = {
+  summary: 'LLM_MODEL_SUMMARY',
+  flashcards: 'LLM_MODEL_FLASHCARDS',
+  quizzes: 'LLM_MODEL_QUIZZES',
+  glossary: 'LLM_MODEL_GLOSSARY',
+  conceptMap: 'LLM_MODEL_CONCEPT_MAP',
+  studyGuide: 'LLM_MODEL_STUDY_GUIDE',
+  combined: 'LLM_MODEL_COMBINED',
+  vision: 'LLM_MODEL_VISION'
+};
+
+@Injectable()
+export class LlmService {
+  private readonly logger = new Logger(LlmService.name);
+  private readonly provider: LlmProvider | null;
+  private readonly defaultModel: string;
+  private readonly models: Record<LlmFeature, string>;
+  private readonly maxRetries: number;
+  private readonly retryBaseMs: number;
+  private readonly timeoutMs: number;
+  private readonly pricing: Record<string, ModelPricing>;
+
+  constructor(private readonly config: ConfigService) {
+    this.defaultModel =
+      this.config.get<string>('LLM_MODEL') ?? this.config.get<string>('OPENAI_MODEL') ?? DEFAULT_MODEL;
+    this.models = Object.fromEntries(
+      (Object.keys(FEATURE_MODEL_KEYS) as LlmFeature[]).map(feature => [
+        feature,
+        this.config.get<string>(FEATURE_MODEL_KEYS[feature]) ?? this.defaultModel
+      ])
+    ) as Record<LlmFeature, string>;
+    this.maxRetries = Math.max(0, this.readNumber('LLM_MAX_RETRIES', 2));
+    this.retryBaseMs = Math.max(0, this.readNumber('LLM_RETRY_BASE_MS', 1000));
+    this.timeoutMs = this.readNumber('LLM_TIMEOUT_MS', 120000);
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...this.readPricingOverrides() };
+    this.provider = this.createProvider();
+  }
+
+  get providerName(): string {
+    return this.provider?.name ?? 'none';
+  }
+
+  isAvailable(): boolean {
+    return this.provider !== null;
+  }
+
+  modelFor(feature: LlmFeature): string {
+    return this.provider instanceof FakeLlmProvider ? 'fake-llm' : this.models[feature];
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('No LLM provider is configured.');
+    }
+
+    const model = this.models[request.feature];
+    const timeoutMs = request.timeoutMs ?? this.timeoutMs;
+    for (let attempt = 0; ; attempt += 1) {
+      const startedAt = Date.now();
+      try {
+        const response = await provider.complete({ ...request, model, timeoutMs });
+        const tokens = response.usage ? `${response.usage.totalTokens} tokens` : 'usage unknown';
+        this.logger.log(
+          `${request.feature} completion via ${provider.name}/${response.model} in ${Date.now() - startedAt}ms (${tokens})`
+        );
+        this.recordUsage(request.feature, provider.name, response.model || model, response.usage, true, attempt, startedAt);
+        return response;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.recordUsage(request.feature, provider.name, model, null, false, attempt, startedAt);
+        if (attempt >= this.maxRetries || !provider.isRetryable(error)) {
+          this.logger.error(
+            `${request.feature} completion via ${provider.name}/${model} failed after ${attempt + 1} attempt(s): ${message}`
+          );
+          throw error;
+        }
+        const delayMs = this.retryBaseMs * 2 ** attempt;
+        this.logger.warn(
+          `${request.feature} completion via ${provider.name}/${model} failed (${message}). Retrying in ${delayMs}ms.`
+        );
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  /** Adds the call to the usage collector of the surrounding job or request, if there is one. */
+  private recordUsage(
+    feature: LlmFeature,
+    providerName: string,
+    model: string,
+    usage: LlmUsage | null,
+    succeeded: boolean,
+    attempt: number,
+    startedAt: number
+  ): void {
+    const collector = currentLlmUsageCollector();
+    if (!collector) {
+      return;
+    }
+    const promptTokens = usage?.promptTokens ?? 0;
+    const completionTokens = usage?.completionTokens ?? 0;
+    collector.push({
+      feature,
+      provider: providerName,
+      model,
+      promptTokens,
+      completionTokens,
+      totalTokens: usage?.totalTokens ?? promptTokens + completionTokens,
+      estimatedCostUsd: estimateCostUsd(resolveModelPricing(model, this.pricing), promptTokens, completionTokens),
+      succeeded,
+      attempt: attempt + 1,
+      durationMs: Date.now() - startedAt,
+      at: new Date()
+    });
+  }
+
+  private readPricingOverrides(): Record<string, ModelPricing> {
+    const raw = this.config.get<string>('LLM_PRICING');
+    if (!raw) {
+      return {};
+    }
+    try {
+      const parsed = JSON.parse(raw) as Record<string, Partial<ModelPricing>>;
+      return Object.fromEntries(
+        Object.entries(parsed)
+          .filter(([, price]) => Number.isFinite(price?.input) && Number.isFinite(price?.output))
+          .map(([model, price]) => [model, { input: Number(price.input), output: Number(price.output) }])
+      );
+    } catch {
+      this.logger.warn('LLM_PRICING is not valid JSON. Using the built-in prices.');
+      return {};
+    }
+  }
+
+  private createProvider(): LlmProvider | null {
+    const kind = (this.config.get<string>('LLM_PROVIDER') ?? 'openai').trim().toLowerCase();
+    const baseURL = this.config.get<string>('LLM_BASE_URL');
+
+    switch (kind) {
+      case 'fake':
+        return new FakeLlmProvider();
+      case 'openai-compatible': {
+        if (!baseURL) {
+          this.logger.warn('LLM_BASE_URL is missing for the openai-compatible provider. LLM features are disabled.');
+          return null;
+        }
+        // Local servers usually ignore the key, but the client requires one.
+        const apiKey = this.config.get<string>('LLM_API_KEY') ?? 'not-needed';
+        return new OpenAiLlmProvider('openai-compatible', { apiKey, baseURL });
+      }
+      case 'openai': {
+        const apiKey = this.config.get<string>('LLM_API_KEY') ?? this.config.get<string>('OPENAI_API_KEY');
+        if (!apiKey) {
+          this.logger.warn('OpenAI API key missing. LLM features are disabled.');
+          return null;
+        }
+        return new OpenAiLlmProvider('openai', { apiKey, baseURL });
+      }
+      default:
+        throw new Error(`Unknown LLM_PROVIDER "${kind}". Expected openai, openai-compatible or fake.`);
+    }
+  }
+
+  private readNumber(key: string, fallback: number): number {
+    const value = Number(this.config.get<string>(key));
+    return Number.isFinite(value) ? value : fallback;
+  }
+}
@@ -0,0 +1,41 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+
+export type LlmFeature = 'summary' | 'flashcards' | 'quizzes' | 'glossary' | 'conceptMap' | 'studyGuide' | 'combined' | 'vision';
+
+export type LlmResponseFormat = 'json_object' | 'text';
+
+export type LlmMessage = ChatCompletionMessageParam;
+
+export interface LlmChatRequest {
+  feature: LlmFeature;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: LlmResponseFormat;
+  /** Overrides LLM_TIMEOUT_MS for this request. */
+  timeoutMs?: number;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmChatResponse {
+  content: string;
+  model: string;
+  usage: LlmUsage | null;
+}
+
+export interface LlmCompletionRequest extends Omit<LlmChatRequest, 'timeoutMs'> {
+  model: string;
+  timeoutMs: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmCompletionRequest): Promise<LlmChatResponse>;
+  /** Whether a failed call is worth retrying (rate limits, 5xx, timeouts). */
+  isRetryable(error: unknown): boolean;
+}
@@ -0,0 +1,54 @@
+import OpenAI from 'openai';
+import { LlmChatResponse, LlmCompletionRequest, LlmProvider } from './llm.types';
+
+/**
+ * Talks to OpenAI or to any server exposing the same chat completions API
+ * (Ollama, vLLM, LM Studio) when a base URL is given.
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  private readonly client: OpenAI;
+
+  constructor(
+    readonly name: string,
+    options: { apiKey: string; baseURL?: string }
+  ) {
+    // Retries are handled by LlmService so every backend shares one policy.
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, maxRetries: 0 });
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmChatResponse> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: request.model,
+        messages: request.messages,
+        response_format: request.responseFormat ? { type: request.responseFormat } : undefined,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens
+      },
+      { timeout: request.timeoutMs }
+    );
+
+    return {
+      content: response.choices[0]?.message?.content?.trim() ?? '',
+      model: response.model ?? request.model,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens
+          }
+        : null
+    };
+  }
+
+  isRetryable(error: unknown): boolean {
+    if (error instanceof OpenAI.APIConnectionError) {
+      return true;
+    }
+    if (error instanceof OpenAI.APIError) {
+      const status = error.status ?? 0;
+      return status === 408 || status === 409 || status === 429 || status >= 500;
+    }
+    return false;
+  }
+}
@@ -43,6 +43,7 @@ async function bootstrap() {
       },
       'bearer'
     )
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'x-admin-key' }, 'admin-key')
     .build();
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('docs', app, document, {
@@ -0,0 +1,145 @@
+import { allocateByWeight, allocateDifficulty, DifficultyMix, QUIZ_DIFFICULTIES } from '../ai/generation-options';
+import { QuizQuestion } from './quiz-questions';
+
+export const PRACTICE_EXAM_WEIGHT_BY = ['file', 'topic'] as const;
+export type PracticeExamWeightBy = (typeof PRACTICE_EXAM_WEIGHT_BY)[number];
+export type QuizDifficulty = (typeof QUIZ_DIFFICULTIES)[number];
+
+export interface PracticeExamBlueprint {
+  questionCount: number;
+  weightBy: PracticeExamWeightBy;
+  /** Relative weight per fileId or topicTag, depending on weightBy. */
+  weights: Record<string, number>;
+  difficulty: DifficultyMix<QuizDifficulty> | null;
+  /** null for an untimed exam. */
+  timeLimitMinutes: number | null;
+}
+
+export interface PoolQuestion {
+  fileId: string;
+  fileName: string;
+  /** Position in the file's quiz; null for questions generated for the exam. */
+  sourceIndex: number | null;
+  question: QuizQuestion;
+}
+
+export interface PracticeExamQuestion extends PoolQuestion {
+  number: number;
+  origin: 'quiz' | 'generated';
+}
+
+/** Questions still needed for one bucket (a file or a topic) after the pool is used up, per difficulty. */
+export interface ExamGap {
+  key: string;
+  missing: Array<{ level: QuizDifficulty | null; count: number }>;
+}
+
+export interface ExamPlan {
+  picked: PoolQuestion[];
+  gaps: ExamGap[];
+}
+
+/**
+ * Splits the question count across the blueprint's buckets and each bucket's
+ * share across difficulty levels, then fills every slot with an unused pool
+ * question of that bucket and difficulty. Slots the pool cannot fill become gaps.
+ */
+export function planPracticeExam(pool: PoolQuestion[], blueprint: PracticeExamBlueprint): ExamPlan {
+  const buckets = allocateByWeight(blueprint.questionCount, blueprint.weights) ?? [];
+  const available = shuffle(pool.slice());
+  const picked: PoolQuestion[] = [];
+  const gaps: ExamGap[] = [];
+
+  for (const { key, count: bucketCount } of buckets) {
+    const levels: Array<{ level: QuizDifficulty | null; count: number }> = allocateDifficulty(
+      bucketCount,
+      blueprint.difficulty ?? undefined
+    ) ?? [{ level: null, count: bucketCount }];
+    const missing: ExamGap['missing'] = [];
+
+    for (const { level, count } of levels) {
+      const taken = takeQuestions(
+        available,
+        count,
+        entry =>
+          inBucket(entry, key, blueprint.weightBy) && (level === null || difficultyOf(entry.question) === level)
+      );
+      picked.push(...taken);
+      if (taken.length < count) {
+        missing.push({ level, count: count - taken.length });
+      }
+    }
+    if (missing.length) {
+      gaps.push({ key, missing });
+    }
+  }
+
+  return { picked, gaps };
+}
+
+/**
+ * Fills what generation could not with unused pool questions: first from the
+ * same bucket at any difficulty, then from anywhere in the study set.
+ */
+export function fillGapsFromPool(
+  pool: PoolQuestion[],
+  used: PoolQuestion[],
+  gaps: ExamGap[],
+  weightBy: PracticeExamWeightBy
+): PoolQuestion[] {
+  const usedSet = new Set(used);
+  const available = shuffle(pool.filter(entry => !usedSet.has(entry)));
+  const filled: PoolQuestion[] = [];
+  for (const gap of gaps) {
+    const count = gap.missing.reduce((sum, entry) => sum + entry.count, 0);
+    filled.push(...takeQuestions(available, count, entry => inBucket(entry, gap.key, weightBy)));
+  }
+  const remaining = gaps.reduce((sum, gap) => sum + gap.missing.reduce((total, entry) => total + entry.count, 0), 0);
+  filled.push(...available.splice(0, Math.max(0, remaining - filled.length)));
+  return filled;
+}
+
+/** Orders the exam questions randomly and numbers them from 1. */
+export function assembleExam(questions: PoolQuestion[]): PracticeExamQuestion[] {
+  return shuffle(questions.slice()).map((entry, index) => ({
+    ...entry,
+    number: index + 1,
+    origin: entry.sourceIndex === null ? 'generated' : 'quiz'
+  }));
+}
+
+export function topicKey(topic: string | undefined | null): string {
+  return (topic ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function inBucket(entry: PoolQuestion, key: string, weightBy: PracticeExamWeightBy): boolean {
+  return weightBy === 'file' ? entry.fileId === key : topicKey(entry.question.topicTag) === key;
+}
+
+function difficultyOf(question: QuizQuestion): string {
+  return String(question.difficulty ?? '').toLowerCase();
+}
+
+function takeQuestions(
+  available: PoolQuestion[],
+  count: number,
+  matches: (entry: PoolQuestion) => boolean
+): PoolQuestion[] {
+  const taken: PoolQuestion[] = [];
+  for (let index = 0; index < available.length && taken.length < count; ) {
+    if (matches(available[index])) {
+      taken.push(...available.splice(index, 1));
+    } else {
+      index += 1;
+    }
+  }
+  return taken;
+}
+
+function shuffle<T>(items: T[]): T[] {
+  for (let index = items.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(Math.random() * (index + 1));
+    [items[index], items[swap]] = [items[swap], items[index]];
+  }
+  return items;
+}
@@ -0,0 +1,220 @@
+import { ItemRevision } from '../ai/revision-history';
+import type { ItemGrounding } from '../grounding/grounding.service';
+import { asJsonArray, asJsonObject } from '../ai/llm-json';
+import { PageCitation, parseCitedPages } from '../ai/page-citations';
+
+export const QUIZ_QUESTION_TYPES = [
+  'multiple_choice',
+  'true_false',
+  'multi_select',
+  'fill_blank',
+  'matching',
+  'short_answer'
+] as const;
+
+export type QuizQuestionType = (typeof QUIZ_QUESTION_TYPES)[number];
+
+export const DEFAULT_QUIZ_QUESTION_TYPES: QuizQuestionType[] = ['multiple_choice'];
+
+interface QuizQuestionBase {
+  type: QuizQuestionType;
+  question: string;
+  explanation: string;
+  difficulty: 'easy' | 'medium' | 'hard' | string;
+  topicTag?: string;
+  history?: ItemRevision[];
+  grounding?: ItemGrounding;
+  sourcePages?: PageCitation[];
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple_choice';
+  options: string[];
+  correctIndex: number;
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'true_false';
+  correctAnswer: boolean;
+}
+
+export interface MultiSelectQuestion extends QuizQuestionBase {
+  type: 'multi_select';
+  options: string[];
+  correctIndices: number[];
+}
+
+export interface FillBlankQuestion extends QuizQuestionBase {
+  type: 'fill_blank';
+  /** Question text with one `____` blank. */
+  question: string;
+  acceptedAnswers: string[];
+}
+
+export interface MatchingQuestion extends QuizQuestionBase {
+  type: 'matching';
+  pairs: Array<{ left: string; right: string }>;
+}
+
+export interface ShortAnswerQuestion extends QuizQuestionBase {
+  type: 'short_answer';
+  sampleAnswer: string;
+  /** Points a complete answer must mention; used as the grading key. */
+  keyPoints: string[];
+}
+
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | MultiSelectQuestion
+  | FillBlankQuestion
+  | MatchingQuestion
+  | ShortAnswerQuestion;
+
+const BLANK = '____';
+
+/** Question text of the placeholder older quiz results stored when a response could not be parsed. */
+const PARSE_ERROR_QUESTION = 'Unable to parse quiz response.';
+
+export function isQuizQuestionType(value: unknown): value is QuizQuestionType {
+  return typeof value === 'string' && (QUIZ_QUESTION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validates one generated or stored question and fills in its type. Questions
+ * stored before typed variants existed are single-answer multiple choice.
+ * Returns null when the answer key is missing or inconsistent, and for the
+ * parse-error placeholder older results may contain.
+ */
+export function normalizeQuizQuestion(raw: unknown): QuizQuestion | null {
+  const item = asJsonObject(raw);
+  if (!item) {
+    return null;
+  }
+
+  const question = typeof item.question === 'string' ? item.question.trim() : '';
+  if (!question || question === PARSE_ERROR_QUESTION) {
+    return null;
+  }
+
+  const base = {
+    question,
+    explanation: typeof item.explanation === 'string' ? item.explanation : '',
+    difficulty: typeof item.difficulty === 'string' ? item.difficulty : 'medium',
+    ...(typeof item.topicTag === 'string' && item.topicTag ? { topicTag: item.topicTag } : {}),
+    ...(Array.isArray(item.history) && item.history.length ? { history: item.history as ItemRevision[] } : {}),
+    ...(item.sourcePages ? { sourcePages: parseCitedPages(item.sourcePages) } : {})
+  };
+  const options = toStringList(item.options);
+
+  switch (resolveType(item)) {
+    case 'multiple_choice': {
+      const correctIndex = Number(item.correctIndex);
+      if (options.length < 2 || !Number.isInteger(correctIndex) || !options[correctIndex]) {
+        return null;
+      }
+      return { ...base, type: 'multiple_choice', options, correctIndex };
+    }
+    case 'true_false': {
+      const correctAnswer = toBoolean(item.correctAnswer);
+      return correctAnswer === null ? null : { ...base, type: 'true_false', correctAnswer };
+    }
+    case 'multi_select': {
+      const correctIndices = Array.from(
+        new Set(asJsonArray(item.correctIndices).map(Number))
+      )
+        .filter(index => Number.isInteger(index) && index >= 0 && index < options.length)
+        .sort((a, b) => a - b);
+      if (options.length < 3 || !correctIndices.length) {
+        return null;
+      }
+      return { ...base, type: 'multi_select', options, correctIndices };
+    }
+    case 'fill_blank': {
+      const acceptedAnswers = toStringList(item.acceptedAnswers ?? item.answer);
+      if (!acceptedAnswers.length) {
+        return null;
+      }
+      const withBlank = /_{3,}/.test(question) ? question.replace(/_{3,}/, BLANK) : `${question} ${BLANK}`;
+      return { ...base, type: 'fill_blank', question: withBlank, acceptedAnswers };
+    }
+    case 'matching': {
+      const pairs = asJsonArray(item.pairs)
+        .map((entry: unknown) => {
+          const pair = asJsonObject(entry);
+          return {
+            left: typeof pair?.left === 'string' ? pair.left.trim() : '',
+            right: typeof pair?.right === 'string' ? pair.right.trim() : ''
+          };
+        })
+        .filter(pair => pair.left && pair.right);
+      return pairs.length >= 2 ? { ...base, type: 'matching', pairs } : null;
+    }
+    case 'short_answer': {
+      const sampleAnswer = typeof item.sampleAnswer === 'string' ? item.sampleAnswer.trim() : '';
+      if (!sampleAnswer) {
+        return null;
+      }
+      return { ...base, type: 'short_answer', sampleAnswer, keyPoints: toStringList(item.keyPoints) };
+    }
+    default:
+      return null;
+  }
+}
+
+/** Adds `type` to questions in a stored quiz result so older results match the typed API. */
+export function normalizeQuizResult(result: unknown): unknown {
+  if (!result || typeof result !== 'object' || !Array.isArray((result as { questions?: unknown }).questions)) {
+    return result;
+  }
+  const questions = (result as { questions: unknown[] }).questions
+    .map(question => normalizeQuizQuestion(question))
+    .filter((question): question is QuizQuestion => question !== null);
+  return { ...result, questions };
+}
+
+function resolveType(item: Record<string, unknown>): QuizQuestionType | null {
+  if (item.type !== undefined) {
+    return isQuizQuestionType(item.type) ? item.type : null;
+  }
+  if (Array.isArray(item.correctIndices)) {
+    return 'multi_select';
+  }
+  if (Array.isArray(item.pairs)) {
+    return 'matching';
+  }
+  if (item.acceptedAnswers !== undefined) {
+    return 'fill_blank';
+  }
+  if (item.sampleAnswer !== undefined) {
+    return 'short_answer';
+  }
+  if (item.correctAnswer !== undefined && item.options === undefined) {
+    return 'true_false';
+  }
+  return 'multiple_choice';
+}
+
+function toStringList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  return list
+    .filter(entry => typeof entry === 'string' || typeof entry === 'number')
+    .map(entry => String(entry).trim())
+    .filter(Boolean);
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true') {
+      return true;
+    }
+    if (normalized === 'false') {
+      return false;
+    }
+  }
+  return null;
+}
@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common';
 import { QuizzesService } from './quizzes.service';
+import { LlmModule } from '../llm/llm.module';
 
 @Module({
+  imports: [LlmModule],
   providers: [QuizzesService],
   exports: [QuizzesService]
 })
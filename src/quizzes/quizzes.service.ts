@@ -1,14 +1,22 @@
 import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
-import OpenAI from 'openai';
-
-export interface QuizQuestion {
-  question: string;
-  options: string[];
-  correctIndex: number;
-  explanation: string;
-  difficulty: 'easy' | 'medium' | 'hard' | string;
-  topicTag?: string;
-}
+import { buildLanguageInstruction, OutputLanguage } from '../ai/output-language';
+import { buildSourcePagesInstruction } from '../ai/page-citations';
+import { buildPageChunks, chunkItemShare, mergeChunkItems, PageChunk, readPageChunkSize } from '../ai/page-chunks';
+import {
+  buildDifficultyInstruction,
+  buildTopicFocusInstruction,
+  QuizGenerationOptions,
+  selectByDifficulty
+} from '../ai/generation-options';
+import { LlmService } from '../llm/llm.service';
+import {
+  DEFAULT_QUIZ_QUESTION_TYPES,
+  normalizeQuizQuestion,
+  QuizQuestion,
+  QuizQuestionType
+} from './quiz-questions';
+
+export type { QuizQuestion, QuizQuestionType } from './quiz-questions';
 
 export interface GeneratedQuizResponse {
   model: string;
@@ -17,101 +25,293 @@ export interface GeneratedQuizResponse {
   rawResponse: unknown;
 }
 
+/** Pages per generation call for long documents; small enough that 3 questions a page fit the response. */
+const DEFAULT_PAGE_CHUNK_SIZE = 10;
+
+const QUESTION_TYPE_GUIDES: Record<QuizQuestionType, { label: string; fields: string[]; example: object }> = {
+  multiple_choice: {
+    label: 'single-answer multiple choice',
+    fields: ['- options (array of 4 unique strings): All plausible and distinct', '- correctIndex (0-3): Zero-based index of the correct option'],
+    example: {
+      type: 'multiple_choice',
+      question: 'What is the primary product of photosynthesis?',
+      options: ['Carbon dioxide', 'Glucose', 'Water', 'Nitrogen'],
+      correctIndex: 1,
+      explanation: 'Photosynthesis converts CO2 and water into glucose (C6H12O6) using light energy.',
+      difficulty: 'easy',
+      topicTag: 'Photosynthesis Basics'
+    }
+  },
+  true_false: {
+    label: 'true/false',
+    fields: ['- correctAnswer (boolean): Whether the statement in "question" is true'],
+    example: {
+      type: 'true_false',
+      question: 'The Calvin cycle takes place in the thylakoid membrane.',
+      correctAnswer: false,
+      explanation: 'The Calvin cycle runs in the stroma; the light-dependent reactions use the thylakoid membrane.',
+      difficulty: 'medium',
+      topicTag: 'Photosynthesis Stages'
+    }
+  },
+  multi_select: {
+    label: 'multi-select (more than one correct option)',
+    fields: ['- options (array of 4-6 unique strings)', '- correctIndices (array of zero-based indexes): Every correct option, at least two'],
+    example: {
+      type: 'multi_select',
+      question: 'Which of these are inputs to photosynthesis? Select all that apply.',
+      options: ['Water', 'Oxygen', 'Carbon dioxide', 'Light energy', 'Glucose'],
+      correctIndices: [0, 2, 3],
+      explanation: 'Plants use water, carbon dioxide and light energy; oxygen and glucose are products.',
+      difficulty: 'medium',
+      topicTag: 'Photosynthesis Inputs'
+    }
+  },
+  fill_blank: {
+    label: 'fill-in-the-blank',
+    fields: ['- question (string): A sentence containing exactly one "____" blank', '- acceptedAnswers (array of strings): The answer plus accepted variants or synonyms'],
+    example: {
+      type: 'fill_blank',
+      question: 'The green pigment that absorbs light in plants is called ____.',
+      acceptedAnswers: ['chlorophyll', 'chlorophyll a'],
+      explanation: 'Chlorophyll absorbs mainly red and blue light to power photosynthesis.',
+      difficulty: 'easy',
+      topicTag: 'Pigments'
+    }
+  },
+  matching: {
+    label: 'matching',
+    fields: ['- question (string): Instruction describing what to match', '- pairs (array of 3-6 { "left": string, "right": string }): Each left item with its correct match'],
+    example: {
+      type: 'matching',
+      question: 'Match each stage with where it happens.',
+      pairs: [
+        { left: 'Light-dependent reactions', right: 'Thylakoid membrane' },
+        { left: 'Calvin cycle', right: 'Stroma' },
+        { left: 'Glycolysis', right: 'Cytoplasm' }
+      ],
+      explanation: 'Each stage runs in a specific compartment of the cell.',
+      difficulty: 'medium',
+      topicTag: 'Cell Compartments'
+    }
+  },
+  short_answer: {
+    label: 'short answer',
+    fields: ['- sampleAnswer (string): A model answer in 1-3 sentences', '- keyPoints (array of strings): The points a complete answer must mention'],
+    example: {
+      type: 'short_answer',
+      question: 'Explain why photosynthesis slows down when CO2 levels drop.',
+      sampleAnswer: 'CO2 is the carbon source fixed in the Calvin cycle, so less CO2 limits how much sugar can be made.',
+      keyPoints: ['CO2 is fixed in the Calvin cycle', 'CO2 becomes a limiting factor'],
+      explanation: 'The rate is limited by whichever input is scarcest.',
+      difficulty: 'hard',
+      topicTag: 'Limiting Factors'
+    }
+  }
+};
+
 @Injectable()
 export class QuizzesService {
   private readonly logger = new Logger(QuizzesService.name);
-  private readonly openai: OpenAI;
-  private readonly model = process.env.OPENAI_MODEL ?? 'gpt-4o-mini';
-  private readonly promptVersion = 'v3-quizzes';
+  readonly promptVersion = 'v4-typed-quizzes';
+  readonly pageChunkSize: number;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
+  constructor(private readonly llm: LlmService) {
+    this.pageChunkSize = readPageChunkSize('QUIZ_PAGE_CHUNK_SIZE', DEFAULT_PAGE_CHUNK_SIZE);
   }
 
-  async generateQuiz(content: string, topic?: string): Promise<GeneratedQuizResponse> {
+  async generateQuiz(
+    content: string,
+    topic?: string,
+    language?: OutputLanguage,
+    questionTypes: QuizQuestionType[] = DEFAULT_QUIZ_QUESTION_TYPES,
+    options: QuizGenerationOptions = {}
+  ): Promise<GeneratedQuizResponse> {
     const trimmedContent = content.trim();
     if (!trimmedContent) {
       throw new InternalServerErrorException('Cannot generate quizzes from empty content.');
     }
 
-    const prompt = this.buildPrompt(trimmedContent, topic);
-    const systemPrompt = 'You are a JSON-only assistant. You respond ONLY with valid JSON arrays. Never include explanatory text, markdown, or any other content outside the JSON structure.';
-    const minQuestions = this.minQuestionsForContent(trimmedContent);
+    const types = questionTypes.length ? Array.from(new Set(questionTypes)) : DEFAULT_QUIZ_QUESTION_TYPES;
+    try {
+      const chunks = buildPageChunks(trimmedContent, this.pageChunkSize);
+      const { model, questions, rawResponse } = chunks
+        ? await this.generateFromChunks(chunks, topic, types, options, language)
+        : await this.generateFromContent(trimmedContent, topic, types, options, language);
+
+      return {
+        model,
+        promptVersion: this.promptVersion,
+        questions,
+        rawResponse
+      };
+    } catch (error) {
+      this.logger.error('LLM request failed:', error);
+      throw new InternalServerErrorException('Unable to generate quizzes at the moment.');
+    }
+  }
+
+  /** Writes a replacement for one question from the same source, keeping the question's type. */
+  async regenerateQuestion(
+    content: string,
+    question: QuizQuestion,
+    note?: string | null,
+    language?: OutputLanguage
+  ): Promise<{ model: string; question: QuizQuestion }> {
+    const { history: _history, ...current } = question;
+    const prompt = [
+      '=== STRICT JSON OUTPUT MODE ===',
+      'You MUST output ONLY a valid JSON object of the form { "questions": [ ... ] }. NO other text is allowed.',
+      '',
+      'TASK: A student flagged one quiz question as wrong or unclear. Return exactly 1 replacement question.',
+      '- Test the same concept unless the source material shows the concept itself was wrong.',
+      '- The answer key and explanation must come from the source material.',
+      '',
+      '=== FLAGGED QUESTION ===',
+      JSON.stringify(current, null, 2),
+      note?.trim() ? `Student's note on what is wrong: ${note.trim()}` : 'The student did not say what is wrong.',
+      '',
+      ...this.buildStructureLines([question.type]),
+      '',
+      buildSourcePagesInstruction(content, 'question'),
+      buildLanguageInstruction(language),
+      '',
+      '=== SOURCE MATERIAL ===',
+      content,
+      '',
+      '=== OUTPUT JSON ONLY ==='
+    ]
+      .filter(Boolean)
+      .join('\n');
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
+      const response = await this.llm.chat({
+        feature: 'quizzes',
         messages: [
-          { role: 'system', content: systemPrompt },
+          { role: 'system', content: 'You are a JSON-only assistant.' },
           { role: 'user', content: prompt }
         ],
-        response_format: { type: 'json_object' },
-        temperature: 0.7,
-        max_tokens: 5000
+        responseFormat: 'json_object',
+        temperature: 0.5,
+        maxTokens: 1000
       });
-
-      const llmText = response.choices[0]?.message?.content?.trim();
-      if (!llmText) {
-        this.logger.error('Received empty response from OpenAI.');
-        throw new InternalServerErrorException('LLM returned an empty quiz response.');
+      const [replacement] = this.parseQuestions(response.content, [question.type]);
+      if (!replacement) {
+        throw new Error('LLM did not return a usable question.');
       }
+      return { model: response.model, question: replacement };
+    } catch (error) {
+      this.logger.error('Quiz question regeneration failed:', error);
+      throw new InternalServerErrorException('Unable to regenerate the question at the moment.');
+    }
+  }
+
+  private async generateFromContent(
+    content: string,
+    topic: string | undefined,
+    types: QuizQuestionType[],
+    options: QuizGenerationOptions,
+    language?: OutputLanguage
+  ): Promise<{ model: string; questions: QuizQuestion[]; rawResponse: unknown }> {
+    const prompt = this.buildPrompt(content, topic, types, options, language);
+    const systemPrompt = 'You are a JSON-only assistant. You respond ONLY with valid JSON arrays. Never include explanatory text, markdown, or any other content outside the JSON structure.';
+    const minQuestions = options.count ?? this.minQuestionsForContent(content);
+
+    const response = await this.llm.chat({
+      feature: 'quizzes',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: prompt }
+      ],
+      responseFormat: 'json_object',
+      temperature: 0.7,
+      maxTokens: 5000
+    });
 
-      this.logger.log('OpenAI Response (Quiz):', llmText);
+    const llmText = response.content;
+    if (!llmText) {
+      this.logger.error('Received empty response from the LLM.');
+      throw new InternalServerErrorException('LLM returned an empty quiz response.');
+    }
 
-      let questions = this.parseQuestions(llmText);
+    this.logger.log('LLM Response (Quiz):', llmText);
+
+    let questions = this.parseQuestions(llmText, types);
+    if (questions.length < minQuestions) {
+      const missing = minQuestions - questions.length;
+      this.logger.warn(
+        `Quiz questions below minimum (${questions.length}/${minQuestions}). Requesting ${missing} more.`
+      );
+      const additional = await this.requestAdditionalQuestions(
+        content,
+        questions,
+        missing,
+        types,
+        options,
+        topic,
+        language
+      );
+      questions = this.mergeQuestions(questions, additional);
       if (questions.length < minQuestions) {
-        const missing = minQuestions - questions.length;
-        this.logger.warn(
-          `Quiz questions below minimum (${questions.length}/${minQuestions}). Requesting ${missing} more.`
-        );
-        const additional = await this.requestAdditionalQuestions(
-          trimmedContent,
-          questions,
-          missing,
-          topic
-        );
-        questions = this.mergeQuestions(questions, additional);
-        if (questions.length < minQuestions) {
-          this.logger.warn(`Quiz questions still below minimum (${questions.length}/${minQuestions}).`);
-        }
+        this.logger.warn(`Quiz questions still below minimum (${questions.length}/${minQuestions}).`);
       }
-      const rawResponse = this.tryParseRaw(llmText);
+    }
+    if (options.count) {
+      questions = selectByDifficulty(questions, options.count, options.difficulty, question => question.difficulty);
+    }
 
-      return {
-        model: response.model ?? this.model,
-        promptVersion: this.promptVersion,
-        questions,
-        rawResponse
-      };
-    } catch (error) {
-      this.logger.error('OpenAI request failed:', error);
-      throw new InternalServerErrorException('Unable to generate quizzes at the moment.');
+    return { model: response.model, questions, rawResponse: this.tryParseRaw(llmText) };
+  }
+
+  /**
+   * Generates questions for each page window of a long document, then merges
+   * them. A window that fails, unparseable responses included, is skipped so one
+   * bad response does not lose the rest.
+   */
+  private async generateFromChunks(
+    chunks: PageChunk[],
+    topic: string | undefined,
+    types: QuizQuestionType[],
+    options: QuizGenerationOptions,
+    language?: OutputLanguage
+  ): Promise<{ model: string; questions: QuizQuestion[]; rawResponse: unknown }> {
+    this.logger.log(`Generating quiz questions from ${chunks.length} page chunk(s).`);
+    const chunkQuestions: QuizQuestion[][] = [];
+    const rawResponses: Array<{ pages: string; response: unknown }> = [];
+    let model = '';
+
+    for (const chunk of chunks) {
+      const chunkOptions = options.count ? { ...options, count: chunkItemShare(options.count, chunk, chunks) } : options;
+      try {
+        const generated = await this.generateFromContent(chunk.text, topic, types, chunkOptions, language);
+        chunkQuestions.push(generated.questions);
+        rawResponses.push({ pages: chunk.rangeLabel, response: generated.rawResponse });
+        model = generated.model;
+      } catch (error) {
+        this.logger.warn(`Quiz questions for pages ${chunk.rangeLabel} failed. Skipping them.`, error as Error);
+      }
+    }
+
+    let questions = mergeChunkItems(chunkQuestions, question => question.question);
+    if (!questions.length) {
+      throw new Error('No page chunk produced usable quiz questions.');
     }
+    if (options.count) {
+      questions = selectByDifficulty(questions, options.count, options.difficulty, question => question.difficulty);
+    }
+    return { model, questions, rawResponse: { chunks: rawResponses } };
   }
 
-  private buildPrompt(content: string, topic: string | undefined): string {
+  private buildPrompt(
+    content: string,
+    topic: string | undefined,
+    types: QuizQuestionType[],
+    options: QuizGenerationOptions,
+    language?: OutputLanguage
+  ): string {
     const pageCount = this.countPages(content);
-    const minQuestions = this.minQuestionsForContent(content);
-    const exampleOutput = [
-      {
-        question: 'What is the primary product of photosynthesis?',
-        options: ['Carbon dioxide', 'Glucose', 'Water', 'Nitrogen'],
-        correctIndex: 1,
-        explanation: 'Photosynthesis converts CO2 and water into glucose (C6H12O6) using light energy.',
-        difficulty: 'easy',
-        topicTag: 'Photosynthesis Basics'
-      },
-      {
-        question: 'Which stage of photosynthesis occurs in the thylakoid membrane?',
-        options: ['Calvin cycle', 'Glycolysis', 'Light-dependent reactions', 'Krebs cycle'],
-        correctIndex: 2,
-        explanation: 'Light-dependent reactions occur in the thylakoid membrane where light energy is captured.',
-        difficulty: 'medium',
-        topicTag: 'Photosynthesis Stages'
-      }
-    ];
+    const minQuestions = options.count ?? this.minQuestionsForContent(content);
+    const exampleOutput = types.map(type => QUESTION_TYPE_GUIDES[type].example);
 
     return [
       '=== STRICT JSON OUTPUT MODE ===',
@@ -121,7 +321,7 @@ export class QuizzesService {
       'DO NOT use markdown code fences like ```json.',
       'DO NOT create search queries or any other JSON structure.',
       '',
-      'TASK: Create multiple-choice quiz questions from the source material to help students prepare for exams.',
+      `TASK: Create quiz questions (${types.map(type => QUESTION_TYPE_GUIDES[type].label).join(', ')}) from the source material to help students prepare for exams.`,
       '',
       '=== YOUR ROLE ===',
       'You are an exam-setter creating questions that test deep understanding.',
@@ -143,34 +343,38 @@ export class QuizzesService {
       '- Scan the ENTIRE material, not just the beginning',
       '- Ensure wide coverage across ALL major topics/sections',
       '- Distribute questions across different concept types',
-      '- Vary difficulty: mix of easy (recall), medium (application), hard (analysis/synthesis)',
-      `- Minimum required questions: ${minQuestions} (3 per page across ${pageCount} pages)`,
+      buildDifficultyInstruction(minQuestions, options.difficulty) ||
+        '- Vary difficulty: mix of easy (recall), medium (application), hard (analysis/synthesis)',
+      options.count
+        ? `- Required questions: exactly ${minQuestions}`
+        : `- Minimum required questions: ${minQuestions} (3 per page across ${pageCount} pages)`,
       '',
-      '=== REQUIRED JSON STRUCTURE ===',
-      'Each object in the JSON array must have EXACTLY:',
-      '- question (string): Clear, unambiguous question',
-      '- options (array of 4 unique strings): All plausible and distinct',
-      '- correctIndex (0–3): Zero-based index of correct answer',
-      '- explanation (string): Why the answer is correct, referencing source material',
-      '- difficulty ("easy", "medium", or "hard")',
-      '- topicTag (string): Short, meaningful label for the question topic',
+      ...this.buildStructureLines(types),
       '',
       '=== EXAMPLE OUTPUT ===',
       JSON.stringify(exampleOutput, null, 2),
       '',
       '=== QUALITY GUIDELINES ===',
-      `- You MUST generate at least ${minQuestions} questions`,
-      '- Generate as many questions as possible to ensure comprehensive coverage of ALL material',
-      '- Create questions for EVERY major concept, definition, fact, procedure, and relationship',
-      '- There is NO limit - the more questions, the better for exam preparation',
+      ...(options.count
+        ? [`- You MUST generate exactly ${minQuestions} questions, chosen to cover the most exam-critical material`]
+        : [
+            `- You MUST generate at least ${minQuestions} questions`,
+            '- Generate as many questions as possible to ensure comprehensive coverage of ALL material',
+            '- Create questions for EVERY major concept, definition, fact, procedure, and relationship',
+            '- There is NO limit - the more questions, the better for exam preparation'
+          ]),
       '- If the material is short, split concepts into smaller questions without inventing facts',
       '- Questions must test understanding, not just memorization',
       '- All options should be plausible to avoid obvious wrong answers',
+      '- Every question must carry a complete answer key for its type',
       '- Explanations must cite or paraphrase the source material',
       '- Avoid ambiguous wording that could confuse students',
       '- Match the academic level and terminology of the source material',
       '',
       topic ? `Topic: ${topic}` : '',
+      buildTopicFocusInstruction(options),
+      buildSourcePagesInstruction(content, 'question'),
+      buildLanguageInstruction(language),
       '',
       '=== SOURCE MATERIAL ===',
       content,
@@ -195,7 +399,10 @@ export class QuizzesService {
     content: string,
     existing: QuizQuestion[],
     missing: number,
-    topic?: string
+    types: QuizQuestionType[],
+    options: QuizGenerationOptions,
+    topic?: string,
+    language?: OutputLanguage
   ): Promise<QuizQuestion[]> {
     if (missing <= 0) {
       return [];
@@ -218,15 +425,12 @@ export class QuizzesService {
         ? `Existing questions (do not repeat):\n- ${existingQuestions.join('\n- ')}`
         : '',
       '',
-      '=== REQUIRED JSON STRUCTURE ===',
-      '- question (string)',
-      '- options (array of 4 unique strings)',
-      '- correctIndex (0-3)',
-      '- explanation (string)',
-      '- difficulty ("easy", "medium", or "hard")',
-      '- topicTag (string)',
+      ...this.buildStructureLines(types),
       '',
       topic ? `Topic: ${topic}` : '',
+      buildTopicFocusInstruction(options),
+      buildSourcePagesInstruction(content, 'question'),
+      buildLanguageInstruction(language),
       '',
       '=== SOURCE MATERIAL ===',
       content,
@@ -237,21 +441,21 @@ export class QuizzesService {
       .join('\n');
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
+      const response = await this.llm.chat({
+        feature: 'quizzes',
         messages: [
           { role: 'system', content: 'You are a JSON-only assistant.' },
           { role: 'user', content: prompt }
         ],
-        response_format: { type: 'json_object' },
+        responseFormat: 'json_object',
         temperature: 0.7,
-        max_tokens: 3500
+        maxTokens: 3500
       });
-      const llmText = response.choices[0]?.message?.content?.trim();
+      const llmText = response.content;
       if (!llmText) {
         return [];
       }
-      return this.parseQuestions(llmText);
+      return this.parseQuestions(llmText, types);
     } catch (error) {
       this.logger.warn('Additional quiz request failed.', error as Error);
       return [];
@@ -275,10 +479,11 @@ export class QuizzesService {
     return merged;
   }
 
-  private parseQuestions(raw: string): QuizQuestion[] {
+  private parseQuestions(raw: string, types: QuizQuestionType[]): QuizQuestion[] {
     const cleaned = this.stripThinkTags(this.stripCodeFences(raw));
+    let items: unknown[] | null = null;
     try {
-      const parsed = JSON.parse(cleaned) as QuizQuestion[] | { questions?: QuizQuestion[] };
+      const parsed = JSON.parse(cleaned) as unknown[] | { questions?: unknown[] };
 
       // Validate array structure
       if (Array.isArray(parsed)) {
@@ -286,42 +491,61 @@ export class QuizzesService {
           this.logger.warn('Detected wrong JSON structure in quiz. Attempting recovery.');
           throw new Error('Invalid quiz structure detected');
         }
-        return parsed;
-      }
-      if (parsed?.questions && Array.isArray(parsed.questions)) {
-        return parsed.questions;
+        items = parsed;
+      } else if (parsed?.questions && Array.isArray(parsed.questions)) {
+        items = parsed.questions;
       }
     } catch (error) {
       this.logger.warn('Failed to parse quiz JSON, attempting to recover substring.', error as Error);
       const recovered = this.extractJsonArray(cleaned);
       if (recovered && recovered.length > 0 && !this.hasWrongQuizStructure(recovered[0])) {
-        return recovered;
+        items = recovered;
       }
     }
-    try {
-      const recovered = this.extractJsonArray(raw);
-      if (recovered && recovered.length > 0 && !this.hasWrongQuizStructure(recovered[0])) {
-        return recovered;
+    if (!items) {
+      try {
+        const recovered = this.extractJsonArray(raw);
+        if (recovered && recovered.length > 0 && !this.hasWrongQuizStructure(recovered[0])) {
+          items = recovered;
+        }
+      } catch (error) {
+        this.logger.warn('Failed to parse quiz JSON, falling back to text.', error as Error);
       }
-    } catch (error) {
-      this.logger.warn('Failed to parse quiz JSON, falling back to text.', error as Error);
     }
 
-    return [
-      {
-        question: 'Unable to parse quiz response.',
-        options: ['Try again later'],
-        correctIndex: 0,
-        explanation: cleaned || raw,
-        difficulty: 'easy'
+    if (items) {
+      const questions = items
+        .map(item => normalizeQuizQuestion(item))
+        .filter((question): question is QuizQuestion => question !== null && types.includes(question.type));
+      if (questions.length < items.length) {
+        this.logger.warn(`Dropped ${items.length - questions.length} quiz question(s) with a missing or invalid answer key.`);
       }
+      return questions;
+    }
+
+    this.logger.error('Unparseable quiz response:', cleaned || raw);
+    throw new Error('LLM returned a quiz response that could not be parsed.');
+  }
+
+  private buildStructureLines(types: QuizQuestionType[]): string[] {
+    return [
+      '=== REQUIRED JSON STRUCTURE ===',
+      `Allowed question types: ${types.map(type => `"${type}"`).join(', ')}.`,
+      types.length > 1 ? 'Distribute the questions roughly evenly across these types.' : '',
+      'Every object in the JSON array must have:',
+      '- type (string): One of the allowed question types',
+      '- question (string): Clear, unambiguous question or statement',
+      '- explanation (string): Why the answer is correct, referencing source material',
+      '- difficulty ("easy", "medium", or "hard")',
+      '- topicTag (string): Short, meaningful label for the question topic',
+      ...types.flatMap(type => [`Additional fields for "${type}":`, ...QUESTION_TYPE_GUIDES[type].fields])
     ];
   }
 
   private hasWrongQuizStructure(obj: any): boolean {
     // Check for common wrong structures that DeepSeek might generate
     const wrongKeys = ['search_query', 'page_numbers', 'results', 'id', 'text'];
-    return wrongKeys.some(key => key in obj) || !('question' in obj && 'options' in obj && 'correctIndex' in obj);
+    return !obj || typeof obj !== 'object' || wrongKeys.some(key => key in obj) || !('question' in obj);
   }
 
   private tryParseRaw(raw: string): unknown {
@@ -361,7 +585,7 @@ export class QuizzesService {
     return cleaned;
   }
 
-  private extractJsonArray(raw: string): QuizQuestion[] | null {
+  private extractJsonArray(raw: string): unknown[] | null {
     const start = raw.indexOf('[');
     const end = raw.lastIndexOf(']');
     if (start === -1 || end === -1 || end <= start) {
@@ -371,7 +595,7 @@ export class QuizzesService {
       const snippet = raw.slice(start, end + 1);
       const parsed = JSON.parse(snippet);
       if (Array.isArray(parsed)) {
-        return parsed as QuizQuestion[];
+        return parsed;
       }
     } catch {
       return null;
@@ -0,0 +1,294 @@
+import { promises as fs } from 'fs';
+import * as fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { StudyGuide, StudyGuideEntry } from './study-guides.service';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CUE_COLUMN_WIDTH = CONTENT_WIDTH * 0.3;
+const COLUMN_GAP = 10;
+const BODY_SIZE = 9.5;
+const HEADING_SIZE = 11.5;
+const TITLE_SIZE = 16;
+const LINE_GAP = 1.35;
+const RULE_COLOR = rgb(0.7, 0.7, 0.7);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+
+/** DejaVu Sans covers Latin, Greek, Cyrillic and more, but no CJK or Indic scripts. */
+const UNICODE_FONT_FILES = {
+  regular: 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf',
+  bold: 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf'
+};
+/** Hebrew, Arabic, Syriac, Thaana and N'Ko need right-to-left layout and shaping, which pdf-lib does not do. */
+const RIGHT_TO_LEFT = /[\u0590-\u08ff\ufb1d-\ufdff\ufe70-\ufefc]/;
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+interface UnicodeFonts {
+  regular: Uint8Array;
+  bold: Uint8Array;
+  characters: Set<number>;
+}
+
+let unicodeFonts: Promise<UnicodeFonts> | null = null;
+
+/**
+ * Characters of the guide the PDF export cannot draw: those missing from the
+ * embedded Unicode font and those of right-to-left scripts.
+ */
+export async function findUnprintableCharacters(guide: StudyGuide): Promise<string[]> {
+  const { characters } = await loadUnicodeFonts();
+  const unprintable = new Set<string>();
+  for (const char of Array.from(guideText(guide).replace(/\s/g, ''))) {
+    if (RIGHT_TO_LEFT.test(char) || !printable(char, characters)) {
+      unprintable.add(char);
+    }
+  }
+  return Array.from(unprintable);
+}
+
+/**
+ * Renders a study guide as a printable A4 PDF. Guides that fit Latin-1 use the
+ * standard Helvetica fonts; others embed a subset of DejaVu Sans. Check
+ * findUnprintableCharacters first: anything it reports still prints as "?".
+ */
+export async function renderStudyGuidePdf(guide: StudyGuide, language?: string | null): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(guide.title);
+  doc.setCreator('ExamGuru');
+  if (language) {
+    doc.setLanguage(language);
+  }
+  const helvetica = await doc.embedFont(StandardFonts.Helvetica);
+  let fonts: Fonts;
+  const latin1 = characterSet(helvetica);
+  if (Array.from(guideText(guide).replace(/\s/g, '')).every(char => printable(char, latin1))) {
+    fonts = { regular: helvetica, bold: await doc.embedFont(StandardFonts.HelveticaBold) };
+  } else {
+    const files = await loadUnicodeFonts();
+    doc.registerFontkit(fontkit);
+    fonts = {
+      regular: await doc.embedFont(files.regular, { subset: true }),
+      bold: await doc.embedFont(files.bold, { subset: true })
+    };
+  }
+  const writer = new PdfWriter(doc, fonts);
+
+  writer.paragraph(guide.title, fonts.bold, TITLE_SIZE);
+  writer.gap(6);
+
+  for (const section of guide.sections) {
+    writer.ensureSpace(HEADING_SIZE * LINE_GAP + BODY_SIZE * LINE_GAP * 2);
+    writer.paragraph(section.heading, fonts.bold, HEADING_SIZE);
+    writer.gap(2);
+    for (const entry of section.entries) {
+      if (guide.format === 'cornell') {
+        writer.cornellRow(entry);
+      } else if (guide.format === 'qa') {
+        writer.questionAndAnswer(entry);
+      } else {
+        writer.paragraph(`• ${entry.text}`, fonts.regular, BODY_SIZE, 8);
+      }
+    }
+    writer.gap(8);
+  }
+
+  if (guide.summary) {
+    writer.ensureSpace(HEADING_SIZE * LINE_GAP + BODY_SIZE * LINE_GAP * 2);
+    writer.rule();
+    writer.paragraph('Summary', fonts.bold, HEADING_SIZE);
+    writer.paragraph(guide.summary, fonts.regular, BODY_SIZE);
+  }
+
+  const pages = doc.getPages();
+  pages.forEach((page, index) => {
+    const footer = sanitize(`${guide.title} - page ${index + 1} of ${pages.length}`, fonts.regular);
+    page.drawText(footer, { x: MARGIN, y: MARGIN / 2, size: 7.5, font: fonts.regular, color: MUTED_COLOR });
+  });
+
+  return Buffer.from(await doc.save());
+}
+
+/** Top-to-bottom text layout that starts a new page when the current one is full. */
+class PdfWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(
+    private readonly doc: PDFDocument,
+    private readonly fonts: Fonts
+  ) {
+    this.addPage();
+  }
+
+  paragraph(text: string, font: PDFFont, size: number, indent = 0): void {
+    const lineHeight = size * LINE_GAP;
+    for (const line of wrapText(sanitize(text, font), font, size, CONTENT_WIDTH - indent)) {
+      this.ensureSpace(lineHeight);
+      this.page.drawText(line, { x: MARGIN + indent, y: this.y - size, size, font });
+      this.y -= lineHeight;
+    }
+  }
+
+  questionAndAnswer(entry: StudyGuideEntry): void {
+    this.paragraph(`Q: ${entry.cue ?? ''}`, this.fonts.bold, BODY_SIZE);
+    this.paragraph(`A: ${entry.text}`, this.fonts.regular, BODY_SIZE, 8);
+    this.gap(4);
+  }
+
+  /** One Cornell row: the cue on the left, the note on the right, kept on one page when it fits. */
+  cornellRow(entry: StudyGuideEntry): void {
+    const lineHeight = BODY_SIZE * LINE_GAP;
+    const noteWidth = CONTENT_WIDTH - CUE_COLUMN_WIDTH - COLUMN_GAP;
+    const cueLines = wrapText(sanitize(entry.cue ?? '', this.fonts.bold), this.fonts.bold, BODY_SIZE, CUE_COLUMN_WIDTH);
+    const noteLines = wrapText(sanitize(entry.text, this.fonts.regular), this.fonts.regular, BODY_SIZE, noteWidth);
+    const rows = Math.max(cueLines.length, noteLines.length);
+
+    if (rows * lineHeight <= PAGE_HEIGHT - MARGIN * 2) {
+      this.ensureSpace(rows * lineHeight);
+    }
+    for (let index = 0; index < rows; index += 1) {
+      this.ensureSpace(lineHeight);
+      const baseline = this.y - BODY_SIZE;
+      if (cueLines[index]) {
+        this.page.drawText(cueLines[index], { x: MARGIN, y: baseline, size: BODY_SIZE, font: this.fonts.bold });
+      }
+      if (noteLines[index]) {
+        this.page.drawText(noteLines[index], {
+          x: MARGIN + CUE_COLUMN_WIDTH + COLUMN_GAP,
+          y: baseline,
+          size: BODY_SIZE,
+          font: this.fonts.regular
+        });
+      }
+      const divider = MARGIN + CUE_COLUMN_WIDTH + COLUMN_GAP / 2;
+      this.page.drawLine({
+        start: { x: divider, y: this.y },
+        end: { x: divider, y: this.y - lineHeight },
+        thickness: 0.5,
+        color: RULE_COLOR
+      });
+      this.y -= lineHeight;
+    }
+    this.gap(3);
+    this.rule();
+  }
+
+  rule(): void {
+    this.ensureSpace(6);
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y - 2 },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y - 2 },
+      thickness: 0.5,
+      color: RULE_COLOR
+    });
+    this.y -= 6;
+  }
+
+  gap(height: number): void {
+    this.y -= height;
+  }
+
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private addPage(): void {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+}
+
+function wrapText(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      line = word;
+      // A single word wider than the column is broken by character.
+      while (font.widthOfTextAtSize(line, size) > width && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > width) {
+          cut -= 1;
+        }
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function loadUnicodeFonts(): Promise<UnicodeFonts> {
+  unicodeFonts ??= Promise.all([
+    fs.readFile(require.resolve(UNICODE_FONT_FILES.regular)),
+    fs.readFile(require.resolve(UNICODE_FONT_FILES.bold))
+  ]).then(([regular, bold]) => {
+    const boldGlyphs = fontkit.create(bold);
+    const characters = new Set(
+      fontkit.create(regular).characterSet.filter(codePoint => boldGlyphs.hasGlyphForCodePoint(codePoint))
+    );
+    return { regular, bold, characters };
+  });
+  unicodeFonts.catch(() => {
+    unicodeFonts = null;
+  });
+  return unicodeFonts;
+}
+
+function guideText(guide: StudyGuide): string {
+  const parts = [guide.title, guide.summary ?? ''];
+  guide.sections.forEach(section => {
+    parts.push(section.heading);
+    section.entries.forEach(entry => parts.push(entry.cue ?? '', entry.text));
+  });
+  return parts.join('\n').normalize('NFC');
+}
+
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+/** Replaces characters the font cannot encode, trying the unaccented letter first. */
+function sanitize(text: string, font: PDFFont): string {
+  const supported = characterSet(font);
+  return Array.from(text.normalize('NFC').replace(/\t/g, ' '))
+    .map(char => {
+      if (char === '\n' || supported.has(char.codePointAt(0) ?? 0)) {
+        return char;
+      }
+      return printable(char, supported) ? toBaseLetters(char) : '?';
+    })
+    .join('');
+}
+
+/** Whether the character, or failing that its unaccented letter, is in the set. */
+function printable(char: string, supported: Set<number>): boolean {
+  const encodable = (value: string) => supported.has(value.codePointAt(0) ?? 0);
+  const base = toBaseLetters(char);
+  return encodable(char) || (!!base && Array.from(base).every(encodable));
+}
+
+function characterSet(font: PDFFont): Set<number> {
+  const supported = characterSets.get(font) ?? new Set(font.getCharacterSet());
+  characterSets.set(font, supported);
+  return supported;
+}
+
+function toBaseLetters(char: string): string {
+  return char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+}
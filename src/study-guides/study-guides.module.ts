@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { StudyGuidesService } from './study-guides.service';
+import { LlmModule } from '../llm/llm.module';
+
+@Module({
+  imports: [LlmModule],
+  providers: [StudyGuidesService],
+  exports: [StudyGuidesService]
+})
+export class StudyGuidesModule {}
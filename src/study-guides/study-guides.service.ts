@@ -0,0 +1,239 @@
+import { BadRequestException, Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import { buildLanguageInstruction, OutputLanguage } from '../ai/output-language';
+import { asJsonArray, asJsonObject, parseLlmJson } from '../ai/llm-json';
+import { GlossaryTerm } from '../glossary/glossary.service';
+import { LlmService } from '../llm/llm.service';
+import { StructuredSummary } from '../summaries/summaries.service';
+
+export const STUDY_GUIDE_FORMATS = ['outline', 'cornell', 'qa'] as const;
+export type StudyGuideFormat = (typeof STUDY_GUIDE_FORMATS)[number];
+
+export const DEFAULT_STUDY_GUIDE_WORDS = 600;
+export const MIN_STUDY_GUIDE_WORDS = 150;
+export const MAX_STUDY_GUIDE_WORDS = 2000;
+
+export interface StudyGuideEntry {
+  /** Left-column cue for Cornell notes, the question for Q&A; null for outline bullets. */
+  cue: string | null;
+  text: string;
+}
+
+export interface StudyGuideSection {
+  heading: string;
+  entries: StudyGuideEntry[];
+}
+
+export interface StudyGuide {
+  title: string;
+  format: StudyGuideFormat;
+  sections: StudyGuideSection[];
+  /** Closing summary; the bottom strip of a Cornell page. */
+  summary: string | null;
+  wordCount: number;
+}
+
+export interface StudyGuideMaterial {
+  title: string;
+  summaries: Array<{ fileName: string; summary: StructuredSummary }>;
+  terms: GlossaryTerm[];
+  /** Quiz topic tags with the number of questions that test them, most tested first. */
+  quizTopics: Array<{ topic: string; questionCount: number }>;
+}
+
+export interface GeneratedStudyGuideResponse {
+  model: string;
+  promptVersion: string;
+  guide: StudyGuide;
+  rawResponse: unknown;
+}
+
+const MAX_MATERIAL_CHARS = 60000;
+const MAX_TERMS = 80;
+const MAX_TOPICS = 30;
+
+const FORMAT_INSTRUCTIONS: Record<StudyGuideFormat, string[]> = {
+  outline: [
+    'FORMAT: Outline. Each section is a topic; each entry is one terse bullet point.',
+    '- cue must be null',
+    '- text is a telegraphic fact, definition or formula, not a full paragraph'
+  ],
+  cornell: [
+    'FORMAT: Cornell notes. Each entry is one row of the notes page.',
+    '- cue (string) is the keyword or recall question for the left column',
+    '- text is the note for the right column',
+    '- summary is a 2-3 sentence synthesis of the whole guide for the bottom of the page'
+  ],
+  qa: [
+    'FORMAT: Questions and answers. Each entry is one likely exam question.',
+    '- cue (string) is the question',
+    '- text is the concise model answer'
+  ]
+};
+
+/**
+ * Condenses a study set's existing summaries, glossary and quiz topics into a
+ * compact exam study guide. It never reads the source documents, so it is cheap
+ * to regenerate in another format or length.
+ */
+@Injectable()
+export class StudyGuidesService {
+  private readonly logger = new Logger(StudyGuidesService.name);
+  readonly promptVersion = 'v1-study-guide';
+
+  constructor(private readonly llm: LlmService) {}
+
+  async generateStudyGuide(
+    material: StudyGuideMaterial,
+    format: StudyGuideFormat,
+    maxWords: number,
+    language?: OutputLanguage
+  ): Promise<GeneratedStudyGuideResponse> {
+    if (!material.summaries.length && !material.terms.length) {
+      throw new BadRequestException('Generate summaries or a glossary for this study set before building a study guide.');
+    }
+
+    const prompt = [
+      '=== STRICT JSON OUTPUT MODE ===',
+      'You MUST output ONLY a valid JSON object. NO other text is allowed.',
+      '',
+      `TASK: Write a one-page exam study guide for "${material.title}" with everything a student needs to revise.`,
+      '',
+      ...FORMAT_INSTRUCTIONS[format],
+      '',
+      '=== LENGTH BUDGET ===',
+      `- The whole guide must stay under ${maxWords} words, headings included`,
+      '- Prefer fewer, denser entries over covering minor details',
+      '- Give the most space to the topics the quiz questions test most often',
+      '',
+      '=== REQUIRED JSON STRUCTURE ===',
+      '{ "title": string, "sections": [ { "heading": string, "entries": [ { "cue": string | null, "text": string } ] } ], "summary": string | null }',
+      '',
+      '=== QUALITY GUIDELINES ===',
+      '- Use only the study material below, not general knowledge',
+      '- Keep glossary terms exactly as written so students recognise them',
+      '- Do not repeat the same fact in two sections',
+      '',
+      buildLanguageInstruction(language),
+      '',
+      '=== SOURCE MATERIAL ===',
+      this.describeMaterial(material),
+      '',
+      '=== OUTPUT JSON ONLY ==='
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    try {
+      const response = await this.llm.chat({
+        feature: 'studyGuide',
+        messages: [
+          { role: 'system', content: 'You are a JSON-only assistant.' },
+          { role: 'user', content: prompt }
+        ],
+        responseFormat: 'json_object',
+        temperature: 0.3,
+        maxTokens: Math.min(6000, Math.ceil(maxWords * 3) + 500)
+      });
+
+      const llmText = response.content;
+      if (!llmText) {
+        throw new Error('LLM returned an empty study guide response.');
+      }
+
+      const parsed = parseLlmJson(llmText);
+      const guide = this.normalizeGuide(parsed, material.title, format, maxWords);
+      if (!guide.sections.length) {
+        throw new Error('LLM did not return any usable study guide sections.');
+      }
+      return { model: response.model, promptVersion: this.promptVersion, guide, rawResponse: parsed ?? llmText };
+    } catch (error) {
+      this.logger.error('LLM request failed:', error);
+      throw new InternalServerErrorException('Unable to build the study guide at the moment.');
+    }
+  }
+
+  private describeMaterial(material: StudyGuideMaterial): string {
+    const parts: string[] = [];
+
+    material.summaries.forEach(({ fileName, summary }) => {
+      parts.push(`## Summary: ${summary.title || fileName}`, summary.summary);
+      summary.key_points.forEach(point => parts.push(`- ${point.heading}: ${point.detail}`));
+      parts.push('');
+    });
+
+    if (material.terms.length) {
+      parts.push('## Glossary');
+      material.terms.slice(0, MAX_TERMS).forEach(term => parts.push(`- ${term.term}: ${term.definition}`));
+      parts.push('');
+    }
+
+    if (material.quizTopics.length) {
+      parts.push('## Quiz topics (questions per topic)');
+      material.quizTopics
+        .slice(0, MAX_TOPICS)
+        .forEach(topic => parts.push(`- ${topic.topic} (${topic.questionCount})`));
+    }
+
+    const text = parts.join('\n').trim();
+    if (text.length <= MAX_MATERIAL_CHARS) {
+      return text;
+    }
+    this.logger.warn(`Study guide material is ${text.length} characters; truncating to ${MAX_MATERIAL_CHARS}.`);
+    return text.slice(0, MAX_MATERIAL_CHARS);
+  }
+
+  private normalizeGuide(parsed: unknown, fallbackTitle: string, format: StudyGuideFormat, maxWords: number): StudyGuide {
+    const data = asJsonObject(parsed);
+    const sections: StudyGuideSection[] = asJsonArray(data?.sections)
+      .map(asJsonObject)
+      .map(section => ({
+        heading: typeof section?.heading === 'string' ? section.heading.trim() : '',
+        entries: asJsonArray(section?.entries)
+          .map(asJsonObject)
+          .map((entry): StudyGuideEntry => ({
+            cue: format !== 'outline' && typeof entry?.cue === 'string' && entry.cue.trim() ? entry.cue.trim() : null,
+            text: typeof entry?.text === 'string' ? entry.text.trim() : ''
+          }))
+          .filter(entry => entry.text && (format === 'outline' || entry.cue))
+      }))
+      .filter(section => section.heading && section.entries.length);
+
+    const title = typeof data?.title === 'string' && data.title.trim() ? data.title.trim() : fallbackTitle;
+    const summary = typeof data?.summary === 'string' && data.summary.trim() ? data.summary.trim() : null;
+    return fitToBudget({ title, format, sections, summary, wordCount: 0 }, maxWords);
+  }
+}
+
+/**
+ * Models overshoot word limits, so the guide is trimmed to the budget: the last
+ * entry of the longest section goes first, then whole trailing sections.
+ */
+function fitToBudget(guide: StudyGuide, maxWords: number): StudyGuide {
+  const sections = guide.sections.map(section => ({ ...section, entries: section.entries.slice() }));
+  const count = () => countGuideWords({ ...guide, sections });
+
+  while (count() > maxWords) {
+    const longest = sections.reduce<StudyGuideSection | null>(
+      (best, section) => (section.entries.length > 1 && (!best || section.entries.length > best.entries.length) ? section : best),
+      null
+    );
+    if (longest) {
+      longest.entries.pop();
+    } else if (sections.length > 1) {
+      sections.pop();
+    } else {
+      break;
+    }
+  }
+
+  return { ...guide, sections, wordCount: count() };
+}
+
+function countGuideWords(guide: StudyGuide): number {
+  const texts = [
+    guide.title,
+    guide.summary ?? '',
+    ...guide.sections.flatMap(section => [section.heading, ...section.entries.flatMap(entry => [entry.cue ?? '', entry.text])])
+  ];
+  return texts.reduce((total, text) => total + (text.match(/\S+/g)?.length ?? 0), 0);
+}
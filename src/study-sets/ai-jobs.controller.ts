@@ -5,18 +5,22 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { StudySetsService } from './study-sets.service';
 import { AiJobStatusResponseDto } from './dto/ai-job-status.dto';
 import { StartAiProcessResponseDto } from './dto/start-ai-process-response.dto';
+import { UsageService } from '../usage/usage.service';
 
 @ApiTags('AI Jobs')
 @ApiBearerAuth('bearer')
 @Controller('ai-jobs')
 export class AiJobsController {
-  constructor(private readonly studySetsService: StudySetsService) {}
+  constructor(
+    private readonly studySetsService: StudySetsService,
+    private readonly usageService: UsageService
+  ) {}
 
   @Get(':jobId')
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Get AI job status',
-    description: 'Returns the processing status of an AI job created for a study set.'
+    description: 'Returns the processing status of an AI job created for a study set, with the LLM usage of all its attempts.'
   })
   @ApiOkResponse({
     description: 'AI job status retrieved successfully',
@@ -38,7 +42,8 @@ export class AiJobsController {
       attempts: job.attempts,
       maxAttempts: job.maxAttempts,
       nextAttemptAt: job.nextAttemptAt ? job.nextAttemptAt.toISOString() : null,
-      lastError: job.lastError ?? null
+      lastError: job.lastError ?? null,
+      usage: this.usageService.summarizeJobUsage(job.usage)
     };
   }
 
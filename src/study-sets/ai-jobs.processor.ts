@@ -1,10 +1,18 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { StudySetsService } from './study-sets.service';
 import { StudySetAiJobDocument } from './schemas/study-set-ai-job.schema';
+import { STUDY_SET_RESULT_FILE_ID } from './schemas/study-set-ai-result.schema';
 import { SummariesService } from '../summaries/summaries.service';
 import { FlashcardsService } from '../flashcards/flashcards.service';
 import { QuizzesService } from '../quizzes/quizzes.service';
+import { GlossaryService, GlossarySource } from '../glossary/glossary.service';
+import { ConceptMapSource, ConceptMapsService } from '../concept-maps/concept-maps.service';
 import { DocumentProcessingService } from './document-processing.service';
+import { OutputLanguage, resolveOutputLanguage } from '../ai/output-language';
+import { GroundingService } from '../grounding/grounding.service';
+import { attachPageCitations } from '../ai/page-citations';
+import { UsageService } from '../usage/usage.service';
+import { GenerationCacheService } from '../generation-cache/generation-cache.service';
 
 function wait(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
@@ -20,7 +28,12 @@ export class AiJobsProcessorService {
     private readonly summariesService: SummariesService,
     private readonly flashcardsService: FlashcardsService,
     private readonly quizzesService: QuizzesService,
-    private readonly documentProcessing: DocumentProcessingService
+    private readonly glossaryService: GlossaryService,
+    private readonly conceptMapsService: ConceptMapsService,
+    private readonly documentProcessing: DocumentProcessingService,
+    private readonly groundingService: GroundingService,
+    private readonly usageService: UsageService,
+    private readonly generationCache: GenerationCacheService
   ) {}
 
   async processNextJob(): Promise<boolean> {
@@ -34,7 +47,10 @@ export class AiJobsProcessorService {
     );
 
     try {
-      await this.runAiPipeline(job);
+      await this.usageService.track(
+        { userId: job.user.toString(), studySetId: job.studySet.toString(), jobId: job.jobId },
+        () => this.runAiPipeline(job)
+      );
       await this.studySetsService.markJobCompleted(job.jobId);
       this.logger.log(`Completed AI job ${job.jobId}`);
     } catch (error) {
@@ -54,7 +70,30 @@ export class AiJobsProcessorService {
       files.map(file => this.processFile(job, file, features))
     );
 
-    const errors = results.flat();
+    const errors = results.flatMap(result => result.errors);
+    // Rebuild the study-set-wide results for every language this run touched,
+    // so they pick up newly added or re-processed files.
+    const languages = new Map(results.map(result => [result.language.code, result.language]));
+    if (features.includes('summary')) {
+      for (const language of languages.values()) {
+        const error = await this.processMasterSummary(job, language);
+        if (error) {
+          errors.push(error);
+        }
+      }
+    }
+    for (const feature of ['glossary', 'conceptMap'] as const) {
+      if (!features.includes(feature)) {
+        continue;
+      }
+      for (const language of languages.values()) {
+        const error = await this.mergeStudySetResult(job, feature, language);
+        if (error) {
+          errors.push(error);
+        }
+      }
+    }
+
     if (errors.length > 0) {
       throw new Error(errors.join('; '));
     }
@@ -64,12 +103,33 @@ export class AiJobsProcessorService {
     job: StudySetAiJobDocument,
     file: any,
     features: string[]
-  ): Promise<string[]> {
+  ): Promise<{ errors: string[]; language: OutputLanguage }> {
     const errors: string[] = [];
     let studySource = '';
+    let sourceLanguage: string | null = null;
+    let language = resolveOutputLanguage(job.payload?.preferredLanguage, file.detectedLanguage);
 
     try {
-      studySource = await this.documentProcessing.buildStudySource(file);
+      const built = await this.documentProcessing.buildStudySource(file);
+      studySource = built.text;
+      sourceLanguage = built.language ?? file.detectedLanguage ?? null;
+      language = resolveOutputLanguage(job.payload?.preferredLanguage, built.language, file.detectedLanguage);
+      if (built.report) {
+        await this.studySetsService
+          .saveExtractionReport({ job, fileId: file.fileId, fileName: file.fileName, report: built.report })
+          .catch(error => {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.warn(`Failed to save extraction report for ${file.fileName}: ${message}`);
+          });
+      }
+      if (built.language) {
+        await this.studySetsService
+          .saveDetectedLanguage(job.studySet, file.fileId, built.language)
+          .catch(error => {
+            const message = error instanceof Error ? error.message : String(error);
+            this.logger.warn(`Failed to save detected language for ${file.fileName}: ${message}`);
+          });
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       await Promise.all(
@@ -79,12 +139,13 @@ export class AiJobsProcessorService {
             fileId: file.fileId,
             fileName: file.fileName,
             feature: feature as any,
+            language: language.code,
             status: 'failed',
             error: message
           })
         )
       );
-      return [message];
+      return { errors: [message], language };
     }
 
     // Process summary first for faster partial results.
@@ -93,7 +154,7 @@ export class AiJobsProcessorService {
 
     if (summaryRequested) {
       try {
-        await this.processFeature(job, file, 'summary', studySource);
+        await this.processFeature(job, file, 'summary', studySource, language, sourceLanguage);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         errors.push(message);
@@ -103,7 +164,7 @@ export class AiJobsProcessorService {
     await Promise.all(
       remainingFeatures.map(async feature => {
         try {
-          await this.processFeature(job, file, feature as string, studySource);
+          await this.processFeature(job, file, feature as string, studySource, language, sourceLanguage);
         } catch (error) {
           const message = error instanceof Error ? error.message : String(error);
           errors.push(message);
@@ -111,16 +172,89 @@ export class AiJobsProcessorService {
       })
     );
 
-    return errors;
+    return { errors, language };
+  }
+
+  private async processMasterSummary(job: StudySetAiJobDocument, language: OutputLanguage): Promise<string | null> {
+    const { title, sources } = await this.studySetsService.getMasterSummarySources(job.studySet, language.code);
+    if (sources.length < 2) {
+      // A master summary of files that were removed would otherwise keep being served.
+      await this.studySetsService.deleteStudySetResult(job.studySet, 'summary', language.code);
+      return null;
+    }
+
+    const base = {
+      job,
+      fileId: STUDY_SET_RESULT_FILE_ID,
+      fileName: title,
+      feature: 'summary' as const,
+      language: language.code
+    };
+    await this.studySetsService.upsertAiResult({ ...base, status: 'processing' });
+
+    try {
+      this.logger.log(`Building master summary from ${sources.length} file(s) in ${language.code}`);
+      const summary = await this.summariesService.generateMasterSummary(
+        sources,
+        title,
+        language,
+        job.payload?.generationOptions?.summary
+      );
+      await this.studySetsService.upsertAiResult({ ...base, status: 'completed', result: summary });
+      return null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed master summary for study set ${job.studySet.toString()}: ${message}`);
+      await this.studySetsService.upsertAiResult({ ...base, status: 'failed', error: message });
+      return `summary:${title} → ${message}`;
+    }
+  }
+
+  /** Merges the per-file glossaries or concept maps; no LLM call, so it runs even for a single file. */
+  private async mergeStudySetResult(
+    job: StudySetAiJobDocument,
+    feature: 'glossary' | 'conceptMap',
+    language: OutputLanguage
+  ): Promise<string | null> {
+    try {
+      const { title, sources } =
+        feature === 'glossary'
+          ? await this.studySetsService.getGlossarySources(job.studySet, language.code)
+          : await this.studySetsService.getConceptMapSources(job.studySet, language.code);
+      if (!sources.length) {
+        // Otherwise a merge of files whose results have since failed keeps being served.
+        await this.studySetsService.deleteStudySetResult(job.studySet, feature, language.code);
+        return null;
+      }
+      await this.studySetsService.upsertAiResult({
+        job,
+        fileId: STUDY_SET_RESULT_FILE_ID,
+        fileName: title,
+        feature,
+        language: language.code,
+        status: 'completed',
+        result:
+          feature === 'glossary'
+            ? this.glossaryService.mergeFileGlossaries(sources as GlossarySource[])
+            : this.conceptMapsService.mergeFileConceptMaps(sources as ConceptMapSource[])
+      });
+      return null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed ${feature} merge for study set ${job.studySet.toString()}: ${message}`);
+      return `${feature}:${job.studySet.toString()} → ${message}`;
+    }
   }
 
   private async processFeature(
     job: StudySetAiJobDocument,
     file: any,
     feature: string,
-    studySource: string
+    studySource: string,
+    language: OutputLanguage,
+    sourceLanguage: string | null = null
   ): Promise<void> {
-    const supportedFeatures = ['summary', 'flashcards', 'quizzes'];
+    const supportedFeatures = ['summary', 'flashcards', 'quizzes', 'glossary', 'conceptMap'];
     if (!supportedFeatures.includes(feature)) {
       const message = `Unsupported feature ${feature}`;
       await this.studySetsService.upsertAiResult({
@@ -128,6 +262,7 @@ export class AiJobsProcessorService {
         fileId: file.fileId,
         fileName: file.fileName,
         feature: feature as any,
+        language: language.code,
         status: 'failed',
         error: message
       });
@@ -139,53 +274,169 @@ export class AiJobsProcessorService {
       fileId: file.fileId,
       fileName: file.fileName,
       feature: feature as any,
+      language: language.code,
       status: 'processing'
     });
 
+    // Flags generated items the source does not back up and resolves their page citations before they are stored.
+    const ground = <T>(groundedFeature: 'summary' | 'flashcards' | 'quizzes', result: T): T =>
+      attachPageCitations(
+        groundedFeature,
+        this.groundingService.groundResult(groundedFeature, result, studySource, {
+          source: sourceLanguage,
+          output: language.code
+        }),
+        studySource,
+        file.pageImageKeys
+      );
+
     try {
-      this.logger.log(`Processing ${feature} for file ${file.fileName}`);
+      this.logger.log(`Processing ${feature} for file ${file.fileName} in ${language.code}`);
       if (feature === 'summary') {
-        const summary = await this.summariesService.generateStructuredSummary(studySource, file.fileName);
+        const { result: summary } = await this.generationCache.getOrGenerate(
+          {
+            feature: 'summary',
+            source: studySource,
+            promptVersion: this.summariesService.promptVersion,
+            topic: file.fileName,
+            options: {
+              language: language.code,
+              pageChunkSize: this.summariesService.pageChunkSize,
+              ...job.payload?.generationOptions?.summary
+            }
+          },
+          topic =>
+            this.summariesService.generateStructuredSummary(
+              studySource,
+              topic,
+              language,
+              job.payload?.generationOptions?.summary
+            )
+        );
         await this.studySetsService.upsertAiResult({
           job,
           fileId: file.fileId,
           fileName: file.fileName,
           feature: 'summary',
+          language: language.code,
           status: 'completed',
-          result: summary
+          result: ground('summary', summary)
         });
-        return;
-      }
-
-      if (feature === 'flashcards') {
-        const cards = await this.flashcardsService.generateFlashcards(
-          studySource,
-          file.fileName,
-          job.studySet.toString(),
-          file.fileId
+      } else if (feature === 'flashcards') {
+        const { result: cards, cached } = await this.generationCache.getOrGenerate(
+          {
+            feature: 'flashcards',
+            source: studySource,
+            promptVersion: this.flashcardsService.promptVersion,
+            topic: file.fileName,
+            options: {
+              language: language.code,
+              mode: job.payload?.flashcardMode ?? 'basic',
+              pageChunkSize: this.flashcardsService.pageChunkSize,
+              ...job.payload?.generationOptions?.flashcards
+            }
+          },
+          topic =>
+            this.flashcardsService.generateFlashcards(
+              studySource,
+              topic,
+              job.studySet.toString(),
+              file.fileId,
+              language,
+              job.payload?.flashcardMode ?? undefined,
+              job.payload?.generationOptions?.flashcards
+            )
         );
+        if (cached) {
+          // Card IDs encode the study set and file they were generated for.
+          cards.flashcards = this.flashcardsService.assignFlashcardIds(
+            job.studySet.toString(),
+            file.fileId,
+            language.code,
+            cards.flashcards
+          );
+        }
         await this.studySetsService.upsertAiResult({
           job,
           fileId: file.fileId,
           fileName: file.fileName,
           feature: 'flashcards',
+          language: language.code,
           status: 'completed',
-          result: cards
+          result: ground('flashcards', cards)
         });
-        return;
-      }
-
-      if (feature === 'quizzes') {
-        const quiz = await this.quizzesService.generateQuiz(studySource, file.fileName);
+      } else if (feature === 'quizzes') {
+        const { result: quiz } = await this.generationCache.getOrGenerate(
+          {
+            feature: 'quizzes',
+            source: studySource,
+            promptVersion: this.quizzesService.promptVersion,
+            topic: file.fileName,
+            options: {
+              language: language.code,
+              questionTypes: job.payload?.quizQuestionTypes ?? null,
+              pageChunkSize: this.quizzesService.pageChunkSize,
+              ...job.payload?.generationOptions?.quizzes
+            }
+          },
+          topic =>
+            this.quizzesService.generateQuiz(
+              studySource,
+              topic,
+              language,
+              job.payload?.quizQuestionTypes ?? undefined,
+              job.payload?.generationOptions?.quizzes
+            )
+        );
         await this.studySetsService.upsertAiResult({
           job,
           fileId: file.fileId,
           fileName: file.fileName,
           feature: 'quizzes',
+          language: language.code,
+          status: 'completed',
+          result: ground('quizzes', quiz)
+        });
+      } else if (feature === 'glossary') {
+        const { result: glossary } = await this.generationCache.getOrGenerate(
+          {
+            feature: 'glossary',
+            source: studySource,
+            promptVersion: this.glossaryService.promptVersion,
+            topic: file.fileName,
+            options: { language: language.code, pageChunkSize: this.glossaryService.pageChunkSize }
+          },
+          topic => this.glossaryService.generateGlossary(studySource, topic, language)
+        );
+        await this.studySetsService.upsertAiResult({
+          job,
+          fileId: file.fileId,
+          fileName: file.fileName,
+          feature: 'glossary',
+          language: language.code,
+          status: 'completed',
+          result: glossary
+        });
+      } else if (feature === 'conceptMap') {
+        const { result: conceptMap } = await this.generationCache.getOrGenerate(
+          {
+            feature: 'conceptMap',
+            source: studySource,
+            promptVersion: this.conceptMapsService.promptVersion,
+            topic: file.fileName,
+            options: { language: language.code, pageChunkSize: this.conceptMapsService.pageChunkSize }
+          },
+          topic => this.conceptMapsService.generateConceptMap(studySource, topic, language)
+        );
+        await this.studySetsService.upsertAiResult({
+          job,
+          fileId: file.fileId,
+          fileName: file.fileName,
+          feature: 'conceptMap',
+          language: language.code,
           status: 'completed',
-          result: quiz
+          result: conceptMap
         });
-        return;
       }
       this.logger.log(`Completed ${feature} for ${file.fileName}`);
     } catch (error) {
@@ -196,6 +447,7 @@ export class AiJobsProcessorService {
         fileId: file.fileId,
         fileName: file.fileName,
         feature: feature as any,
+        language: language.code,
         status: 'failed',
         error: message
       });
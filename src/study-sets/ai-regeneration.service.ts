@@ -0,0 +1,265 @@
+import { BadRequestException, Injectable, InternalServerErrorException, Logger, NotFoundException } from '@nestjs/common';
+import { StudySetsService } from './study-sets.service';
+import { AiProcessFileSnapshot } from './schemas/study-set-ai-job.schema';
+import { DocumentProcessingService } from './document-processing.service';
+import { SummariesService, StructuredSummary } from '../summaries/summaries.service';
+import {
+  Flashcard,
+  FlashcardsService,
+  parseFlashcardId,
+  RegeneratedFlashcardResponse
+} from '../flashcards/flashcards.service';
+import { buildClozeDeletions, parseClozeItemId } from '../flashcards/cloze';
+import { QuizzesService } from '../quizzes/quizzes.service';
+import { normalizeQuizQuestion, QuizQuestion } from '../quizzes/quiz-questions';
+import { normalizeOutputLanguage } from '../ai/output-language';
+import { ItemRevision, reviseItem } from '../ai/revision-history';
+import { GroundingService, ItemGrounding } from '../grounding/grounding.service';
+import { attachItemPageCitations, PageCitation } from '../ai/page-citations';
+import { UsageService } from '../usage/usage.service';
+
+/**
+ * Replaces single generated items (a flashcard, a quiz question, a summary key
+ * point) using the source the item was generated from. The replaced version is
+ * kept in the item's history.
+ */
+@Injectable()
+export class AiRegenerationService {
+  private readonly logger = new Logger(AiRegenerationService.name);
+
+  constructor(
+    private readonly studySetsService: StudySetsService,
+    private readonly summariesService: SummariesService,
+    private readonly flashcardsService: FlashcardsService,
+    private readonly quizzesService: QuizzesService,
+    private readonly documentProcessing: DocumentProcessingService,
+    private readonly groundingService: GroundingService,
+    private readonly usageService: UsageService
+  ) {}
+
+  async regenerateFlashcard(
+    userId: string,
+    flashcardId: string,
+    note?: string
+  ): Promise<RegeneratedFlashcardResponse> {
+    // Review items of a cloze card regenerate the card they belong to.
+    const { cardId } = parseClozeItemId(flashcardId);
+    const parsedId = parseFlashcardId(cardId);
+    if (!parsedId) {
+      throw new BadRequestException('Invalid flashcard ID format');
+    }
+
+    const { studySetId, fileId, language, index } = parsedId;
+    const { aiResult, file } = await this.studySetsService.getRegenerationContext(userId, {
+      studySetId,
+      fileId,
+      feature: 'flashcards',
+      language,
+      exactLanguage: true
+    });
+
+    const resultData = aiResult.result as { flashcards?: Flashcard[] } | null;
+    const flashcards = Array.isArray(resultData?.flashcards) ? resultData.flashcards : [];
+    const card = flashcards[index];
+    if (!card) {
+      throw new NotFoundException('Flashcard not found');
+    }
+
+    const { source, replacement } = await this.usageService.track({ userId, studySetId }, async () => {
+      const loaded = await this.loadSource(file);
+      const regenerated = await this.flashcardsService.regenerateFlashcard(
+        loaded.text,
+        card,
+        note,
+        normalizeOutputLanguage(aiResult.language) ?? undefined
+      );
+      return { source: loaded, replacement: regenerated.card };
+    });
+    if (replacement.clozes) {
+      // Deletions that survive keep their index, and with it their review progress.
+      replacement.clozes = buildClozeDeletions(replacement.clozes, card.clozes);
+    }
+
+    const editedAt = new Date();
+    const updated = reviseItem(
+      card,
+      {
+        ...replacement,
+        originalPrompt: card.originalPrompt ?? card.prompt,
+        originalAnswer: card.originalAnswer ?? card.answer,
+        originalFollowUp: card.originalFollowUp ?? card.followUp,
+        isEdited: true,
+        editedAt
+      },
+      note
+    );
+    flashcards[index] = updated;
+    aiResult.result = this.groundingService.groundItem(
+      'flashcards',
+      { ...resultData, flashcards },
+      updated,
+      source.text,
+      { source: source.language, output: aiResult.language }
+    );
+    attachItemPageCitations(updated, source.text, file.pageImageKeys);
+    aiResult.markModified('result');
+    await aiResult.save();
+    this.logger.log(`Regenerated flashcard ${cardId}`);
+
+    return {
+      id: cardId,
+      studySetId,
+      fileId,
+      sourceFile: aiResult.fileName,
+      language: aiResult.language ?? null,
+      type: updated.type ?? 'basic',
+      clozeText: updated.clozeText ?? null,
+      clozes: updated.clozes?.map(cloze => ({ ...cloze, hint: cloze.hint ?? null })) ?? null,
+      prompt: updated.prompt,
+      answer: updated.answer,
+      followUp: updated.followUp,
+      difficulty: updated.difficulty,
+      isEdited: true,
+      editedAt: editedAt.toISOString(),
+      history: updated.history ?? [],
+      grounding: updated.grounding ?? null,
+      sourcePages: updated.sourcePages ?? []
+    };
+  }
+
+  async regenerateQuizQuestion(
+    userId: string,
+    studySetId: string,
+    fileId: string,
+    index: number,
+    note?: string,
+    language?: string
+  ): Promise<{ studySetId: string; fileId: string; language: string | null; index: number; question: QuizQuestion }> {
+    const { aiResult, file } = await this.studySetsService.getRegenerationContext(userId, {
+      studySetId,
+      fileId,
+      feature: 'quizzes',
+      language
+    });
+
+    const resultData = aiResult.result as { questions?: unknown[] } | null;
+    const questions = Array.isArray(resultData?.questions) ? resultData.questions.slice() : [];
+    if (index < 0 || index >= questions.length) {
+      throw new NotFoundException('Quiz question not found');
+    }
+    const question = normalizeQuizQuestion(questions[index]);
+    if (!question) {
+      throw new BadRequestException('This quiz question is malformed and cannot be regenerated.');
+    }
+
+    const { source, replacement } = await this.usageService.track({ userId, studySetId }, async () => {
+      const loaded = await this.loadSource(file);
+      const regenerated = await this.quizzesService.regenerateQuestion(
+        loaded.text,
+        question,
+        note,
+        normalizeOutputLanguage(aiResult.language) ?? undefined
+      );
+      return { source: loaded, replacement: regenerated.question };
+    });
+
+    // The replacement may use different answer-key fields, so only the history carries over.
+    const updated: QuizQuestion = { ...replacement, history: reviseItem(question, {}, note).history };
+    questions[index] = updated;
+    aiResult.result = this.groundingService.groundItem(
+      'quizzes',
+      { ...resultData, questions },
+      updated,
+      source.text,
+      { source: source.language, output: aiResult.language }
+    );
+    attachItemPageCitations(updated, source.text, file.pageImageKeys);
+    aiResult.markModified('result');
+    await aiResult.save();
+    this.logger.log(`Regenerated quiz question ${index} of ${fileId} in study set ${studySetId}`);
+
+    return { studySetId, fileId, language: aiResult.language ?? null, index, question: updated };
+  }
+
+  async regenerateSummaryKeyPoint(
+    userId: string,
+    studySetId: string,
+    fileId: string,
+    index: number,
+    note?: string,
+    language?: string
+  ): Promise<{
+    studySetId: string;
+    fileId: string;
+    language: string | null;
+    index: number;
+    heading: string;
+    detail: string;
+    history: ItemRevision[];
+    grounding: ItemGrounding | null;
+    sourcePages: PageCitation[];
+  }> {
+    const { aiResult, file } = await this.studySetsService.getRegenerationContext(userId, {
+      studySetId,
+      fileId,
+      feature: 'summary',
+      language
+    });
+
+    const resultData = aiResult.result as { summary?: StructuredSummary } | null;
+    const summary = resultData?.summary;
+    const keyPoints = Array.isArray(summary?.key_points) ? summary.key_points.slice() : [];
+    if (!summary || index < 0 || index >= keyPoints.length) {
+      throw new NotFoundException('Key point not found');
+    }
+
+    const { source, keyPoint } = await this.usageService.track({ userId, studySetId }, async () => {
+      const loaded = await this.loadSource(file);
+      const regenerated = await this.summariesService.regenerateKeyPoint(
+        loaded.text,
+        summary,
+        index,
+        note,
+        normalizeOutputLanguage(aiResult.language) ?? undefined
+      );
+      return { source: loaded, keyPoint: regenerated.keyPoint };
+    });
+
+    const updated = reviseItem(keyPoints[index], keyPoint, note);
+    keyPoints[index] = updated;
+    aiResult.result = this.groundingService.groundItem(
+      'summary',
+      { ...resultData, summary: { ...summary, key_points: keyPoints } },
+      updated,
+      source.text,
+      { source: source.language, output: aiResult.language }
+    );
+    attachItemPageCitations(updated, source.text, file.pageImageKeys);
+    aiResult.markModified('result');
+    await aiResult.save();
+    this.logger.log(`Regenerated key point ${index} of ${fileId} in study set ${studySetId}`);
+
+    return {
+      studySetId,
+      fileId,
+      language: aiResult.language ?? null,
+      index,
+      heading: updated.heading,
+      detail: updated.detail,
+      history: updated.history ?? [],
+      grounding: updated.grounding ?? null,
+      sourcePages: updated.sourcePages ?? []
+    };
+  }
+
+  private async loadSource(file: AiProcessFileSnapshot): Promise<{ text: string; language: string | null }> {
+    try {
+      const built = await this.documentProcessing.buildStudySource(file);
+      return { text: built.text, language: built.language ?? file.detectedLanguage ?? null };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to load source for ${file.fileName}: ${message}`);
+      throw new InternalServerErrorException('Unable to load the source document for regeneration.');
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { StudySetAiResult, StudySetAiResultDocument } from './schemas/study-set-ai-result.schema';
+
+/** Unique index from before results were stored per language; autoIndex never drops it. */
+const LEGACY_RESULT_INDEX = 'studySet_1_fileId_1_feature_1';
+const INDEX_NOT_FOUND = 27;
+
+/**
+ * Drops the unique index from before per-language results on startup, since it
+ * rejects a second language for the same file and feature. Results without a
+ * language keep it unset: lookups treat them as English for every en-* tag.
+ * Dropping is idempotent, so the API and the worker can run it side by side.
+ */
+@Injectable()
+export class AiResultMigrationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(AiResultMigrationService.name);
+
+  constructor(
+    @InjectModel(StudySetAiResult.name)
+    private readonly aiResultModel: Model<StudySetAiResultDocument>
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      await this.dropLegacyIndex();
+    } catch (error) {
+      this.logger.error('AI result migration failed:', error as Error);
+    }
+  }
+
+  private async dropLegacyIndex(): Promise<void> {
+    const indexes = await this.aiResultModel.collection.indexes().catch(() => []);
+    if (!indexes.some(index => index.name === LEGACY_RESULT_INDEX)) {
+      return;
+    }
+    try {
+      await this.aiResultModel.collection.dropIndex(LEGACY_RESULT_INDEX);
+      this.logger.log(`Dropped legacy index ${LEGACY_RESULT_INDEX}.`);
+    } catch (error) {
+      if ((error as { code?: number }).code !== INDEX_NOT_FOUND) {
+        throw error;
+      }
+    }
+    await this.aiResultModel.createIndexes();
+  }
+}
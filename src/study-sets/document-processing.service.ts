@@ -1,15 +1,38 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
-import { createCanvas, ImageData, Path2D, type Canvas } from '@napi-rs/canvas';
-import { randomUUID } from 'crypto';
+import { createCanvas, ImageData, loadImage, Path2D, type Canvas } from '@napi-rs/canvas';
+import { createHash, randomUUID } from 'crypto';
 import { execFile } from 'child_process';
 import { promises as fs } from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { promisify } from 'util';
 import { R2StorageService } from '../storage/r2-storage.service';
+import { LlmService } from '../llm/llm.service';
 import { AiProcessFileSnapshot } from './schemas/study-set-ai-job.schema';
+import { ParsedDocument, ParsedImage } from './parsers/parsed-document';
+import { parseDocx } from './parsers/docx-parser';
+import { parsePptx } from './parsers/pptx-parser';
+import { parseHtml, parseMarkdown, parsePlainText } from './parsers/text-parser';
+import { computePdfPageHashes } from './parsers/pdf-page-hash';
+import {
+  computeLetterRatio,
+  computeShortTokenRatio,
+  DetectedLanguage,
+  detectLanguage
+} from './parsers/language-detection';
+import { resolveStudySetFileKind, StudySetFileKind } from './study-set-file-types';
+import {
+  CachedDocumentExtraction,
+  CachedPageExtraction,
+  PageExtractionCacheService
+} from './page-extraction-cache.service';
+import {
+  ExtractionClassificationSource,
+  ExtractionDocumentType,
+  ExtractionPageReport,
+  ExtractionReport
+} from './schemas/study-set-extraction-report.schema';
 
 const execFileAsync = promisify(execFile);
 const globalCanvas = globalThis as any;
@@ -22,11 +45,37 @@ if (!globalCanvas.Path2D) {
 const pdfjs = require('pdfjs-dist') as typeof import('pdfjs-dist');
 const { getDocument, ImageKind, OPS } = pdfjs;
 
+const EXTRACTION_CACHE_VERSION = 2;
+
+type VisionMode = 'diagram' | 'transcribe';
+
+export interface StudySource {
+  text: string;
+  report: ExtractionReport | null;
+  language: string | null;
+}
+
 interface PageExtraction {
   pageNumber: number;
   text: string;
   needsVision: boolean;
   visionSummary?: string | null;
+  pageHash: string | null;
+  report: ExtractionPageReport;
+}
+
+interface DocumentExtraction {
+  documentType: ExtractionDocumentType;
+  classificationSource: ExtractionClassificationSource;
+  language: string | null;
+  pages: PageExtraction[];
+}
+
+interface SourceBuffers {
+  buffers: Buffer[];
+  /** Uploaded page images of a PDF by page number; null where the download failed. */
+  pageImages: Map<number, Buffer | null>;
+  contentHash: string;
 }
 
 interface OcrResult {
@@ -57,7 +106,10 @@ interface PageMeta {
   imageAreaRatio: number;
   vectorOps: number;
   visionSummary?: string | null;
+  visionMode?: VisionMode;
   duplicateOf?: number | null;
+  pageHash?: string | null;
+  fromCache?: boolean;
 }
 
 interface TextSnapshot {
@@ -67,6 +119,12 @@ interface TextSnapshot {
   alphaRatio: number;
 }
 
+interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
 interface Hash64 {
   hi: number;
   lo: number;
@@ -94,12 +152,12 @@ class NodeCanvasFactory {
 @Injectable()
 export class DocumentProcessingService {
   private readonly logger = new Logger(DocumentProcessingService.name);
-  private readonly openai: OpenAI | null;
-  private readonly openAiModel: string;
   private readonly ocrDpi: number;
   private readonly ocrMaxWidth: number;
   private readonly ocrJpegQuality: number;
   private readonly ocrLanguage: string;
+  private readonly ocrDetectionLanguages: string;
+  private readonly languageDetectionMinLetters: number;
   private readonly slidesSamplePages: number;
   private readonly slidesTextThreshold: number;
   private readonly slidesImageRatio: number;
@@ -130,20 +188,27 @@ export class DocumentProcessingService {
   private readonly visionPageTimeoutMs: number;
   private readonly visionRequestTimeoutMs: number;
   private readonly slidesOcrThreshold: number;
+  private readonly sectionMaxChars: number;
+  private readonly photoOcrMaxWidth: number;
+  private readonly photoDeskewMaxAngle: number;
+  private readonly visionTranscriptionMaxTokens: number;
+  private readonly settingsFingerprint: string;
   private tesseractChecked = false;
   private tesseractAvailable = true;
+  private tesseractLanguages: Set<string> | null = null;
 
   constructor(
     private readonly storage: R2StorageService,
-    private readonly config: ConfigService
+    private readonly config: ConfigService,
+    private readonly extractionCache: PageExtractionCacheService,
+    private readonly llm: LlmService
   ) {
-    const apiKey = this.config.get<string>('OPENAI_API_KEY');
-    this.openAiModel = this.config.get<string>('OPENAI_MODEL') ?? 'gpt-4o-mini';
-    this.openai = apiKey ? new OpenAI({ apiKey }) : null;
     this.ocrDpi = this.readNumber('OCR_DPI', 150);
     this.ocrMaxWidth = this.readNumber('OCR_MAX_WIDTH', 1400);
     this.ocrJpegQuality = this.readNumber('OCR_JPEG_QUALITY', 0.75);
     this.ocrLanguage = this.config.get<string>('OCR_LANGUAGE') ?? 'eng';
+    this.ocrDetectionLanguages = this.config.get<string>('OCR_DETECTION_LANGUAGES') ?? 'eng+spa+fra+deu+rus+ell+hin';
+    this.languageDetectionMinLetters = this.readNumber('LANGUAGE_DETECTION_MIN_LETTERS', 40);
     this.slidesSamplePages = this.readNumber('SLIDES_SAMPLE_PAGES', 3);
     this.slidesTextThreshold = this.readNumber('SLIDES_TEXT_THRESHOLD', 200);
     this.slidesImageRatio = this.readNumber('SLIDES_IMAGE_RATIO', 0.7);
@@ -176,26 +241,59 @@ export class DocumentProcessingService {
     this.visionPageTimeoutMs = this.readNumber('VISION_PAGE_TIMEOUT_MS', 20000);
     this.visionRequestTimeoutMs = this.readNumber('VISION_REQUEST_TIMEOUT_MS', 45000);
     this.slidesOcrThreshold = this.readNumber('SLIDES_OCR_THRESHOLD', 80);
+    this.sectionMaxChars = this.readNumber('DOCUMENT_SECTION_MAX_CHARS', 4000);
+    this.photoOcrMaxWidth = this.readNumber('PHOTO_OCR_MAX_WIDTH', 2000);
+    this.photoDeskewMaxAngle = this.readNumber('PHOTO_DESKEW_MAX_ANGLE', 15);
+    this.visionTranscriptionMaxTokens = this.readNumber('VISION_TRANSCRIPTION_MAX_TOKENS', 1200);
+    this.settingsFingerprint = this.computeSettingsFingerprint();
     const pdfjsRoot = path.dirname(require.resolve('pdfjs-dist/package.json'));
     this.standardFontDataUrl = path.join(pdfjsRoot, 'standard_fonts/');
   }
 
-  async buildStudySource(file: AiProcessFileSnapshot): Promise<string> {
+  async buildStudySource(file: AiProcessFileSnapshot): Promise<StudySource> {
+    if (file.textContent?.trim()) {
+      return this.buildTextStudySource(file.textContent);
+    }
+
+    const kind = this.resolveKind(file);
+    return this.toStudySource(kind, file, await this.extractPages(kind, file));
+  }
+
+  /**
+   * The study source as far as it can be built without extracting anything:
+   * pasted text, or a file whose extraction is cached. Null when the file
+   * would have to go through OCR or vision again.
+   */
+  async findCachedStudySource(file: AiProcessFileSnapshot): Promise<StudySource | null> {
     if (file.textContent?.trim()) {
-      return file.textContent.trim();
+      return this.buildTextStudySource(file.textContent);
     }
 
+    const kind = this.resolveKind(file);
+    const { contentHash } = await this.loadSourceBuffers(kind, file);
+    const cached = await this.extractionCache.findDocument(contentHash, this.settingsFingerprint);
+    return cached ? this.toStudySource(kind, file, this.fromCachedExtraction(cached)) : null;
+  }
+
+  private buildTextStudySource(textContent: string): StudySource {
+    const text = textContent.trim();
+    return { text, report: null, language: detectLanguage(text, this.languageDetectionMinLetters)?.code ?? null };
+  }
+
+  private resolveKind(file: AiProcessFileSnapshot): StudySetFileKind {
     if (!file.storageKey) {
       throw new Error(`Missing storage key for ${file.fileName}`);
     }
 
-    if (file.extension !== 'pdf') {
+    const kind = resolveStudySetFileKind(file.extension);
+    if (!kind) {
       throw new Error(`Unsupported file type ${file.extension} for ${file.fileName}`);
     }
+    return kind;
+  }
 
-    const buffer = await this.storage.getObjectBuffer(file.storageKey);
-    const pages = await this.extractPdfPages(buffer);
-    const combined = pages
+  private toStudySource(kind: StudySetFileKind, file: AiProcessFileSnapshot, extraction: DocumentExtraction): StudySource {
+    const combined = extraction.pages
       .map(page => this.formatPageText(page))
       .join('\n\n')
       .trim();
@@ -204,10 +302,238 @@ export class DocumentProcessingService {
       throw new Error(`No text could be extracted from ${file.fileName}`);
     }
 
-    return combined;
+    const pages = extraction.pages.map(page => page.report);
+    return {
+      text: combined,
+      language: extraction.language,
+      report: {
+        fileKind: kind,
+        documentType: extraction.documentType,
+        classificationSource: extraction.classificationSource,
+        language: extraction.language,
+        pageCount: pages.length,
+        visionPages: pages.filter(page => page.hasVisionCaption).length,
+        cachedPages: pages.filter(page => page.fromCache).length,
+        pages
+      }
+    };
+  }
+
+  private async loadSourceBuffers(
+    kind: StudySetFileKind,
+    file: AiProcessFileSnapshot
+  ): Promise<SourceBuffers> {
+    const buffers: Buffer[] = [];
+    for (const key of this.resolveSourceKeys(kind, file)) {
+      buffers.push(await this.storage.getObjectBuffer(key));
+    }
+    // Uploaded page images feed OCR and vision for PDFs and are replaced on re-upload under the same keys,
+    // so their bytes are part of the content hash.
+    const pageImages =
+      kind === 'pdf' ? await this.loadPageImages(file.pageImageKeys ?? []) : new Map<number, Buffer | null>();
+    return { buffers, pageImages, contentHash: this.computeContentHash(kind, buffers, pageImages) };
   }
 
-  private async extractPdfPages(buffer: Buffer): Promise<PageExtraction[]> {
+  private async loadPageImages(
+    pageImageKeys: Array<{ pageNumber: number; storageKey: string }>
+  ): Promise<Map<number, Buffer | null>> {
+    const pageImages = new Map<number, Buffer | null>();
+    await this.mapWithConcurrency(pageImageKeys, this.pageAnalysisConcurrency, async ({ pageNumber, storageKey }) => {
+      const image = await this.storage.getObjectBuffer(storageKey).catch(error => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Pre-rendered image for page ${pageNumber} unavailable: ${message}`);
+        return null;
+      });
+      pageImages.set(pageNumber, image);
+    });
+    return pageImages;
+  }
+
+  private async extractPages(kind: StudySetFileKind, file: AiProcessFileSnapshot): Promise<DocumentExtraction> {
+    const { buffers, pageImages, contentHash } = await this.loadSourceBuffers(kind, file);
+    const cached = await this.extractionCache.findDocument(contentHash, this.settingsFingerprint);
+    if (cached && cached.pages.every(page => this.isReusableCachedPage(page))) {
+      this.logger.log(`Reusing cached extraction for ${file.fileName} (${cached.pages.length} pages).`);
+      return this.fromCachedExtraction(cached);
+    }
+
+    const extraction = await this.extractUncachedPages(kind, buffers, pageImages);
+    await this.extractionCache.saveDocument(contentHash, this.settingsFingerprint, {
+      documentType: extraction.documentType,
+      classificationSource: extraction.classificationSource,
+      language: extraction.language,
+      pages: extraction.pages.map(page => ({
+        pageNumber: page.pageNumber,
+        pageHash: page.pageHash,
+        text: page.text,
+        ocrConfidence: page.report.ocrConfidence,
+        needsVision: page.needsVision,
+        needsVisionReason: page.report.needsVisionReason,
+        visionSummary: page.visionSummary ?? null,
+        report: page.report
+      }))
+    });
+    return extraction;
+  }
+
+  private fromCachedExtraction(cached: CachedDocumentExtraction): DocumentExtraction {
+    return {
+      documentType: cached.documentType,
+      classificationSource: cached.classificationSource,
+      language: cached.language,
+      pages: cached.pages.map(page => ({
+        pageNumber: page.pageNumber,
+        text: page.text,
+        needsVision: page.needsVision,
+        visionSummary: page.visionSummary,
+        pageHash: page.pageHash,
+        report: this.toCachedPageReport(page)
+      }))
+    };
+  }
+
+  private resolveSourceKeys(kind: StudySetFileKind, file: AiProcessFileSnapshot): string[] {
+    if (kind === 'image') {
+      const photoKeys = (file.pageImageKeys ?? [])
+        .slice()
+        .sort((a, b) => a.pageNumber - b.pageNumber)
+        .map(item => item.storageKey);
+      if (photoKeys.length) {
+        return photoKeys;
+      }
+    }
+    return [file.storageKey as string];
+  }
+
+  private async extractUncachedPages(
+    kind: StudySetFileKind,
+    buffers: Buffer[],
+    pageImages: Map<number, Buffer | null>
+  ): Promise<DocumentExtraction> {
+    const [buffer] = buffers;
+    switch (kind) {
+      case 'pdf':
+        return this.extractPdfPages(buffer, pageImages);
+      case 'docx':
+        return this.extractParsedDocumentPages(await parseDocx(buffer, this.sectionMaxChars));
+      case 'pptx':
+        return this.extractParsedDocumentPages(await parsePptx(buffer));
+      case 'markdown':
+        return this.extractParsedDocumentPages(parseMarkdown(buffer, this.sectionMaxChars));
+      case 'html':
+        return this.extractParsedDocumentPages(parseHtml(buffer, this.sectionMaxChars));
+      case 'text':
+        return this.extractParsedDocumentPages(parsePlainText(buffer, this.sectionMaxChars));
+      case 'image':
+        return this.extractPhotoPages(buffers);
+    }
+  }
+
+  private toCachedPageReport(page: CachedPageExtraction): ExtractionPageReport {
+    const report = page.report ?? {
+      pageNumber: page.pageNumber,
+      textChars: page.text.length,
+      nativeTextChars: 0,
+      alphaRatio: computeLetterRatio(page.text),
+      ocrTextLen: page.text.length,
+      ocrConfidence: page.ocrConfidence,
+      shortTokenRatio: computeShortTokenRatio(page.text),
+      imageCount: 0,
+      imageAreaRatio: 0,
+      vectorOps: 0,
+      duplicateOf: null,
+      needsVision: page.needsVision,
+      needsVisionReason: page.needsVisionReason ?? 'cached',
+      visionRankScore: 0,
+      hasVisionCaption: Boolean(page.needsVision && page.visionSummary),
+      fromCache: true
+    };
+    return { ...report, pageNumber: page.pageNumber, fromCache: true };
+  }
+
+  private isReusableCachedPage(page: CachedPageExtraction): boolean {
+    // Pages cached while vision was unavailable or failed should get another
+    // chance at a caption once it works again.
+    return !(this.llm.isAvailable() && page.needsVision && !page.visionSummary);
+  }
+
+  private computeContentHash(
+    kind: StudySetFileKind,
+    buffers: Buffer[],
+    pageImages: Map<number, Buffer | null>
+  ): string {
+    const hash = createHash('sha256').update(kind);
+    buffers.forEach(buffer => {
+      hash.update(`|${buffer.length}|`);
+      hash.update(buffer);
+    });
+    [...pageImages]
+      .sort(([a], [b]) => a - b)
+      .forEach(([pageNumber, image]) => {
+        hash.update(`|page ${pageNumber}:${image ? this.hashBuffer(image) : 'missing'}|`);
+      });
+    return hash.digest('hex');
+  }
+
+  private hashBuffer(buffer: Buffer): string {
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+
+  private computeSettingsFingerprint(): string {
+    const settings = {
+      version: EXTRACTION_CACHE_VERSION,
+      visionProvider: this.llm.providerName,
+      visionModel: this.llm.modelFor('vision'),
+      ocrDpi: this.ocrDpi,
+      ocrMaxWidth: this.ocrMaxWidth,
+      ocrJpegQuality: this.ocrJpegQuality,
+      ocrLanguage: this.ocrLanguage,
+      ocrDetectionLanguages: this.ocrDetectionLanguages,
+      languageDetectionMinLetters: this.languageDetectionMinLetters,
+      slidesSamplePages: this.slidesSamplePages,
+      slidesTextThreshold: this.slidesTextThreshold,
+      slidesImageRatio: this.slidesImageRatio,
+      slidesOcrThreshold: this.slidesOcrThreshold,
+      diagramTextThreshold: this.diagramTextThreshold,
+      diagramMediumThreshold: this.diagramMediumThreshold,
+      diagramConfidenceThreshold: this.diagramConfidenceThreshold,
+      diagramShortTokenThreshold: this.diagramShortTokenThreshold,
+      strongTextCharThreshold: this.strongTextCharThreshold,
+      strongTextAlphaRatio: this.strongTextAlphaRatio,
+      nativeTextOcrThreshold: this.nativeTextOcrThreshold,
+      textWinsCharThreshold: this.textWinsCharThreshold,
+      textWinsAlphaRatio: this.textWinsAlphaRatio,
+      visionImageAreaRatioThreshold: this.visionImageAreaRatioThreshold,
+      visionVectorOpsThreshold: this.visionVectorOpsThreshold,
+      visionMinImageCount: this.visionMinImageCount,
+      visionMaxPages: this.visionMaxPages,
+      visionMaxImages: this.visionMaxImages,
+      visionMaxImageWidth: this.visionMaxImageWidth,
+      visionImageQuality: this.visionImageQuality,
+      visionMinImagePixels: this.visionMinImagePixels,
+      dedupeSimilarity: this.dedupeSimilarity,
+      dedupeEnabled: this.dedupeEnabled,
+      sectionMaxChars: this.sectionMaxChars,
+      photoOcrMaxWidth: this.photoOcrMaxWidth,
+      photoDeskewMaxAngle: this.photoDeskewMaxAngle,
+      visionTranscriptionMaxTokens: this.visionTranscriptionMaxTokens
+    };
+    return createHash('sha256').update(JSON.stringify(settings)).digest('hex').slice(0, 32);
+  }
+
+  private async extractPdfPages(
+    buffer: Buffer,
+    pageImages: Map<number, Buffer | null>
+  ): Promise<DocumentExtraction> {
+    const usedPageImages = new Set<number>();
+    const loadPageImage = (pageNumber: number): Buffer | null => {
+      const image = pageImages.get(pageNumber) ?? null;
+      if (image) {
+        usedPageImages.add(pageNumber);
+      }
+      return image;
+    };
+
     const loadingTask = getDocument({
       data: new Uint8Array(buffer),
       standardFontDataUrl: this.standardFontDataUrl
@@ -224,7 +550,7 @@ export class DocumentProcessingService {
           pageNumber,
           extractedText,
           nativeTextChars: extractedText.length,
-          alphaRatio: this.computeAlphaRatio(extractedText)
+          alphaRatio: computeLetterRatio(extractedText)
         };
       }
     );
@@ -233,7 +559,34 @@ export class DocumentProcessingService {
     this.logger.log(`Document classified as ${docType} (${pdf.numPages} pages).`);
 
     const snapshotByPage = new Map(textSnapshots.map(item => [item.pageNumber, item]));
+    // A page rendered from an uploaded image is only the same page when the image is the same too.
+    const pageHashes = (await this.computePageHashes(buffer, pdf.numPages)).map((pageHash, index) => {
+      const image = pageImages.get(index + 1);
+      return pageHash && image ? createHash('sha256').update(`${pageHash}|`).update(image).digest('hex') : pageHash;
+    });
     const ocrThreshold = docType === 'slides' ? this.slidesOcrThreshold : this.nativeTextOcrThreshold;
+    const ocrSamplePage = pageNumbers.find(
+      pageNumber => (snapshotByPage.get(pageNumber)?.nativeTextChars ?? 0) < ocrThreshold
+    );
+    const language = await this.detectDocumentLanguage(
+      textSnapshots.map(item => item.extractedText).join('\n'),
+      ocrSamplePage
+        ? async languages => {
+            const preRendered = loadPageImage(ocrSamplePage);
+            const rendered =
+              (preRendered && (await this.prepareRenderedPageImage(preRendered))) ||
+              (await this.renderPageForOcr(await pdf.getPage(ocrSamplePage)));
+            return (await this.runOcr(rendered.buffer, languages)).text;
+          }
+        : null
+    );
+    const ocrLanguages = await this.resolveOcrLanguages(language);
+    // Cached pages are only reused when classified and OCR'd the same way as this document.
+    const cachedPages = await this.extractionCache.findPagesByHash(
+      this.settingsFingerprint,
+      { documentType: docType, language: language?.code ?? null },
+      pageHashes.filter((hash): hash is string => Boolean(hash))
+    );
     const pagesWithHashes: Array<PageMeta & { hash?: Hash64 | null; allowDedupe?: boolean }> =
       await this.mapWithConcurrency(pageNumbers, this.pageAnalysisConcurrency, async pageNumber => {
         const snapshot = snapshotByPage.get(pageNumber);
@@ -241,6 +594,12 @@ export class DocumentProcessingService {
           throw new Error(`Missing text snapshot for page ${pageNumber}`);
         }
 
+        const pageHash = pageHashes[pageNumber - 1];
+        const cached = pageHash ? cachedPages.get(pageHash) : undefined;
+        if (cached && this.isReusableCachedPage(cached)) {
+          return { ...this.fromCachedPage(cached, pageNumber, snapshot), hash: null, allowDedupe: false };
+        }
+
         const { extractedText, nativeTextChars, alphaRatio } = snapshot;
         const strongTextWins =
           nativeTextChars >= this.strongTextCharThreshold &&
@@ -251,7 +610,7 @@ export class DocumentProcessingService {
         const shouldOcr = !strongTextWins && nativeTextChars < ocrThreshold;
         let ocrText = extractedText;
         let ocrConfidence: number | null = null;
-        let shortTokenRatio = this.computeShortTokenRatio(ocrText);
+        let shortTokenRatio = computeShortTokenRatio(ocrText);
         let media = { imageCount: 0, imageAreaRatio: 0, vectorOps: 0 };
         let hash: Hash64 | null = null;
 
@@ -262,9 +621,12 @@ export class DocumentProcessingService {
           }
 
           if (shouldOcr) {
-            const rendered = await this.renderPageForOcr(page);
+            const preRendered = loadPageImage(pageNumber);
+            const rendered =
+              (preRendered && (await this.prepareRenderedPageImage(preRendered))) ||
+              (await this.renderPageForOcr(page));
             hash = this.computeDhash(rendered.imageData, rendered.width, rendered.height);
-            const ocr = await this.runOcr(rendered.buffer);
+            const ocr = await this.runOcr(rendered.buffer, ocrLanguages);
             ocrText = ocr.text || extractedText;
             ocrConfidence = ocr.confidence;
             shortTokenRatio = ocr.shortTokenRatio;
@@ -331,6 +693,7 @@ export class DocumentProcessingService {
           imageAreaRatio: media.imageAreaRatio,
           vectorOps: media.vectorOps,
           duplicateOf: null,
+          pageHash,
           hash,
           allowDedupe: this.dedupeEnabled && this.isSafeToDedupe(nativeTextChars, media)
         };
@@ -356,18 +719,378 @@ export class DocumentProcessingService {
 
     const duplicateCount = pages.filter(page => page.duplicateOf).length;
     const visionCount = pages.filter(page => page.needsVision).length;
+    const cachedCount = pages.filter(page => page.fromCache).length;
     this.logger.log(
-      `OCR completed. Vision duplicates: ${duplicateCount}. Vision needed: ${visionCount}.`
+      `OCR completed. Cached pages: ${cachedCount}. Vision duplicates: ${duplicateCount}. Vision needed: ${visionCount}.`
     );
 
-    await this.applyVisionCaptions(pdf, pages);
+    await this.applyVisionCaptions(pages, pdf.numPages, async pageMeta => {
+      const preRendered = loadPageImage(pageMeta.pageNumber);
+      const decoded = preRendered ? await this.decodeImage(preRendered, this.visionMaxImageWidth) : null;
+      return decoded ? [decoded] : this.extractPageImages(await pdf.getPage(pageMeta.pageNumber));
+    });
+    if (usedPageImages.size) {
+      this.logger.log(`Used pre-rendered images for ${usedPageImages.size} page(s).`);
+    }
+
+    return {
+      documentType: docType,
+      classificationSource: 'heuristic',
+      language: language?.code ?? null,
+      pages: pages.map(page => this.toPageExtraction(page))
+    };
+  }
+
+  private async computePageHashes(buffer: Buffer, pageCount: number): Promise<Array<string | null>> {
+    try {
+      const hashes = await computePdfPageHashes(buffer);
+      if (hashes.length === pageCount) {
+        return hashes;
+      }
+      this.logger.warn(`Page hash count ${hashes.length} does not match page count ${pageCount}.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Page hashing failed: ${message}`);
+    }
+    return Array.from({ length: pageCount }, () => null);
+  }
+
+  private fromCachedPage(cached: CachedPageExtraction, pageNumber: number, snapshot: TextSnapshot): PageMeta {
+    this.logger.log(`Page ${pageNumber} reused from extraction cache (${cached.needsVisionReason ?? 'cached'}).`);
+    const report = cached.report;
+    return {
+      pageNumber,
+      text: cached.text,
+      nativeTextChars: snapshot.nativeTextChars,
+      alphaRatio: snapshot.alphaRatio,
+      ocrTextLen: cached.text.length,
+      ocrConfidence: cached.ocrConfidence,
+      shortTokenRatio: report?.shortTokenRatio ?? computeShortTokenRatio(cached.text),
+      needsVision: cached.needsVision,
+      visionRankScore: report?.visionRankScore ?? 0,
+      needsVisionReason: cached.needsVisionReason ?? 'cached',
+      imageCount: report?.imageCount ?? 0,
+      imageAreaRatio: report?.imageAreaRatio ?? 0,
+      vectorOps: report?.vectorOps ?? 0,
+      visionSummary: cached.visionSummary,
+      duplicateOf: null,
+      pageHash: cached.pageHash,
+      fromCache: true
+    };
+  }
 
-    return pages.map(page => ({
+  private async extractParsedDocumentPages(document: ParsedDocument): Promise<DocumentExtraction> {
+    const language = await this.detectDocumentLanguage(document.pages.map(page => page.text).join('\n'), null);
+    const pages: PageMeta[] = [];
+    const usableImages = new Map<number, ParsedImage[]>();
+
+    for (const page of document.pages) {
+      const text = page.text.trim();
+      const images = await this.filterUsableImages(page.images);
+      usableImages.set(page.pageNumber, images);
+      const shortTokenRatio = computeShortTokenRatio(text);
+      const lowText = this.shouldUseVision(text.length, null, shortTokenRatio);
+      let needsVision = false;
+      let needsVisionReason = 'text-ok';
+
+      if (!page.images.length) {
+        needsVisionReason = 'no-images';
+      } else if (!images.length) {
+        needsVisionReason = 'image-too-small';
+      } else {
+        needsVision = true;
+        needsVisionReason = lowText ? 'image-heavy-low-text' : 'embedded-image';
+      }
+
+      this.logger.log(
+        `Page ${page.pageNumber} decision: textChars=${text.length}, imageCount=${images.length}, needsVision=${needsVision} (${needsVisionReason}).`
+      );
+
+      pages.push({
+        pageNumber: page.pageNumber,
+        text,
+        nativeTextChars: text.length,
+        alphaRatio: computeLetterRatio(text),
+        ocrTextLen: text.length,
+        ocrConfidence: null,
+        shortTokenRatio,
+        needsVision,
+        visionRankScore: this.computeVisionRankScore(images.length ? 1 : 0, text.length, null, shortTokenRatio, 0),
+        needsVisionReason,
+        imageCount: images.length,
+        imageAreaRatio: images.length ? 1 : 0,
+        vectorOps: 0,
+        duplicateOf: null
+      });
+    }
+
+    this.logger.log(`Document type ${document.docType} (${pages.length} pages).`);
+
+    await this.applyVisionCaptions(pages, pages.length, async pageMeta => {
+      const decoded = await Promise.all(
+        (usableImages.get(pageMeta.pageNumber) ?? []).map(image => this.decodeImage(image.buffer))
+      );
+      return decoded.filter((image): image is RasterImage => Boolean(image));
+    });
+
+    return {
+      documentType: document.docType,
+      classificationSource: 'format',
+      language: language?.code ?? null,
+      pages: pages.map(page => this.toPageExtraction(page))
+    };
+  }
+
+  private async extractPhotoPages(photos: Buffer[]): Promise<DocumentExtraction> {
+    const pageNumbers = photos.map((_, index) => index + 1);
+    const firstPrepared = photos.length ? await this.preparePhotoForOcr(photos[0]) : null;
+    const language = await this.detectDocumentLanguage(
+      '',
+      firstPrepared ? async languages => (await this.runOcr(firstPrepared.buffer, languages)).text : null
+    );
+    const ocrLanguages = await this.resolveOcrLanguages(language);
+    const pages = await this.mapWithConcurrency(pageNumbers, this.pageAnalysisConcurrency, async pageNumber => {
+      const prepared = pageNumber === 1 ? firstPrepared : await this.preparePhotoForOcr(photos[pageNumber - 1]);
+      const ocr = prepared
+        ? await this.runOcr(prepared.buffer, ocrLanguages)
+        : { text: '', confidence: null, shortTokenRatio: 0 };
+      const lowText = this.shouldUseVision(ocr.text.length, ocr.confidence, ocr.shortTokenRatio);
+      const needsVisionReason = !prepared ? 'decode-failed' : lowText ? 'low-ocr-confidence' : 'text-ok';
+
+      this.logger.log(
+        `Photo ${pageNumber} decision: skewAngle=${prepared?.skewAngle.toFixed(1) ?? 'n/a'}, ocrChars=${ocr.text.length}, ocrConfidence=${ocr.confidence?.toFixed(2) ?? 'n/a'}, needsVision=${Boolean(prepared) && lowText} (${needsVisionReason}).`
+      );
+
+      const page: PageMeta = {
+        pageNumber,
+        text: ocr.text,
+        nativeTextChars: 0,
+        alphaRatio: computeLetterRatio(ocr.text),
+        ocrTextLen: ocr.text.length,
+        ocrConfidence: ocr.confidence,
+        shortTokenRatio: ocr.shortTokenRatio,
+        needsVision: Boolean(prepared) && lowText,
+        visionRankScore: this.computeVisionRankScore(1, ocr.text.length, ocr.confidence, ocr.shortTokenRatio, 0),
+        needsVisionReason,
+        imageCount: prepared ? 1 : 0,
+        imageAreaRatio: prepared ? 1 : 0,
+        vectorOps: 0,
+        visionMode: 'transcribe',
+        duplicateOf: null
+      };
+      return page;
+    });
+
+    this.logger.log(`Document type photos (${pages.length} pages).`);
+
+    await this.applyVisionCaptions(pages, pages.length, async pageMeta => {
+      const decoded = await this.decodeImage(photos[pageMeta.pageNumber - 1], this.visionMaxImageWidth);
+      return decoded ? [decoded] : [];
+    });
+
+    pages.forEach(page => this.applyVisionTranscription(page));
+    return {
+      documentType: 'photos',
+      classificationSource: 'format',
+      language: language?.code ?? null,
+      pages: pages.map(page => this.toPageExtraction(page))
+    };
+  }
+
+  private async preparePhotoForOcr(buffer: Buffer): Promise<{ buffer: Buffer; skewAngle: number } | null> {
+    const image = await this.decodeImage(buffer, this.photoOcrMaxWidth);
+    if (!image) {
+      return null;
+    }
+
+    const { width, height, data } = image;
+    const gray = new Uint8ClampedArray(width * height);
+    const histogram = new Array<number>(256).fill(0);
+    for (let index = 0; index < gray.length; index += 1) {
+      const offset = index * 4;
+      const value = Math.round(0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]);
+      gray[index] = value;
+      histogram[value] += 1;
+    }
+
+    const low = this.histogramPercentile(histogram, gray.length, 0.01);
+    const high = this.histogramPercentile(histogram, gray.length, 0.99);
+    if (high - low >= 16) {
+      const scale = 255 / (high - low);
+      for (let index = 0; index < gray.length; index += 1) {
+        gray[index] = (gray[index] - low) * scale;
+      }
+    }
+
+    const skewAngle = this.estimateSkewAngle(gray, width, height);
+    const source = createCanvas(width, height);
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    for (let index = 0; index < gray.length; index += 1) {
+      const offset = index * 4;
+      rgba[offset] = gray[index];
+      rgba[offset + 1] = gray[index];
+      rgba[offset + 2] = gray[index];
+      rgba[offset + 3] = 255;
+    }
+    source.getContext('2d').putImageData(new ImageData(rgba, width, height), 0, 0);
+
+    if (Math.abs(skewAngle) < 0.25) {
+      return { buffer: source.toBuffer('image/jpeg', this.ocrJpegQuality), skewAngle };
+    }
+
+    const radians = (-skewAngle * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(radians));
+    const sin = Math.abs(Math.sin(radians));
+    const rotated = createCanvas(Math.ceil(width * cos + height * sin), Math.ceil(width * sin + height * cos));
+    const context = rotated.getContext('2d');
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, rotated.width, rotated.height);
+    context.translate(rotated.width / 2, rotated.height / 2);
+    context.rotate(radians);
+    context.drawImage(source, -width / 2, -height / 2);
+    return { buffer: rotated.toBuffer('image/jpeg', this.ocrJpegQuality), skewAngle };
+  }
+
+  private histogramPercentile(histogram: number[], total: number, percentile: number): number {
+    const target = total * percentile;
+    let seen = 0;
+    for (let value = 0; value < histogram.length; value += 1) {
+      seen += histogram[value];
+      if (seen >= target) {
+        return value;
+      }
+    }
+    return histogram.length - 1;
+  }
+
+  private estimateSkewAngle(gray: Uint8ClampedArray, width: number, height: number): number {
+    if (this.photoDeskewMaxAngle <= 0) {
+      return 0;
+    }
+
+    const step = Math.max(1, Math.floor(Math.max(width, height) / 800));
+    const points: Array<[number, number]> = [];
+    for (let y = 0; y < height; y += step) {
+      for (let x = 0; x < width; x += step) {
+        if (gray[y * width + x] < 110) {
+          points.push([x / step, y / step]);
+        }
+      }
+    }
+    const sampledArea = Math.ceil(width / step) * Math.ceil(height / step);
+    if (points.length < 200 || points.length > sampledArea * 0.5) {
+      return 0;
+    }
+
+    const diagonal = Math.ceil(Math.hypot(width, height) / step);
+    let bestAngle = 0;
+    let bestScore = -1;
+    for (let angle = -this.photoDeskewMaxAngle; angle <= this.photoDeskewMaxAngle; angle += 0.5) {
+      const radians = (angle * Math.PI) / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+      const rows = new Array<number>(diagonal * 2 + 1).fill(0);
+      for (const [x, y] of points) {
+        rows[Math.round(y * cos - x * sin) + diagonal] += 1;
+      }
+      let score = 0;
+      for (let index = 1; index < rows.length; index += 1) {
+        const delta = rows[index] - rows[index - 1];
+        score += delta * delta;
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        bestAngle = angle;
+      }
+    }
+    return bestAngle;
+  }
+
+  private applyVisionTranscription(page: PageMeta): void {
+    if (page.visionMode !== 'transcribe' || !page.visionSummary) {
+      return;
+    }
+
+    let parsed: { transcription?: unknown; labels?: unknown; relationships?: unknown };
+    try {
+      parsed = JSON.parse(page.visionSummary.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch {
+      return;
+    }
+
+    const transcription = typeof parsed.transcription === 'string' ? parsed.transcription.trim() : '';
+    if (transcription) {
+      page.text = transcription;
+    }
+    const labels = Array.isArray(parsed.labels) ? parsed.labels : [];
+    const relationships = Array.isArray(parsed.relationships) ? parsed.relationships : [];
+    if (labels.length || relationships.length) {
+      page.visionSummary = JSON.stringify({ labels, relationships });
+    } else {
+      page.visionSummary = null;
+    }
+  }
+
+  private toPageExtraction(page: PageMeta): PageExtraction {
+    return {
       pageNumber: page.pageNumber,
       text: page.text,
       needsVision: page.needsVision,
-      visionSummary: page.visionSummary ?? null
-    }));
+      visionSummary: page.visionSummary ?? null,
+      pageHash: page.pageHash ?? null,
+      report: {
+        pageNumber: page.pageNumber,
+        textChars: page.text.length,
+        nativeTextChars: page.nativeTextChars,
+        alphaRatio: page.alphaRatio,
+        ocrTextLen: page.ocrTextLen,
+        ocrConfidence: page.ocrConfidence,
+        shortTokenRatio: page.shortTokenRatio,
+        imageCount: page.imageCount,
+        imageAreaRatio: page.imageAreaRatio,
+        vectorOps: page.vectorOps,
+        duplicateOf: page.duplicateOf ?? null,
+        needsVision: page.needsVision,
+        needsVisionReason: page.needsVisionReason,
+        visionRankScore: page.visionRankScore,
+        hasVisionCaption: Boolean(page.needsVision && page.visionSummary),
+        fromCache: Boolean(page.fromCache)
+      }
+    };
+  }
+
+  private async filterUsableImages(images: ParsedImage[]): Promise<ParsedImage[]> {
+    const usable: ParsedImage[] = [];
+    for (const image of images) {
+      try {
+        const decoded = await loadImage(image.buffer);
+        if (decoded.width * decoded.height >= this.visionMinImagePixels) {
+          usable.push(image);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Skipping embedded ${image.contentType} image: ${message}`);
+      }
+    }
+    return usable;
+  }
+
+  private async decodeImage(buffer: Buffer, maxWidth = 0): Promise<RasterImage | null> {
+    try {
+      const image = await loadImage(buffer);
+      const scale = maxWidth > 0 && image.width > maxWidth ? maxWidth / image.width : 1;
+      const width = Math.max(1, Math.round(image.width * scale));
+      const height = Math.max(1, Math.round(image.height * scale));
+      const canvas = createCanvas(width, height);
+      const context = canvas.getContext('2d');
+      context.drawImage(image, 0, 0, width, height);
+      const { data } = context.getImageData(0, 0, width, height);
+      return { width, height, data: new Uint8ClampedArray(data) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Image decode failed: ${message}`);
+      return null;
+    }
   }
 
   private classifyDocumentFromText(textSnapshots: TextSnapshot[]): 'slides' | 'text' {
@@ -404,13 +1127,19 @@ export class DocumentProcessingService {
     return ratio >= this.slidesImageRatio ? 'slides' : 'text';
   }
 
-  private async applyVisionCaptions(pdf: any, pages: PageMeta[]): Promise<void> {
-    if (!this.openai) {
-      this.logger.warn('OpenAI API key missing. Skipping vision analysis.');
+  private async applyVisionCaptions(
+    pages: PageMeta[],
+    totalPages: number,
+    loadImages: (pageMeta: PageMeta) => Promise<RasterImage[]>
+  ): Promise<void> {
+    if (!this.llm.isAvailable()) {
+      this.logger.warn('No LLM provider configured. Skipping vision analysis.');
       return;
     }
 
-    const candidates = pages.filter(page => page.needsVision && !page.duplicateOf && page.imageCount > 0);
+    const candidates = pages.filter(
+      page => page.needsVision && !page.duplicateOf && !page.fromCache && page.imageCount > 0
+    );
     if (!candidates.length) {
       return;
     }
@@ -422,8 +1151,8 @@ export class DocumentProcessingService {
         .sort((a, b) => b.visionRankScore - a.visionRankScore)
         .slice(0, this.visionMaxPages);
       const selectedSet = new Set(selected.map(item => item.pageNumber));
-      pages.forEach(page => {
-        if (page.needsVision && !selectedSet.has(page.pageNumber)) {
+      candidates.forEach(page => {
+        if (!selectedSet.has(page.pageNumber)) {
           page.needsVision = false;
         }
       });
@@ -437,11 +1166,10 @@ export class DocumentProcessingService {
       this.logger.log(
         `Vision processing page ${pageMeta.pageNumber} (imageCount=${pageMeta.imageCount}, imageAreaRatio=${pageMeta.imageAreaRatio.toFixed(2)}, vectorOps=${pageMeta.vectorOps}).`
       );
-      const page = await pdf.getPage(pageMeta.pageNumber);
-      let images: Array<{ width: number; height: number; data: Uint8ClampedArray }> = [];
+      let images: RasterImage[] = [];
       try {
         images = await this.withTimeout(
-          this.extractPageImages(page),
+          loadImages(pageMeta),
           this.visionPageTimeoutMs,
           `extractPageImages page ${pageMeta.pageNumber}`
         );
@@ -463,7 +1191,8 @@ export class DocumentProcessingService {
         dataUrl,
         pageMeta.text,
         pageMeta.pageNumber,
-        pdf.numPages
+        totalPages,
+        pageMeta.visionMode ?? 'diagram'
       );
       this.logger.log(
         `Vision call completed for page ${pageMeta.pageNumber} in ${Date.now() - start}ms.`
@@ -523,6 +1252,22 @@ export class DocumentProcessingService {
     };
   }
 
+  private async prepareRenderedPageImage(buffer: Buffer): Promise<RenderedPage | null> {
+    const image = await this.decodeImage(buffer, this.ocrMaxWidth);
+    if (!image) {
+      return null;
+    }
+
+    const canvas = createCanvas(image.width, image.height);
+    canvas.getContext('2d').putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+    return {
+      buffer: canvas.toBuffer('image/jpeg', this.ocrJpegQuality),
+      width: image.width,
+      height: image.height,
+      imageData: image.data
+    };
+  }
+
   private async analyzePageMedia(
     page: any,
     timeoutMs: number
@@ -603,15 +1348,6 @@ export class DocumentProcessingService {
     };
   }
 
-  private computeAlphaRatio(text: string): number {
-    const compact = text.replace(/\s+/g, '');
-    if (!compact) {
-      return 0;
-    }
-    const letters = compact.match(/[A-Za-z]/g)?.length ?? 0;
-    return letters / compact.length;
-  }
-
   private async mapWithConcurrency<T, R>(
     items: T[],
     concurrency: number,
@@ -714,7 +1450,7 @@ export class DocumentProcessingService {
     }
   }
 
-  private async runOcr(imageBuffer: Buffer): Promise<OcrResult> {
+  private async runOcr(imageBuffer: Buffer, languages = this.ocrLanguage): Promise<OcrResult> {
     if (!(await this.ensureTesseractAvailable())) {
       return { text: '', confidence: null, shortTokenRatio: 0 };
     }
@@ -731,7 +1467,7 @@ export class DocumentProcessingService {
         '--psm',
         '6',
         '-l',
-        this.ocrLanguage,
+        languages,
         '-c',
         `user_defined_dpi=${this.ocrDpi}`,
         'tsv'
@@ -793,20 +1529,10 @@ export class DocumentProcessingService {
     return {
       text: rawText,
       confidence,
-      shortTokenRatio: this.computeShortTokenRatio(rawText)
+      shortTokenRatio: computeShortTokenRatio(rawText)
     };
   }
 
-  private computeShortTokenRatio(text: string): number {
-    const tokens = text.split(/\s+/).filter(Boolean);
-    if (!tokens.length) {
-      return 0;
-    }
-
-    const shortCount = tokens.filter(token => token.length <= 2).length;
-    return shortCount / tokens.length;
-  }
-
   private shouldUseVision(textLength: number, confidence: number | null, shortTokenRatio: number): boolean {
     if (textLength < this.diagramTextThreshold) {
       return true;
@@ -849,38 +1575,57 @@ export class DocumentProcessingService {
     imageDataUrl: string,
     extractedText: string,
     pageNumber: number,
-    totalPages: number
+    totalPages: number,
+    mode: VisionMode = 'diagram'
   ): Promise<string | null> {
     try {
-      const prompt = [
-        '=== STRICT JSON OUTPUT MODE ===',
-        'Return ONLY a valid JSON object. No extra text.',
-        '',
-        `You are analyzing extracted images from page ${pageNumber} of ${totalPages} in a student's PDF notes.`,
-        'Focus ONLY on diagram labels and relationships (no full slide transcription).',
-        'Keep the output concise and structured for downstream study generation.',
-        '',
-        'Required JSON format:',
-        '{',
-        '  "labels": [string],',
-        '  "relationships": [{"from": string, "to": string, "label": string}]',
-        '}',
-        '',
-        'Rules:',
-        '- If unsure, use empty arrays but keep keys.',
-        extractedText
-          ? `Extracted text (may be incomplete): ${extractedText}`
-          : 'Extracted text was minimal or empty.'
-      ].join('\n');
-
-      const openai = this.openai;
-      if (!openai) {
-        return null;
-      }
-
-      const response = await this.withTimeout(
-        openai.chat.completions.create({
-        model: this.openAiModel,
+      const prompt = mode === 'transcribe'
+        ? [
+          '=== STRICT JSON OUTPUT MODE ===',
+          'Return ONLY a valid JSON object. No extra text.',
+          '',
+          `You are reading a photo of handwritten or whiteboard notes (page ${pageNumber} of ${totalPages}).`,
+          'OCR could not read this page reliably, so transcribe all legible text in reading order.',
+          'Also capture any diagram labels and relationships.',
+          '',
+          'Required JSON format:',
+          '{',
+          '  "transcription": string,',
+          '  "labels": [string],',
+          '  "relationships": [{"from": string, "to": string, "label": string}]',
+          '}',
+          '',
+          'Rules:',
+          '- Keep line breaks between separate lines or bullet points.',
+          '- Write [illegible] for words you cannot read; do not guess or add content.',
+          '- If unsure, use empty arrays but keep keys.',
+          extractedText
+            ? `OCR text (may be garbled): ${extractedText}`
+            : 'OCR text was minimal or empty.'
+        ].join('\n')
+        : [
+          '=== STRICT JSON OUTPUT MODE ===',
+          'Return ONLY a valid JSON object. No extra text.',
+          '',
+          `You are analyzing extracted images from page ${pageNumber} of ${totalPages} in a student's PDF notes.`,
+          'Focus ONLY on diagram labels and relationships (no full slide transcription).',
+          'Keep the output concise and structured for downstream study generation.',
+          '',
+          'Required JSON format:',
+          '{',
+          '  "labels": [string],',
+          '  "relationships": [{"from": string, "to": string, "label": string}]',
+          '}',
+          '',
+          'Rules:',
+          '- If unsure, use empty arrays but keep keys.',
+          extractedText
+            ? `Extracted text (may be incomplete): ${extractedText}`
+            : 'Extracted text was minimal or empty.'
+        ].join('\n');
+
+      const response = await this.llm.chat({
+        feature: 'vision',
         messages: [
           { role: 'system', content: 'You are a JSON-only assistant.' },
           {
@@ -894,13 +1639,11 @@ export class DocumentProcessingService {
             ]
           }
         ],
-        max_tokens: 200
-        }),
-        this.visionRequestTimeoutMs,
-        `vision request page ${pageNumber}`
-      );
+        maxTokens: mode === 'transcribe' ? this.visionTranscriptionMaxTokens : 200,
+        timeoutMs: this.visionRequestTimeoutMs
+      });
 
-      const content = response.choices?.[0]?.message?.content?.trim();
+      const content = response.content;
       if (!content) {
         this.logger.warn(`Vision response was empty for page ${pageNumber}.`);
         return null;
@@ -1121,11 +1864,71 @@ export class DocumentProcessingService {
       const message = error instanceof Error ? error.message : String(error);
       this.logger.warn(`Tesseract not available: ${message}`);
       this.tesseractAvailable = false;
+      return false;
+    }
+
+    try {
+      const { stdout, stderr } = await execFileAsync('tesseract', ['--list-langs'], { timeout: 5000 });
+      const languages = `${stdout}\n${stderr}`
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line && !line.includes(' '));
+      this.tesseractLanguages = new Set(languages);
+      this.logger.log(`Tesseract languages: ${languages.join(', ') || 'none'}.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Could not list tesseract languages: ${message}`);
     }
 
     return this.tesseractAvailable;
   }
 
+  private async detectDocumentLanguage(
+    nativeText: string,
+    sampleOcr: ((languages: string) => Promise<string>) | null
+  ): Promise<DetectedLanguage | null> {
+    let language = detectLanguage(nativeText, this.languageDetectionMinLetters);
+    let source = 'native text';
+    if (!language && sampleOcr && (await this.ensureTesseractAvailable())) {
+      language = detectLanguage(await sampleOcr(this.resolveDetectionOcrLanguages()), this.languageDetectionMinLetters);
+      source = 'OCR sample';
+    }
+
+    if (language) {
+      this.logger.log(
+        `Detected language ${language.code} (${language.name}) from ${source}, confidence ${language.confidence.toFixed(2)}.`
+      );
+    } else {
+      this.logger.log('Document language could not be detected.');
+    }
+    return language;
+  }
+
+  private resolveDetectionOcrLanguages(): string {
+    const installed = this.tesseractLanguages;
+    const languages = this.ocrDetectionLanguages
+      .split('+')
+      .map(item => item.trim())
+      .filter(item => item && (!installed || installed.has(item)));
+    return languages.length ? languages.join('+') : this.ocrLanguage;
+  }
+
+  private async resolveOcrLanguages(language: DetectedLanguage | null): Promise<string> {
+    if (!language || !(await this.ensureTesseractAvailable())) {
+      return this.ocrLanguage;
+    }
+
+    const installed = this.tesseractLanguages;
+    if (!installed?.has(language.tesseract)) {
+      this.logger.warn(
+        `Tesseract language pack ${language.tesseract} for ${language.name} is not installed; using ${this.ocrLanguage}.`
+      );
+      return this.ocrLanguage;
+    }
+    // Study material often mixes English terms into other languages.
+    return language.tesseract === 'eng' || !installed.has('eng') ? language.tesseract : `${language.tesseract}+eng`;
+  }
+
   private readNumber(key: string, fallback: number): number {
     const value = Number(this.config.get<string>(key));
     return Number.isFinite(value) ? value : fallback;
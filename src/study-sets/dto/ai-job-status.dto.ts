@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
 import { StudySetAiJobStatus } from '../schemas/study-set-ai-job.schema';
+import { JobUsageDto } from '../../usage/dto/usage-report-response.dto';
 
 export class AiJobStatusResponseDto {
   @ApiProperty({ example: 'f724c799-7f7a-4567-8a6c-93b0f4f8e1dc' })
@@ -34,4 +35,7 @@ export class AiJobStatusResponseDto {
 
   @ApiProperty({ example: 'Transient upstream timeout', nullable: true })
   lastError!: string | null;
+
+  @ApiProperty({ type: JobUsageDto, nullable: true, description: 'Token usage and estimated cost; null before the first LLM call.' })
+  usage!: JobUsageDto | null;
 }
@@ -5,6 +5,9 @@ class AiFeatureResultDto {
   @ApiProperty({ example: 'summary' })
   feature!: string;
 
+  @ApiProperty({ example: 'en', nullable: true, description: 'Language the content was generated in.' })
+  language!: string | null;
+
   @ApiProperty({ example: 'completed', enum: ['pending', 'processing', 'completed', 'failed'] })
   status!: StudySetAiResultStatus;
 
@@ -13,7 +16,13 @@ class AiFeatureResultDto {
       summary: 'Photosynthesis converts light energy...',
       key_points: [{ heading: 'Overview', detail: '...' }]
     },
-    nullable: true
+    nullable: true,
+    description:
+      'Feature output. Quiz questions carry a type (multiple_choice, true_false, multi_select, fill_blank, matching or short_answer) and the answer key for that type. ' +
+      'Flashcards, quiz questions and summary key points carry a `grounding` ({ score, supported, passage, page }) from the source check, and the result has a `grounding` report with the number of unsupported items. ' +
+      'They also carry `sourcePages` ({ pageNumber, imageKey }) citing the source pages they were derived from. ' +
+      'Glossaries list `terms` ({ term, definition, synonyms, relatedTerms, firstMentionPage }). ' +
+      'Concept maps have `nodes` ({ id, label, description, pages, origin }) and `edges` ({ id, source, target, relation, label, pages, origin }).'
   })
   result!: unknown | null;
 
@@ -21,6 +30,14 @@ class AiFeatureResultDto {
   error!: string | null;
 }
 
+class PageThumbnailDto {
+  @ApiProperty({ example: 3 })
+  pageNumber!: number;
+
+  @ApiProperty({ example: '/api/study-sets/66be58d6355bf7728390c94f/files/66be58d6355bf7728390c94a/pages/3/image?width=320' })
+  url!: string;
+}
+
 class AiFileResultDto {
   @ApiProperty({ example: '66be58d6355bf7728390c94a' })
   fileId!: string;
@@ -30,6 +47,12 @@ class AiFileResultDto {
 
   @ApiProperty({ type: [AiFeatureResultDto] })
   features!: AiFeatureResultDto[];
+
+  @ApiProperty({
+    type: [PageThumbnailDto],
+    description: 'Page images uploaded with the file (rendered pages or photos), served through the authenticated page image endpoint.'
+  })
+  pageThumbnails!: PageThumbnailDto[];
 }
 
 export class StudySetAiResultsResponseDto {
@@ -38,6 +61,24 @@ export class StudySetAiResultsResponseDto {
 
   @ApiProperty({ type: [AiFileResultDto] })
   files!: AiFileResultDto[];
+
+  @ApiProperty({
+    type: [AiFeatureResultDto],
+    description: 'Study-set-wide summaries merged from the per-file summaries, one per language.'
+  })
+  masterSummaries!: AiFeatureResultDto[];
+
+  @ApiProperty({
+    type: [AiFeatureResultDto],
+    description: 'Study-set-wide glossaries merged from the per-file glossaries, one per language.'
+  })
+  glossaries!: AiFeatureResultDto[];
+
+  @ApiProperty({
+    type: [AiFeatureResultDto],
+    description: 'Study-set-wide concept maps merged from the per-file maps, one per language.'
+  })
+  conceptMaps!: AiFeatureResultDto[];
 }
 
 export class StudySetAiFileResultsResponseDto {
@@ -47,3 +88,75 @@ export class StudySetAiFileResultsResponseDto {
   @ApiProperty({ type: AiFileResultDto })
   file!: AiFileResultDto;
 }
+
+export class MasterSummaryResponseDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c94f' })
+  studySetId!: string;
+
+  @ApiProperty({ example: 'en', nullable: true })
+  language!: string | null;
+
+  @ApiProperty({ example: 'completed', enum: ['pending', 'processing', 'completed', 'failed'] })
+  status!: StudySetAiResultStatus;
+
+  @ApiProperty({
+    example: {
+      summary: {
+        title: 'Cell Biology',
+        summary: 'How cells capture and release energy...',
+        sections: [
+          {
+            heading: 'Photosynthesis',
+            content: '- Light reactions...',
+            sources: [{ fileId: '66be58d6355bf7728390c94a', fileName: 'chapter6.pdf' }]
+          }
+        ]
+      },
+      sourceFiles: [{ fileId: '66be58d6355bf7728390c94a', fileName: 'chapter6.pdf' }]
+    },
+    nullable: true
+  })
+  result!: unknown | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  error!: string | null;
+
+  @ApiProperty({ example: '2025-01-12T10:15:00.000Z', nullable: true })
+  updatedAt!: Date | null;
+}
+
+export class StudySetGlossaryResponseDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c94f' })
+  studySetId!: string;
+
+  @ApiProperty({ example: 'en', nullable: true })
+  language!: string | null;
+
+  @ApiProperty({ example: 'completed', enum: ['pending', 'processing', 'completed', 'failed'] })
+  status!: StudySetAiResultStatus;
+
+  @ApiProperty({
+    example: {
+      terms: [
+        {
+          term: 'Adenosine triphosphate',
+          definition: 'The molecule cells use to store and transfer energy.',
+          synonyms: ['ATP'],
+          relatedTerms: ['Cellular respiration'],
+          firstMentionPage: 3,
+          sources: [{ fileId: '66be58d6355bf7728390c94a', fileName: 'chapter6.pdf', firstMentionPage: 3 }]
+        }
+      ],
+      sourceFiles: [{ fileId: '66be58d6355bf7728390c94a', fileName: 'chapter6.pdf' }]
+    },
+    nullable: true,
+    description: 'Terms sorted alphabetically. firstMentionPage refers to the first source file listed for the term.'
+  })
+  result!: unknown | null;
+
+  @ApiProperty({ example: null, nullable: true })
+  error!: string | null;
+
+  @ApiProperty({ example: '2025-01-12T10:15:00.000Z', nullable: true })
+  updatedAt!: Date | null;
+}
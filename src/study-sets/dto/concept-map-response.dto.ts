@@ -0,0 +1,86 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { StudySetAiResultStatus } from '../schemas/study-set-ai-result.schema';
+import { CONCEPT_RELATIONS, ConceptOrigin, ConceptRelation } from '../../concept-maps/concept-maps.service';
+
+class ConceptSourceFileDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c94a' })
+  fileId!: string;
+
+  @ApiProperty({ example: 'chapter6.pdf' })
+  fileName!: string;
+
+  @ApiProperty({ type: [Number], example: [3, 4] })
+  pages!: number[];
+}
+
+class ConceptNodeDto {
+  @ApiProperty({ example: 'light-dependent-reactions', description: 'Slug of the label; stable across files.' })
+  id!: string;
+
+  @ApiProperty({ example: 'Light-dependent reactions' })
+  label!: string;
+
+  @ApiProperty({ example: 'Reactions in the thylakoid membrane that turn light energy into ATP and NADPH.', nullable: true })
+  description!: string | null;
+
+  @ApiProperty({ type: [Number], example: [3] })
+  pages!: number[];
+
+  @ApiProperty({ enum: ['text', 'diagram', 'both'], example: 'both' })
+  origin!: ConceptOrigin;
+
+  @ApiPropertyOptional({ type: [ConceptSourceFileDto], description: 'Study set maps only: the files the concept appears in.' })
+  sources?: ConceptSourceFileDto[];
+}
+
+class ConceptEdgeDto {
+  @ApiProperty({ example: 'light-dependent-reactions>produces>atp' })
+  id!: string;
+
+  @ApiProperty({ example: 'light-dependent-reactions', description: 'id of the node the edge starts at.' })
+  source!: string;
+
+  @ApiProperty({ example: 'atp', description: 'id of the node the edge points to.' })
+  target!: string;
+
+  @ApiProperty({ enum: CONCEPT_RELATIONS, example: 'produces' })
+  relation!: ConceptRelation;
+
+  @ApiProperty({ example: 'generates' })
+  label!: string;
+
+  @ApiProperty({ type: [Number], example: [3] })
+  pages!: number[];
+
+  @ApiProperty({ enum: ['text', 'diagram', 'both'], example: 'diagram' })
+  origin!: ConceptOrigin;
+
+  @ApiPropertyOptional({ type: [ConceptSourceFileDto], description: 'Study set maps only: the files that state the relation.' })
+  sources?: ConceptSourceFileDto[];
+}
+
+export class ConceptMapResponseDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c94f' })
+  studySetId!: string;
+
+  @ApiProperty({ example: '66be58d6355bf7728390c94a', nullable: true, description: 'null for the study set map.' })
+  fileId!: string | null;
+
+  @ApiProperty({ example: 'en', nullable: true })
+  language!: string | null;
+
+  @ApiProperty({ example: 'completed', enum: ['pending', 'processing', 'completed', 'failed'] })
+  status!: StudySetAiResultStatus;
+
+  @ApiProperty({ type: [ConceptNodeDto] })
+  nodes!: ConceptNodeDto[];
+
+  @ApiProperty({ type: [ConceptEdgeDto] })
+  edges!: ConceptEdgeDto[];
+
+  @ApiProperty({ example: null, nullable: true })
+  error!: string | null;
+
+  @ApiProperty({ example: '2025-01-12T10:15:00.000Z', nullable: true })
+  updatedAt!: Date | null;
+}
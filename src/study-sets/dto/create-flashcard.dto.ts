@@ -1,22 +1,84 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsOptional, IsEnum } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  ValidateIf,
+  ValidateNested
+} from 'class-validator';
+import { MAX_CLOZE_DELETIONS } from '../../flashcards/cloze';
+import { ClozeDeletionDto } from './flashcards-response.dto';
+
+export class ClozeDeletionInputDto {
+  @ApiProperty({ description: 'Term to blank out; must appear in clozeText', example: 'Paris' })
+  @IsString()
+  @IsNotEmpty()
+  answer!: string;
+
+  @ApiProperty({ description: 'Hint shown in place of the blank', example: 'city', required: false })
+  @IsString()
+  @IsOptional()
+  hint?: string;
+}
 
 export class CreateFlashcardDto {
   @ApiProperty({
-    description: 'The question or prompt for the flashcard',
-    example: 'What is the capital of France?'
+    description: 'Card type. Cloze cards are reviewed once per deletion.',
+    enum: ['basic', 'cloze'],
+    example: 'basic',
+    required: false
   })
+  @IsEnum(['basic', 'cloze'])
+  @IsOptional()
+  type?: 'basic' | 'cloze';
+
+  @ApiProperty({
+    description: 'The question or prompt for the flashcard (basic cards)',
+    example: 'What is the capital of France?',
+    required: false
+  })
+  @ValidateIf(o => o.type !== 'cloze')
   @IsString()
   @IsNotEmpty()
-  prompt!: string;
+  prompt?: string;
 
   @ApiProperty({
-    description: 'The answer to the flashcard question',
-    example: 'Paris'
+    description: 'The answer to the flashcard question (basic cards)',
+    example: 'Paris',
+    required: false
   })
+  @ValidateIf(o => o.type !== 'cloze')
   @IsString()
   @IsNotEmpty()
-  answer!: string;
+  answer?: string;
+
+  @ApiProperty({
+    description: 'Sentence containing the terms to blank out (cloze cards)',
+    example: 'Paris is the capital of France.',
+    required: false
+  })
+  @ValidateIf(o => o.type === 'cloze')
+  @IsString()
+  @IsNotEmpty()
+  clozeText?: string;
+
+  @ApiProperty({
+    description: 'Terms to blank out of clozeText (cloze cards)',
+    type: [ClozeDeletionInputDto],
+    required: false
+  })
+  @ValidateIf(o => o.type === 'cloze')
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_CLOZE_DELETIONS)
+  @ValidateNested({ each: true })
+  @Type(() => ClozeDeletionInputDto)
+  clozes?: ClozeDeletionInputDto[];
 
   @ApiProperty({
     description: 'Additional study tip or explanation (optional)',
@@ -45,6 +107,15 @@ export class CreateFlashcardDto {
   @IsString()
   @IsOptional()
   fileId?: string;
+
+  @ApiProperty({
+    description: 'Language of the flashcard set to add the card to (optional, defaults to the latest set for the file)',
+    example: 'es',
+    required: false
+  })
+  @IsString()
+  @IsOptional()
+  language?: string;
 }
 
 export class CreateFlashcardResponseDto {
@@ -60,6 +131,18 @@ export class CreateFlashcardResponseDto {
   @ApiProperty({ example: 'Custom Flashcard' })
   sourceFile!: string;
 
+  @ApiProperty({ example: 'en', nullable: true, description: 'Language the content was generated in.' })
+  language!: string | null;
+
+  @ApiProperty({ enum: ['basic', 'cloze'], example: 'basic' })
+  type!: string;
+
+  @ApiProperty({ example: null, nullable: true })
+  clozeText!: string | null;
+
+  @ApiProperty({ type: [ClozeDeletionDto], nullable: true })
+  clozes!: ClozeDeletionDto[] | null;
+
   @ApiProperty({ example: 'What is the capital of France?' })
   prompt!: string;
 
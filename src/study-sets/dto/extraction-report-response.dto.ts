@@ -0,0 +1,97 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ExtractionClassificationSource,
+  ExtractionDocumentType
+} from '../schemas/study-set-extraction-report.schema';
+
+class ExtractionPageReportDto {
+  @ApiProperty({ example: 3 })
+  pageNumber!: number;
+
+  @ApiProperty({ example: 412, description: 'Characters of text sent to the generators for this page.' })
+  textChars!: number;
+
+  @ApiProperty({ example: 36, description: 'Characters found in the embedded text layer.' })
+  nativeTextChars!: number;
+
+  @ApiProperty({ example: 0.74, description: 'Share of non-whitespace characters that are letters.' })
+  alphaRatio!: number;
+
+  @ApiProperty({ example: 412 })
+  ocrTextLen!: number;
+
+  @ApiProperty({ example: 0.58, nullable: true, description: 'Mean OCR word confidence (0-1), null when OCR did not run.' })
+  ocrConfidence!: number | null;
+
+  @ApiProperty({ example: 0.31 })
+  shortTokenRatio!: number;
+
+  @ApiProperty({ example: 2 })
+  imageCount!: number;
+
+  @ApiProperty({ example: 0.63, description: 'Share of the page area covered by images.' })
+  imageAreaRatio!: number;
+
+  @ApiProperty({ example: 48 })
+  vectorOps!: number;
+
+  @ApiProperty({ example: null, nullable: true, description: 'Earlier page this page was detected as a duplicate of.' })
+  duplicateOf!: number | null;
+
+  @ApiProperty({ example: true })
+  needsVision!: boolean;
+
+  @ApiProperty({ example: 'image-heavy-low-text' })
+  needsVisionReason!: string;
+
+  @ApiProperty({ example: 3.1 })
+  visionRankScore!: number;
+
+  @ApiProperty({ example: true, description: 'Whether a diagram caption was added to this page.' })
+  hasVisionCaption!: boolean;
+
+  @ApiProperty({ example: false, description: 'Whether the page was reused from the extraction cache.' })
+  fromCache!: boolean;
+}
+
+export class ExtractionReportResponseDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c94f' })
+  studySetId!: string;
+
+  @ApiProperty({ example: '66be58d6355bf7728390c94a' })
+  fileId!: string;
+
+  @ApiProperty({ example: 'chapter6.pdf' })
+  fileName!: string;
+
+  @ApiProperty({ example: 'pdf' })
+  fileKind!: string;
+
+  @ApiProperty({ example: 'slides', enum: ['slides', 'text', 'photos'] })
+  documentType!: ExtractionDocumentType;
+
+  @ApiProperty({
+    example: 'heuristic',
+    enum: ['heuristic', 'format'],
+    description: 'heuristic when the type was guessed from page text, format when implied by the file type.'
+  })
+  classificationSource!: ExtractionClassificationSource;
+
+  @ApiProperty({ example: 'es', nullable: true, description: 'ISO 639-1 code of the detected document language.' })
+  language!: string | null;
+
+  @ApiProperty({ example: 24 })
+  pageCount!: number;
+
+  @ApiProperty({ example: 5 })
+  visionPages!: number;
+
+  @ApiProperty({ example: 0 })
+  cachedPages!: number;
+
+  @ApiProperty({ example: '2025-01-12T10:15:00.000Z', nullable: true })
+  generatedAt!: Date | null;
+
+  @ApiProperty({ type: [ExtractionPageReportDto] })
+  pages!: ExtractionPageReportDto[];
+}
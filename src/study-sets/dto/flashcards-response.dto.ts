@@ -1,9 +1,65 @@
 import { ApiProperty } from '@nestjs/swagger';
 
+export class ClozeDeletionDto {
+  @ApiProperty({ example: 1, description: '1-based deletion number; review items use `<cardId>.c<index>`.' })
+  index!: number;
+
+  @ApiProperty({ example: 'ATP' })
+  answer!: string;
+
+  @ApiProperty({ example: 'molecule', nullable: true })
+  hint!: string | null;
+}
+
+export class PageCitationDto {
+  @ApiProperty({ example: 4 })
+  pageNumber!: number;
+
+  @ApiProperty({
+    example: 'study-sets/507f1f77bcf86cd799439011/files/file_abc123/pages/4.jpg',
+    nullable: true,
+    description: 'Storage key of the page image, when the file has page images; served by the page image endpoint.'
+  })
+  imageKey!: string | null;
+}
+
+export class ItemGroundingDto {
+  @ApiProperty({ example: 0.82, description: 'Share (0-1) of the item\'s key terms found in the best supporting passage.' })
+  score!: number;
+
+  @ApiProperty({ example: true, description: 'False when the source does not back the item up; worth double-checking.' })
+  supported!: boolean;
+
+  @ApiProperty({ example: 'ATP synthase uses the proton gradient to produce ATP.', nullable: true })
+  passage!: string | null;
+
+  @ApiProperty({ example: 4, nullable: true, description: 'Source page of the passage, when the source has pages.' })
+  page!: number | null;
+}
+
 export class FlashcardDto {
-  @ApiProperty({ example: 'fc_507f1f77bcf86cd799439011_file_abc123_000' })
+  @ApiProperty({
+    example: 'fc_507f1f77bcf86cd799439011_file_abc123_000',
+    description: 'Review item ID. For cloze cards this is `<cardId>.c<index>`, one item per deletion.'
+  })
   id!: string;
 
+  @ApiProperty({ enum: ['basic', 'cloze'], example: 'basic' })
+  type!: string;
+
+  @ApiProperty({ example: 'fc_507f1f77bcf86cd799439011_file_abc123_000', description: 'ID of the stored card.' })
+  cardId!: string;
+
+  @ApiProperty({ example: null, nullable: true, description: 'Deletion reviewed by this item (cloze cards only).' })
+  clozeIndex!: number | null;
+
+  @ApiProperty({
+    example: null,
+    nullable: true,
+    description: 'Full cloze sentence (cloze cards only); prompt has just this item\'s deletion blanked.'
+  })
+  clozeText!: string | null;
+
   @ApiProperty()
   studySetId!: string;
 
@@ -13,6 +69,9 @@ export class FlashcardDto {
   @ApiProperty()
   sourceFile!: string;
 
+  @ApiProperty({ example: 'en', nullable: true, description: 'Language the content was generated in.' })
+  language!: string | null;
+
   @ApiProperty({ example: 'What is the derivative of x²?' })
   prompt!: string;
 
@@ -31,6 +90,16 @@ export class FlashcardDto {
   @ApiProperty({ example: null, nullable: true })
   editedAt!: Date | null;
 
+  @ApiProperty({
+    type: ItemGroundingDto,
+    nullable: true,
+    description: 'Source support for the generated card; null for edited cards or results that were not checked.'
+  })
+  grounding!: ItemGroundingDto | null;
+
+  @ApiProperty({ type: [PageCitationDto], description: 'Source pages the card was derived from.' })
+  sourcePages!: PageCitationDto[];
+
   @ApiProperty({ example: true })
   mastered!: boolean;
 
@@ -51,6 +120,9 @@ export class FlashcardGroupDto {
   @ApiProperty()
   fileName!: string;
 
+  @ApiProperty({ example: 'en', nullable: true, description: 'Language the content was generated in.' })
+  language!: string | null;
+
   @ApiProperty()
   totalCards!: number;
 
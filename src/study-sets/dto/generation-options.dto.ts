@@ -0,0 +1,149 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested
+} from 'class-validator';
+import { MAX_GENERATED_ITEMS, SUMMARY_DEPTHS, SummaryDepth } from '../../ai/generation-options';
+
+const MAX_TOPICS = 20;
+
+class TopicFocusOptionsDto {
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['photosynthesis', 'Calvin cycle'],
+    description: 'Topics or keywords to emphasize.'
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_TOPICS)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  focusTopics?: string[];
+
+  @ApiPropertyOptional({ type: [String], example: ['history of botany'], description: 'Topics to leave out.' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_TOPICS)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  excludeTopics?: string[];
+}
+
+export class SummaryGenerationOptionsDto extends TopicFocusOptionsDto {
+  @ApiPropertyOptional({ enum: SUMMARY_DEPTHS, example: 'detailed', description: 'Defaults to standard.' })
+  @IsOptional()
+  @IsIn(SUMMARY_DEPTHS)
+  depth?: SummaryDepth;
+}
+
+export class FlashcardDifficultyMixDto {
+  @ApiPropertyOptional({ example: 30 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  intro?: number;
+
+  @ApiPropertyOptional({ example: 50 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  intermediate?: number;
+
+  @ApiPropertyOptional({ example: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  advanced?: number;
+}
+
+export class QuizDifficultyMixDto {
+  @ApiPropertyOptional({ example: 20 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  easy?: number;
+
+  @ApiPropertyOptional({ example: 50 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  medium?: number;
+
+  @ApiPropertyOptional({ example: 30 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  hard?: number;
+}
+
+export class FlashcardGenerationOptionsDto extends TopicFocusOptionsDto {
+  @ApiPropertyOptional({
+    example: 25,
+    description: `Target number of cards per file (1-${MAX_GENERATED_ITEMS}). Defaults to 3 per page.`
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_GENERATED_ITEMS)
+  count?: number;
+
+  @ApiPropertyOptional({
+    type: FlashcardDifficultyMixDto,
+    description: 'Relative weights per difficulty; they do not need to add up to 100.'
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FlashcardDifficultyMixDto)
+  difficulty?: FlashcardDifficultyMixDto;
+}
+
+export class QuizGenerationOptionsDto extends TopicFocusOptionsDto {
+  @ApiPropertyOptional({
+    example: 15,
+    description: `Target number of questions per file (1-${MAX_GENERATED_ITEMS}). Defaults to 3 per page.`
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_GENERATED_ITEMS)
+  count?: number;
+
+  @ApiPropertyOptional({
+    type: QuizDifficultyMixDto,
+    description: 'Relative weights per difficulty; they do not need to add up to 100.'
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuizDifficultyMixDto)
+  difficulty?: QuizDifficultyMixDto;
+}
+
+export class GenerationOptionsDto {
+  @ApiPropertyOptional({ type: SummaryGenerationOptionsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SummaryGenerationOptionsDto)
+  summary?: SummaryGenerationOptionsDto;
+
+  @ApiPropertyOptional({ type: FlashcardGenerationOptionsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FlashcardGenerationOptionsDto)
+  flashcards?: FlashcardGenerationOptionsDto;
+
+  @ApiPropertyOptional({ type: QuizGenerationOptionsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuizGenerationOptionsDto)
+  quizzes?: QuizGenerationOptionsDto;
+}
@@ -0,0 +1,140 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested
+} from 'class-validator';
+import { QuizDifficultyMixDto } from './generation-options.dto';
+import { PRACTICE_EXAM_WEIGHT_BY, PracticeExamWeightBy } from '../../quizzes/practice-exam-plan';
+
+export const MAX_PRACTICE_EXAM_QUESTIONS = 100;
+
+export class PracticeExamWeightDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c94a', description: 'A fileId or a quiz topicTag, depending on weightBy.' })
+  @IsString()
+  @MaxLength(200)
+  key!: string;
+
+  @ApiProperty({ example: 2, description: 'Relative weight; weights do not need to add up to 100.' })
+  @IsNumber()
+  @Min(0)
+  weight!: number;
+}
+
+export class CreatePracticeExamDto {
+  @ApiPropertyOptional({ example: 'Midterm practice', description: 'Defaults to the study set title.' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  title?: string;
+
+  @ApiProperty({ example: 30, minimum: 1, maximum: MAX_PRACTICE_EXAM_QUESTIONS })
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PRACTICE_EXAM_QUESTIONS)
+  questionCount!: number;
+
+  @ApiPropertyOptional({
+    enum: PRACTICE_EXAM_WEIGHT_BY,
+    example: 'file',
+    description: 'Whether weights refer to files or to quiz topic tags. Defaults to file.'
+  })
+  @IsOptional()
+  @IsIn(PRACTICE_EXAM_WEIGHT_BY)
+  weightBy?: PracticeExamWeightBy;
+
+  @ApiPropertyOptional({
+    type: [PracticeExamWeightDto],
+    description: 'Share of the questions per file or topic. Without weights every file counts the same; topic exams need them.'
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => PracticeExamWeightDto)
+  weights?: PracticeExamWeightDto[];
+
+  @ApiPropertyOptional({
+    type: QuizDifficultyMixDto,
+    description: 'Relative weights per difficulty. Without it, questions of any difficulty are used.'
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuizDifficultyMixDto)
+  difficulty?: QuizDifficultyMixDto;
+
+  @ApiPropertyOptional({ example: 45, description: 'Time limit in minutes. Leave out for an untimed exam.' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(600)
+  timeLimitMinutes?: number;
+
+  @ApiPropertyOptional({ example: 'en', description: 'Quiz language to draw from. Defaults to the latest quiz language.' })
+  @IsOptional()
+  @IsString()
+  language?: string;
+}
+
+class PracticeExamQuestionDto {
+  @ApiProperty({ example: 1 })
+  number!: number;
+
+  @ApiProperty({ example: '66be58d6355bf7728390c94a' })
+  fileId!: string;
+
+  @ApiProperty({ example: 'chapter6.pdf' })
+  fileName!: string;
+
+  @ApiProperty({ enum: ['quiz', 'generated'], example: 'quiz', description: 'generated: written for this exam to fill a gap.' })
+  origin!: 'quiz' | 'generated';
+
+  @ApiProperty({ example: 4, nullable: true, description: "Index in the file's quiz; null for generated questions." })
+  sourceIndex!: number | null;
+
+  @ApiProperty({ type: Object, description: 'The quiz question, in the same shape as in quiz results.' })
+  question!: Record<string, unknown>;
+}
+
+export class PracticeExamSummaryDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c9a1' })
+  examId!: string;
+
+  @ApiProperty({ example: '66be58d6355bf7728390c94f' })
+  studySetId!: string;
+
+  @ApiProperty({ example: 'Midterm practice' })
+  title!: string;
+
+  @ApiProperty({ example: 'en', nullable: true })
+  language!: string | null;
+
+  @ApiProperty({ example: 45, nullable: true })
+  timeLimitMinutes!: number | null;
+
+  @ApiProperty({ example: 30 })
+  questionCount!: number;
+
+  @ApiProperty({ example: 4, description: 'Questions generated because the quizzes did not cover the blueprint.' })
+  generatedCount!: number;
+
+  @ApiProperty({ type: Object, description: 'The blueprint the exam was built from.' })
+  blueprint!: Record<string, unknown>;
+
+  @ApiProperty({ example: '2025-01-12T10:15:00.000Z', nullable: true })
+  createdAt!: Date | null;
+}
+
+export class PracticeExamResponseDto extends PracticeExamSummaryDto {
+  @ApiProperty({ type: [PracticeExamQuestionDto] })
+  questions!: PracticeExamQuestionDto[];
+}
@@ -0,0 +1,87 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { UpdateFlashcardResponseDto } from './update-flashcard.dto';
+import { QuizQuestion } from '../../quizzes/quiz-questions';
+import { ItemGroundingDto, PageCitationDto } from './flashcards-response.dto';
+
+export class RegenerateItemDto {
+  @ApiPropertyOptional({
+    description: 'What is wrong with the current version; passed to the model as guidance',
+    example: 'The answer confuses mitosis with meiosis.'
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class ItemRevisionDto {
+  @ApiProperty({ type: Object, description: 'The replaced version of the item.' })
+  previous!: Record<string, unknown>;
+
+  @ApiProperty({ example: '2025-12-24T10:00:00.000Z' })
+  replacedAt!: string;
+
+  @ApiProperty({ example: 'The answer confuses mitosis with meiosis.', nullable: true })
+  note!: string | null;
+}
+
+export class RegenerateFlashcardResponseDto extends UpdateFlashcardResponseDto {
+  @ApiProperty({ type: [ItemRevisionDto], description: 'Earlier versions, oldest first.' })
+  history!: ItemRevisionDto[];
+
+  @ApiProperty({ type: ItemGroundingDto, nullable: true })
+  grounding!: ItemGroundingDto | null;
+
+  @ApiProperty({ type: [PageCitationDto] })
+  sourcePages!: PageCitationDto[];
+}
+
+export class RegenerateQuizQuestionResponseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  studySetId!: string;
+
+  @ApiProperty({ example: 'file_abc123' })
+  fileId!: string;
+
+  @ApiProperty({ example: 'en', nullable: true })
+  language!: string | null;
+
+  @ApiProperty({ example: 3 })
+  index!: number;
+
+  @ApiProperty({
+    type: Object,
+    description: 'The new question, in the same typed shape as quiz results, including its history and grounding.'
+  })
+  question!: QuizQuestion;
+}
+
+export class RegenerateKeyPointResponseDto {
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  studySetId!: string;
+
+  @ApiProperty({ example: 'file_abc123' })
+  fileId!: string;
+
+  @ApiProperty({ example: 'en', nullable: true })
+  language!: string | null;
+
+  @ApiProperty({ example: 2 })
+  index!: number;
+
+  @ApiProperty({ example: 'Light-dependent reactions' })
+  heading!: string;
+
+  @ApiProperty({ example: 'They take place in the thylakoid membranes and produce ATP and NADPH.' })
+  detail!: string;
+
+  @ApiProperty({ type: [ItemRevisionDto], description: 'Earlier versions, oldest first.' })
+  history!: ItemRevisionDto[];
+
+  @ApiProperty({ type: ItemGroundingDto, nullable: true })
+  grounding!: ItemGroundingDto | null;
+
+  @ApiProperty({ type: [PageCitationDto] })
+  sourcePages!: PageCitationDto[];
+}
@@ -1,26 +1,73 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
+  ArrayNotEmpty,
   IsArray,
+  IsIn,
   IsISO8601,
   IsOptional,
-  IsString
+  IsString,
+  ValidateNested
 } from 'class-validator';
+import { Type } from 'class-transformer';
+import { FLASHCARD_GENERATION_MODES, FlashcardGenerationMode } from '../../flashcards/flashcards.service';
+import { QUIZ_QUESTION_TYPES, QuizQuestionType } from '../../quizzes/quiz-questions';
+import { GenerationOptionsDto } from './generation-options.dto';
 
 export class StartAiProcessDto {
   @ApiProperty({ example: '2024-06-11T18:33:10.000Z' })
   @IsISO8601()
   requestedAt!: string;
 
-  @ApiPropertyOptional({ example: 'en-US', nullable: true })
+  @ApiPropertyOptional({
+    example: 'en-US',
+    nullable: true,
+    description:
+      'Language for generated summaries, flashcards and quizzes. Defaults to the study set preference, then to the detected document language.'
+  })
   @IsOptional()
   @IsString()
   preferredLanguage?: string | null;
 
-  @ApiProperty({ type: [String], example: ['summary', 'flashcards'] })
+  @ApiProperty({
+    type: [String],
+    example: ['summary', 'flashcards'],
+    description: 'Any of summary, flashcards, quizzes, glossary and conceptMap.'
+  })
   @IsArray()
   @IsString({ each: true })
   aiFeatures!: string[];
 
+  @ApiPropertyOptional({
+    type: [String],
+    enum: QUIZ_QUESTION_TYPES,
+    example: ['multiple_choice', 'true_false', 'fill_blank'],
+    description: 'Question types to mix into generated quizzes, spread roughly evenly. Defaults to multiple_choice.'
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(QUIZ_QUESTION_TYPES, { each: true })
+  quizQuestionTypes?: QuizQuestionType[];
+
+  @ApiPropertyOptional({
+    enum: FLASHCARD_GENERATION_MODES,
+    example: 'mixed',
+    description:
+      'basic generates question/answer cards, cloze generates fill-in-the-blank sentences, mixed generates both. Defaults to basic.'
+  })
+  @IsOptional()
+  @IsIn(FLASHCARD_GENERATION_MODES)
+  flashcardMode?: FlashcardGenerationMode;
+
+  @ApiPropertyOptional({
+    type: GenerationOptionsDto,
+    description: 'Per-feature count, difficulty, topic focus and summary depth. Omitted options keep the defaults.'
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GenerationOptionsDto)
+  generationOptions?: GenerationOptionsDto;
+
   @ApiPropertyOptional({
     description: 'Optional manual content entered by the user',
     example: 'Custom notes provided by the learner.',
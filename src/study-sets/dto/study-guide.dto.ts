@@ -0,0 +1,95 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import {
+  DEFAULT_STUDY_GUIDE_WORDS,
+  MAX_STUDY_GUIDE_WORDS,
+  MIN_STUDY_GUIDE_WORDS,
+  STUDY_GUIDE_FORMATS,
+  StudyGuideFormat
+} from '../../study-guides/study-guides.service';
+
+export class GenerateStudyGuideDto {
+  @ApiProperty({
+    enum: STUDY_GUIDE_FORMATS,
+    example: 'cornell',
+    description: 'outline: topic bullets; cornell: cue and note columns with a closing summary; qa: likely exam questions with answers.'
+  })
+  @IsIn(STUDY_GUIDE_FORMATS)
+  format!: StudyGuideFormat;
+
+  @ApiPropertyOptional({
+    example: DEFAULT_STUDY_GUIDE_WORDS,
+    minimum: MIN_STUDY_GUIDE_WORDS,
+    maximum: MAX_STUDY_GUIDE_WORDS,
+    description: `Length budget in words. Defaults to ${DEFAULT_STUDY_GUIDE_WORDS}, about one printed page.`
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(MIN_STUDY_GUIDE_WORDS)
+  @Max(MAX_STUDY_GUIDE_WORDS)
+  maxWords?: number;
+
+  @ApiPropertyOptional({
+    example: 'en',
+    description: 'Language of the summaries and glossary to build from. Defaults to the latest summary language.'
+  })
+  @IsOptional()
+  @IsString()
+  language?: string;
+}
+
+class StudyGuideEntryDto {
+  @ApiProperty({ example: 'What does the Calvin cycle produce?', nullable: true })
+  cue!: string | null;
+
+  @ApiProperty({ example: 'G3P, which the plant turns into glucose, using ATP and NADPH.' })
+  text!: string;
+}
+
+class StudyGuideSectionDto {
+  @ApiProperty({ example: 'Calvin cycle' })
+  heading!: string;
+
+  @ApiProperty({ type: [StudyGuideEntryDto] })
+  entries!: StudyGuideEntryDto[];
+}
+
+class StudyGuideSourceFileDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c94a' })
+  fileId!: string;
+
+  @ApiProperty({ example: 'chapter6.pdf' })
+  fileName!: string;
+}
+
+export class StudyGuideResponseDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c94f' })
+  studySetId!: string;
+
+  @ApiProperty({ example: 'en', nullable: true })
+  language!: string | null;
+
+  @ApiProperty({ enum: STUDY_GUIDE_FORMATS, example: 'cornell' })
+  format!: StudyGuideFormat;
+
+  @ApiProperty({ example: 600 })
+  maxWords!: number;
+
+  @ApiProperty({ example: 574, description: 'Words in the guide after trimming it to the budget.' })
+  wordCount!: number;
+
+  @ApiProperty({ example: 'Photosynthesis exam guide' })
+  title!: string;
+
+  @ApiProperty({ type: [StudyGuideSectionDto] })
+  sections!: StudyGuideSectionDto[];
+
+  @ApiProperty({ example: 'Light reactions make ATP and NADPH that the Calvin cycle spends to fix carbon.', nullable: true })
+  summary!: string | null;
+
+  @ApiProperty({ type: [StudyGuideSourceFileDto] })
+  sourceFiles!: StudyGuideSourceFileDto[];
+
+  @ApiProperty({ example: '2025-01-12T10:15:00.000Z', nullable: true })
+  updatedAt!: Date | null;
+}
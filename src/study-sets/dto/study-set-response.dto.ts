@@ -18,6 +18,9 @@ class FileSummaryResponseDto {
 
   @ApiProperty({ example: '2.3 MB' })
   displaySize!: string;
+
+  @ApiProperty({ example: 'es', nullable: true, description: 'Language detected during the last processing run.' })
+  detectedLanguage!: string | null;
 }
 
 export class StudySetResponseDto {
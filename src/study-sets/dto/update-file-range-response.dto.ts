@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+class SelectedRangeDto {
+  @ApiProperty({ example: 5 })
+  start!: number;
+
+  @ApiProperty({ example: 18 })
+  end!: number;
+}
+
+export class UpdateFileRangeResponseDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c94a' })
+  fileId!: string;
+
+  @ApiProperty({ type: SelectedRangeDto })
+  selectedRange!: SelectedRangeDto;
+
+  @ApiProperty({ example: 'Pages 5–18' })
+  rangeSummary!: string;
+
+  @ApiProperty({ example: 24 })
+  originalPageCount!: number;
+
+  @ApiProperty({ example: 1048576 })
+  storedSizeBytes!: number;
+
+  @ApiProperty({ example: 14 })
+  pageImagesMapped!: number;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Min } from 'class-validator';
+
+export class UpdateFileRangeDto {
+  @ApiProperty({ example: 5 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  rangeStart!: number;
+
+  @ApiProperty({ example: 18 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  rangeEnd!: number;
+
+  @ApiPropertyOptional({ example: 'Pages 5–18', nullable: true })
+  @IsOptional()
+  @IsString()
+  rangeSummary?: string | null;
+}
@@ -1,5 +1,9 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsOptional, IsEnum } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsString, IsOptional, IsEnum, ValidateNested } from 'class-validator';
+import { MAX_CLOZE_DELETIONS } from '../../flashcards/cloze';
+import { ClozeDeletionInputDto } from './create-flashcard.dto';
+import { ClozeDeletionDto } from './flashcards-response.dto';
 
 export class UpdateFlashcardDto {
   @ApiProperty({
@@ -20,6 +24,28 @@ export class UpdateFlashcardDto {
   @IsOptional()
   answer?: string;
 
+  @ApiProperty({
+    description: 'Replacement sentence for a cloze card; existing deletions must still appear in it',
+    example: 'Paris is the capital and largest city of France.',
+    required: false
+  })
+  @IsString()
+  @IsOptional()
+  clozeText?: string;
+
+  @ApiProperty({
+    description: 'Replacement deletions for a cloze card. Terms kept from before keep their review progress.',
+    type: [ClozeDeletionInputDto],
+    required: false
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_CLOZE_DELETIONS)
+  @ValidateNested({ each: true })
+  @Type(() => ClozeDeletionInputDto)
+  clozes?: ClozeDeletionInputDto[];
+
   @ApiProperty({
     description: 'Additional study tip or explanation',
     example: 'Paris is located in northern France along the Seine River.',
@@ -53,6 +79,18 @@ export class UpdateFlashcardResponseDto {
   @ApiProperty({ example: 'document.pdf' })
   sourceFile!: string;
 
+  @ApiProperty({ example: 'en', nullable: true, description: 'Language the content was generated in.' })
+  language!: string | null;
+
+  @ApiProperty({ enum: ['basic', 'cloze'], example: 'basic' })
+  type!: string;
+
+  @ApiProperty({ example: null, nullable: true })
+  clozeText!: string | null;
+
+  @ApiProperty({ type: [ClozeDeletionDto], nullable: true })
+  clozes!: ClozeDeletionDto[] | null;
+
   @ApiProperty({ example: 'What is the capital of France?' })
   prompt!: string;
 
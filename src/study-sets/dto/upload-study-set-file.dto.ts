@@ -1,6 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
-import { IsNotEmpty, IsNumber, IsOptional, IsString } from 'class-validator';
+import { IsIn, IsNotEmpty, IsNumber, IsOptional, IsString } from 'class-validator';
 
 export class UploadStudySetFileDto {
   @ApiProperty({ example: '66be58d6355bf7728390c94a' })
@@ -8,15 +8,34 @@ export class UploadStudySetFileDto {
   @IsNotEmpty()
   fileId!: string;
 
-  @ApiProperty({ example: 1 })
+  @ApiPropertyOptional({
+    example: 'original',
+    enum: ['sliced', 'original'],
+    default: 'sliced',
+    description:
+      'PDF only. "sliced" means the client already cut the PDF to the selected range. "original" uploads the full PDF; the server keeps it, slices it to the range and allows the range to be changed later. In original mode pageImages are renders of the full PDF.'
+  })
+  @IsOptional()
+  @IsIn(['sliced', 'original'])
+  uploadMode?: 'sliced' | 'original';
+
+  @ApiPropertyOptional({
+    example: 1,
+    description: 'First selected page. Required for sliced PDF uploads; defaults to 1 for original uploads.'
+  })
+  @IsOptional()
   @Type(() => Number)
   @IsNumber()
-  rangeStart!: number;
+  rangeStart?: number;
 
-  @ApiProperty({ example: 10 })
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Last selected page. Required for sliced PDF uploads; defaults to the last page for original uploads.'
+  })
+  @IsOptional()
   @Type(() => Number)
   @IsNumber()
-  rangeEnd!: number;
+  rangeEnd?: number;
 
   @ApiPropertyOptional({ example: 'Pages 1–10', nullable: true })
   @IsOptional()
@@ -6,12 +6,17 @@ import { StudySetsService } from './study-sets.service';
 import { UpdateFlashcardProgressDto, UpdateFlashcardProgressResponseDto } from './dto/update-flashcard-progress.dto';
 import { CreateFlashcardDto, CreateFlashcardResponseDto } from './dto/create-flashcard.dto';
 import { UpdateFlashcardDto, UpdateFlashcardResponseDto } from './dto/update-flashcard.dto';
+import { RegenerateFlashcardResponseDto, RegenerateItemDto } from './dto/regenerate-item.dto';
+import { AiRegenerationService } from './ai-regeneration.service';
 
 @ApiTags('Flashcards')
 @ApiBearerAuth('bearer')
 @Controller('flashcards')
 export class FlashcardsController {
-  constructor(private readonly studySetsService: StudySetsService) {}
+  constructor(
+    private readonly studySetsService: StudySetsService,
+    private readonly aiRegeneration: AiRegenerationService
+  ) {}
 
   @Post('study-sets/:studySetId')
   @UseGuards(JwtAuthGuard)
@@ -49,6 +54,25 @@ export class FlashcardsController {
     return this.studySetsService.updateFlashcard(req.user.id, flashcardId, dto);
   }
 
+  @Post(':id/regenerate')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Regenerate a flashcard',
+    description:
+      'Rewrites one flashcard from the source file it was generated from, optionally guided by a note on what is wrong. The previous version is kept in the card history.'
+  })
+  @ApiOkResponse({
+    description: 'Flashcard regenerated successfully',
+    type: RegenerateFlashcardResponseDto
+  })
+  async regenerateFlashcard(
+    @Param('id') flashcardId: string,
+    @Body() dto: RegenerateItemDto,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<RegenerateFlashcardResponseDto> {
+    return this.aiRegeneration.regenerateFlashcard(req.user.id, flashcardId, dto.note);
+  }
+
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { PageExtractionCache, PageExtractionCacheDocument } from './schemas/page-extraction-cache.schema';
+import {
+  ExtractionClassificationSource,
+  ExtractionDocumentType,
+  ExtractionPageReport
+} from './schemas/study-set-extraction-report.schema';
+
+export interface CachedPageExtraction {
+  pageNumber: number;
+  pageHash: string | null;
+  text: string;
+  ocrConfidence: number | null;
+  needsVision: boolean;
+  needsVisionReason: string | null;
+  visionSummary: string | null;
+  report: ExtractionPageReport | null;
+}
+
+export interface CachedDocumentExtraction {
+  documentType: ExtractionDocumentType;
+  classificationSource: ExtractionClassificationSource;
+  language: string | null;
+  pages: CachedPageExtraction[];
+}
+
+@Injectable()
+export class PageExtractionCacheService {
+  private readonly logger = new Logger(PageExtractionCacheService.name);
+
+  constructor(
+    @InjectModel(PageExtractionCache.name)
+    private readonly cacheModel: Model<PageExtractionCacheDocument>
+  ) {}
+
+  async findDocument(contentHash: string, settingsFingerprint: string): Promise<CachedDocumentExtraction | null> {
+    try {
+      const entries = await this.cacheModel
+        .find({ contentHash, settingsFingerprint })
+        .sort({ pageNumber: 1 })
+        .lean()
+        .exec();
+      if (!entries.length) {
+        return null;
+      }
+
+      const complete =
+        entries.length === entries[0].pageCount &&
+        entries.every((entry, index) => entry.pageNumber === index + 1);
+      if (!complete) {
+        return null;
+      }
+      return {
+        documentType: entries[0].documentType,
+        classificationSource: entries[0].classificationSource,
+        language: entries[0].language ?? null,
+        pages: entries.map(entry => this.toCachedPage(entry))
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Extraction cache lookup failed for ${contentHash}: ${message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Pages of any document with the same page hash, extracted under the same
+   * settings, classification and language; text and captions depend on all three.
+   */
+  async findPagesByHash(
+    settingsFingerprint: string,
+    context: Pick<CachedDocumentExtraction, 'documentType' | 'language'>,
+    pageHashes: string[]
+  ): Promise<Map<string, CachedPageExtraction>> {
+    const pages = new Map<string, CachedPageExtraction>();
+    if (!pageHashes.length) {
+      return pages;
+    }
+
+    try {
+      const entries = await this.cacheModel
+        .find({
+          settingsFingerprint,
+          documentType: context.documentType,
+          language: context.language,
+          pageHash: { $in: Array.from(new Set(pageHashes)) }
+        })
+        .sort({ updatedAt: -1 })
+        .lean()
+        .exec();
+      entries.forEach(entry => {
+        if (entry.pageHash && !pages.has(entry.pageHash)) {
+          pages.set(entry.pageHash, this.toCachedPage(entry));
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Extraction cache page lookup failed: ${message}`);
+    }
+    return pages;
+  }
+
+  async saveDocument(
+    contentHash: string,
+    settingsFingerprint: string,
+    extraction: CachedDocumentExtraction
+  ): Promise<void> {
+    const { pages } = extraction;
+    if (!pages.length) {
+      return;
+    }
+
+    try {
+      await this.cacheModel.bulkWrite(
+        pages.map(page => ({
+          updateOne: {
+            filter: { contentHash, settingsFingerprint, pageNumber: page.pageNumber },
+            update: {
+              $set: {
+                pageCount: pages.length,
+                documentType: extraction.documentType,
+                classificationSource: extraction.classificationSource,
+                language: extraction.language,
+                pageHash: page.pageHash,
+                text: page.text,
+                ocrConfidence: page.ocrConfidence,
+                needsVision: page.needsVision,
+                needsVisionReason: page.needsVisionReason,
+                visionSummary: page.visionSummary,
+                report: page.report
+              }
+            },
+            upsert: true
+          }
+        }))
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Extraction cache write failed for ${contentHash}: ${message}`);
+    }
+  }
+
+  private toCachedPage(entry: PageExtractionCache): CachedPageExtraction {
+    return {
+      pageNumber: entry.pageNumber,
+      pageHash: entry.pageHash ?? null,
+      text: entry.text ?? '',
+      ocrConfidence: entry.ocrConfidence ?? null,
+      needsVision: Boolean(entry.needsVision),
+      needsVisionReason: entry.needsVisionReason ?? null,
+      visionSummary: entry.visionSummary ?? null,
+      report: entry.report ?? null
+    };
+  }
+}
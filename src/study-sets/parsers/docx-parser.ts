@@ -0,0 +1,43 @@
+import * as mammoth from 'mammoth';
+import { ParsedDocument, ParsedImage } from './parsed-document';
+import { htmlToStructuredText, splitStructuredSections } from './structured-text';
+
+const IMAGE_MARKER_PREFIX = 'docx-image:';
+const IMAGE_MARKER_PATTERN = /\[Embedded image (\d+)\]/g;
+
+export async function parseDocx(buffer: Buffer, sectionMaxChars = 4000): Promise<ParsedDocument> {
+  const images: ParsedImage[] = [];
+  const { value: html } = await mammoth.convertToHtml(
+    { buffer },
+    {
+      convertImage: mammoth.images.imgElement(async image => {
+        images.push({
+          buffer: await image.readAsBuffer(),
+          contentType: image.contentType
+        });
+        return { src: `${IMAGE_MARKER_PREFIX}${images.length}` };
+      })
+    }
+  );
+
+  const text = htmlToStructuredText(html, src =>
+    src.startsWith(IMAGE_MARKER_PREFIX) ? `[Embedded image ${src.slice(IMAGE_MARKER_PREFIX.length)}]` : null
+  );
+
+  const pages = splitStructuredSections(text, sectionMaxChars).map((section, index) => {
+    const sectionImages: ParsedImage[] = [];
+    for (const match of section.text.matchAll(IMAGE_MARKER_PATTERN)) {
+      const image = images[Number(match[1]) - 1];
+      if (image) {
+        sectionImages.push(image);
+      }
+    }
+    return {
+      pageNumber: index + 1,
+      text: section.text.replace(IMAGE_MARKER_PATTERN, '[Image]').replace(/[ \t]{2,}/g, ' '),
+      images: sectionImages
+    };
+  });
+
+  return { docType: 'text', pages };
+}
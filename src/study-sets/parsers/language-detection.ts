@@ -0,0 +1,283 @@
+export type WritingScript =
+  | 'latin'
+  | 'cyrillic'
+  | 'greek'
+  | 'arabic'
+  | 'hebrew'
+  | 'devanagari'
+  | 'bengali'
+  | 'gurmukhi'
+  | 'gujarati'
+  | 'tamil'
+  | 'telugu'
+  | 'kannada'
+  | 'malayalam'
+  | 'thai'
+  | 'hangul'
+  | 'kana'
+  | 'han';
+
+export interface DetectedLanguage {
+  /** ISO 639-1 code, e.g. `es`. */
+  code: string;
+  name: string;
+  /** Tesseract traineddata name, e.g. `spa`. */
+  tesseract: string;
+  script: WritingScript;
+  /** Share of letters in the winning script, scaled down when stopwords were ambiguous. */
+  confidence: number;
+}
+
+interface LanguageProfile {
+  code: string;
+  name: string;
+  tesseract: string;
+  script: WritingScript;
+  stopwords: string[];
+}
+
+const SCRIPT_PATTERNS: Array<{ script: WritingScript; pattern: RegExp }> = [
+  { script: 'latin', pattern: /\p{Script=Latin}/u },
+  { script: 'cyrillic', pattern: /\p{Script=Cyrillic}/u },
+  { script: 'greek', pattern: /\p{Script=Greek}/u },
+  { script: 'arabic', pattern: /\p{Script=Arabic}/u },
+  { script: 'hebrew', pattern: /\p{Script=Hebrew}/u },
+  { script: 'devanagari', pattern: /\p{Script=Devanagari}/u },
+  { script: 'bengali', pattern: /\p{Script=Bengali}/u },
+  { script: 'gurmukhi', pattern: /\p{Script=Gurmukhi}/u },
+  { script: 'gujarati', pattern: /\p{Script=Gujarati}/u },
+  { script: 'tamil', pattern: /\p{Script=Tamil}/u },
+  { script: 'telugu', pattern: /\p{Script=Telugu}/u },
+  { script: 'kannada', pattern: /\p{Script=Kannada}/u },
+  { script: 'malayalam', pattern: /\p{Script=Malayalam}/u },
+  { script: 'thai', pattern: /\p{Script=Thai}/u },
+  { script: 'hangul', pattern: /\p{Script=Hangul}/u },
+  { script: 'kana', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u },
+  { script: 'han', pattern: /\p{Script=Han}/u }
+];
+
+// Listed in order of preference when a script's stopwords give no signal.
+const LANGUAGE_PROFILES: LanguageProfile[] = [
+  {
+    code: 'en',
+    name: 'English',
+    tesseract: 'eng',
+    script: 'latin',
+    stopwords: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'for', 'it', 'with', 'as', 'are', 'on', 'this', 'be', 'by', 'was', 'from', 'or', 'which']
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    tesseract: 'spa',
+    script: 'latin',
+    stopwords: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'las', 'del', 'se', 'por', 'un', 'una', 'con', 'para', 'es', 'al', 'como', 'más', 'su']
+  },
+  {
+    code: 'fr',
+    name: 'French',
+    tesseract: 'fra',
+    script: 'latin',
+    stopwords: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'du', 'en', 'que', 'qui', 'dans', 'pour', 'pas', 'sur', 'au', 'avec', 'sont']
+  },
+  {
+    code: 'de',
+    name: 'German',
+    tesseract: 'deu',
+    script: 'latin',
+    stopwords: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'von', 'mit', 'sich', 'des', 'auf', 'für', 'im', 'dem', 'auch', 'werden']
+  },
+  {
+    code: 'it',
+    name: 'Italian',
+    tesseract: 'ita',
+    script: 'latin',
+    stopwords: ['il', 'di', 'che', 'e', 'la', 'per', 'un', 'una', 'non', 'sono', 'del', 'della', 'con', 'gli', 'le', 'è', 'alla', 'nel', 'dei', 'anche']
+  },
+  {
+    code: 'pt',
+    name: 'Portuguese',
+    tesseract: 'por',
+    script: 'latin',
+    stopwords: ['o', 'a', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'os', 'as', 'no', 'na', 'dos', 'é', 'mais']
+  },
+  {
+    code: 'nl',
+    name: 'Dutch',
+    tesseract: 'nld',
+    script: 'latin',
+    stopwords: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'in', 'zijn', 'met', 'voor', 'niet', 'die', 'aan', 'er', 'ook', 'wordt', 'bij']
+  },
+  {
+    code: 'ru',
+    name: 'Russian',
+    tesseract: 'rus',
+    script: 'cyrillic',
+    stopwords: ['и', 'в', 'не', 'на', 'что', 'с', 'по', 'это', 'как', 'к', 'из', 'для', 'от', 'он', 'то', 'но', 'а', 'его', 'при', 'же']
+  },
+  {
+    code: 'uk',
+    name: 'Ukrainian',
+    tesseract: 'ukr',
+    script: 'cyrillic',
+    stopwords: ['і', 'в', 'не', 'на', 'що', 'з', 'та', 'у', 'до', 'це', 'як', 'від', 'для', 'по', 'за', 'його', 'але', 'й', 'є', 'який']
+  },
+  { code: 'el', name: 'Greek', tesseract: 'ell', script: 'greek', stopwords: [] },
+  {
+    code: 'ar',
+    name: 'Arabic',
+    tesseract: 'ara',
+    script: 'arabic',
+    stopwords: ['في', 'من', 'على', 'أن', 'إلى', 'التي', 'الذي', 'عن', 'هذا', 'مع']
+  },
+  {
+    code: 'fa',
+    name: 'Persian',
+    tesseract: 'fas',
+    script: 'arabic',
+    stopwords: ['در', 'به', 'از', 'که', 'این', 'را', 'با', 'است', 'برای', 'می']
+  },
+  {
+    code: 'ur',
+    name: 'Urdu',
+    tesseract: 'urd',
+    script: 'arabic',
+    stopwords: ['کے', 'کی', 'ہے', 'میں', 'اور', 'کو', 'سے', 'کا', 'یہ', 'ہیں']
+  },
+  { code: 'he', name: 'Hebrew', tesseract: 'heb', script: 'hebrew', stopwords: [] },
+  {
+    code: 'hi',
+    name: 'Hindi',
+    tesseract: 'hin',
+    script: 'devanagari',
+    stopwords: ['है', 'के', 'की', 'में', 'और', 'का', 'को', 'से', 'यह', 'हैं']
+  },
+  {
+    code: 'mr',
+    name: 'Marathi',
+    tesseract: 'mar',
+    script: 'devanagari',
+    stopwords: ['आहे', 'आणि', 'हे', 'या', 'व', 'ला', 'ने', 'मध्ये', 'आहेत', 'होते']
+  },
+  { code: 'bn', name: 'Bengali', tesseract: 'ben', script: 'bengali', stopwords: [] },
+  { code: 'pa', name: 'Punjabi', tesseract: 'pan', script: 'gurmukhi', stopwords: [] },
+  { code: 'gu', name: 'Gujarati', tesseract: 'guj', script: 'gujarati', stopwords: [] },
+  { code: 'ta', name: 'Tamil', tesseract: 'tam', script: 'tamil', stopwords: [] },
+  { code: 'te', name: 'Telugu', tesseract: 'tel', script: 'telugu', stopwords: [] },
+  { code: 'kn', name: 'Kannada', tesseract: 'kan', script: 'kannada', stopwords: [] },
+  { code: 'ml', name: 'Malayalam', tesseract: 'mal', script: 'malayalam', stopwords: [] },
+  { code: 'th', name: 'Thai', tesseract: 'tha', script: 'thai', stopwords: [] },
+  { code: 'ko', name: 'Korean', tesseract: 'kor', script: 'hangul', stopwords: [] },
+  { code: 'ja', name: 'Japanese', tesseract: 'jpn', script: 'kana', stopwords: [] },
+  { code: 'zh', name: 'Chinese', tesseract: 'chi_sim', script: 'han', stopwords: [] }
+];
+
+const MAX_SAMPLE_CHARS = 50000;
+const LETTER_PATTERN = /[\p{L}\p{M}]/gu;
+// Scripts written without spaces between words, where whitespace tokens say
+// nothing about OCR quality.
+const UNSPACED_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+export function detectLanguage(text: string, minLetters = 40): DetectedLanguage | null {
+  const sample = text.slice(0, MAX_SAMPLE_CHARS);
+  const scriptCounts = new Map<WritingScript, number>();
+  let totalLetters = 0;
+
+  for (const [letter] of sample.matchAll(/\p{L}/gu)) {
+    const match = SCRIPT_PATTERNS.find(entry => entry.pattern.test(letter));
+    if (!match) {
+      continue;
+    }
+    scriptCounts.set(match.script, (scriptCounts.get(match.script) ?? 0) + 1);
+    totalLetters += 1;
+  }
+
+  if (totalLetters < minLetters) {
+    return null;
+  }
+
+  let script = Array.from(scriptCounts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  let scriptLetters = scriptCounts.get(script) ?? 0;
+  // Japanese mixes kanji with kana; Chinese has no kana at all.
+  const kanaLetters = scriptCounts.get('kana') ?? 0;
+  if (script === 'han' && kanaLetters >= scriptLetters * 0.1) {
+    script = 'kana';
+    scriptLetters += kanaLetters;
+  } else if (script === 'kana') {
+    scriptLetters += scriptCounts.get('han') ?? 0;
+  }
+
+  const candidates = LANGUAGE_PROFILES.filter(profile => profile.script === script);
+  const scriptShare = Math.min(1, scriptLetters / totalLetters);
+  const { profile, stopwordShare } = pickByStopwords(sample, candidates);
+  return {
+    code: profile.code,
+    name: profile.name,
+    tesseract: profile.tesseract,
+    script,
+    confidence: Number((scriptShare * stopwordShare).toFixed(2))
+  };
+}
+
+export function findLanguageByCode(code: string | null | undefined): DetectedLanguage | null {
+  const profile = LANGUAGE_PROFILES.find(item => item.code === code?.trim().toLowerCase());
+  if (!profile) {
+    return null;
+  }
+  return { code: profile.code, name: profile.name, tesseract: profile.tesseract, script: profile.script, confidence: 1 };
+}
+
+/** Share of non-whitespace characters that are letters (or their combining marks) in any script. */
+export function computeLetterRatio(text: string): number {
+  const compact = text.replace(/\s+/g, '');
+  if (!compact) {
+    return 0;
+  }
+  const letters = compact.match(LETTER_PATTERN)?.length ?? 0;
+  return letters / compact.length;
+}
+
+/**
+ * Share of whitespace tokens with at most two letters or digits. Combining
+ * marks count towards a token's length so Indic vowel signs are not mistaken
+ * for noise, and tokens from scripts written without spaces are ignored.
+ */
+export function computeShortTokenRatio(text: string): number {
+  const tokens = text.split(/\s+/).filter(token => token && !UNSPACED_PATTERN.test(token));
+  if (!tokens.length) {
+    return 0;
+  }
+
+  const shortCount = tokens.filter(token => (token.match(/[\p{L}\p{M}\p{N}]/gu)?.length ?? 0) <= 2).length;
+  return shortCount / tokens.length;
+}
+
+function pickByStopwords(
+  sample: string,
+  candidates: LanguageProfile[]
+): { profile: LanguageProfile; stopwordShare: number } {
+  if (candidates.length === 1) {
+    return { profile: candidates[0], stopwordShare: 1 };
+  }
+
+  const counts = new Map<string, number>();
+  sample
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}]+/u)
+    .forEach(token => {
+      if (token) {
+        counts.set(token, (counts.get(token) ?? 0) + 1);
+      }
+    });
+
+  const scored = candidates
+    .map(profile => ({
+      profile,
+      hits: profile.stopwords.reduce((sum, word) => sum + (counts.get(word) ?? 0), 0)
+    }))
+    .sort((a, b) => b.hits - a.hits);
+  const totalHits = scored.reduce((sum, item) => sum + item.hits, 0);
+  if (!scored[0].hits) {
+    return { profile: candidates[0], stopwordShare: 0.5 };
+  }
+  return { profile: scored[0].profile, stopwordShare: Math.max(0.5, scored[0].hits / totalHits) };
+}
@@ -0,0 +1,17 @@
+export type ParsedDocumentType = 'slides' | 'text';
+
+export interface ParsedImage {
+  buffer: Buffer;
+  contentType: string;
+}
+
+export interface ParsedPage {
+  pageNumber: number;
+  text: string;
+  images: ParsedImage[];
+}
+
+export interface ParsedDocument {
+  docType: ParsedDocumentType;
+  pages: ParsedPage[];
+}
@@ -0,0 +1,72 @@
+import { createHash, Hash } from 'crypto';
+import { PDFArray, PDFDict, PDFDocument, PDFObject, PDFRef, PDFStream } from 'pdf-lib';
+
+/**
+ * Hashes what each page actually draws (content streams, resources and page
+ * boxes) with references resolved, so the same page produces the same hash
+ * after being sliced into a different PDF.
+ */
+export async function computePdfPageHashes(buffer: Buffer): Promise<string[]> {
+  const document = await PDFDocument.load(buffer, { ignoreEncryption: true, updateMetadata: false });
+  return document.getPages().map(page => {
+    const hash = createHash('sha256');
+    const seen = new Map<string, number>();
+    const node = page.node;
+    hashObject(document, node.Contents(), hash, seen);
+    hashObject(document, node.Resources(), hash, seen);
+    hashObject(document, node.MediaBox(), hash, seen);
+    hashObject(document, node.CropBox(), hash, seen);
+    hashObject(document, node.Rotate(), hash, seen);
+    return hash.digest('hex');
+  });
+}
+
+function hashObject(document: PDFDocument, object: PDFObject | undefined, hash: Hash, seen: Map<string, number>): void {
+  if (object === undefined) {
+    hash.update('|undefined');
+    return;
+  }
+
+  if (object instanceof PDFRef) {
+    const tag = object.toString();
+    const visited = seen.get(tag);
+    if (visited !== undefined) {
+      hash.update(`|ref:${visited}`);
+      return;
+    }
+    seen.set(tag, seen.size);
+    hashObject(document, document.context.lookup(object), hash, seen);
+    return;
+  }
+
+  if (object instanceof PDFStream) {
+    hashObject(document, object.dict, hash, seen);
+    hash.update('|stream:');
+    hash.update(object.getContents());
+    return;
+  }
+
+  if (object instanceof PDFDict) {
+    const entries = object
+      .entries()
+      .map(([key, value]) => [key.toString(), value] as const)
+      .filter(([key]) => key !== '/Parent')
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    hash.update('|dict<');
+    entries.forEach(([key, value]) => {
+      hash.update(key);
+      hashObject(document, value, hash, seen);
+    });
+    hash.update('>');
+    return;
+  }
+
+  if (object instanceof PDFArray) {
+    hash.update('|array[');
+    object.asArray().forEach(item => hashObject(document, item, hash, seen));
+    hash.update(']');
+    return;
+  }
+
+  hash.update(`|${object.toString()}`);
+}
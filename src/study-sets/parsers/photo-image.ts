@@ -0,0 +1,42 @@
+import heicConvert = require('heic-convert');
+
+export type PhotoContentType = 'image/jpeg' | 'image/png' | 'image/heic';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const HEIF_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+
+export function detectPhotoContentType(buffer: Buffer): PhotoContentType | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.length >= PNG_SIGNATURE.length && buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    return 'image/png';
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 4, 8) === 'ftyp' &&
+    HEIF_BRANDS.has(buffer.toString('ascii', 8, 12))
+  ) {
+    return 'image/heic';
+  }
+  return null;
+}
+
+export async function normalizePhoto(
+  buffer: Buffer,
+  jpegQuality = 0.92
+): Promise<{ buffer: Buffer; contentType: 'image/jpeg' | 'image/png'; extension: 'jpg' | 'png' }> {
+  const contentType = detectPhotoContentType(buffer);
+  switch (contentType) {
+    case 'image/jpeg':
+      return { buffer, contentType, extension: 'jpg' };
+    case 'image/png':
+      return { buffer, contentType, extension: 'png' };
+    case 'image/heic': {
+      const converted = await heicConvert({ buffer, format: 'JPEG', quality: jpegQuality });
+      return { buffer: Buffer.from(converted), contentType: 'image/jpeg', extension: 'jpg' };
+    }
+    default:
+      throw new Error('Unsupported photo format. Expected JPEG, PNG or HEIC.');
+  }
+}
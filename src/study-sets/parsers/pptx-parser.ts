@@ -0,0 +1,240 @@
+import * as JSZip from 'jszip';
+import * as path from 'path';
+import { ParsedDocument, ParsedImage, ParsedPage } from './parsed-document';
+import { decodeEntities } from './structured-text';
+
+const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  webp: 'image/webp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff'
+};
+
+interface Relationship {
+  type: string;
+  target: string;
+}
+
+interface SlideContent {
+  pageNumber: number;
+  title: string | null;
+  body: string[];
+  notes: string[];
+  mediaPaths: string[];
+}
+
+export async function parsePptx(buffer: Buffer): Promise<ParsedDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+  const presentation = await readZipText(zip, 'ppt/presentation.xml');
+  if (!presentation) {
+    throw new Error('Missing ppt/presentation.xml; file is not a PowerPoint presentation.');
+  }
+
+  const presentationRels = await readRelationships(zip, 'ppt/presentation.xml');
+  const slidePaths = Array.from(presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g))
+    .map(match => presentationRels.get(match[1]))
+    .filter((rel): rel is Relationship => Boolean(rel))
+    .map(rel => rel.target);
+
+  const slides: SlideContent[] = [];
+  for (let index = 0; index < slidePaths.length; index += 1) {
+    const slide = await readSlide(zip, slidePaths[index], index + 1);
+    if (slide) {
+      slides.push(slide);
+    }
+  }
+
+  // Logos and backgrounds repeated on most slides carry no study content and
+  // would otherwise send every slide through vision captioning.
+  const mediaUsage = new Map<string, number>();
+  slides.forEach(slide =>
+    new Set(slide.mediaPaths).forEach(media => mediaUsage.set(media, (mediaUsage.get(media) ?? 0) + 1))
+  );
+  const decorative = new Set(
+    Array.from(mediaUsage.entries())
+      .filter(([, count]) => count >= 3 && count >= slides.length / 2)
+      .map(([media]) => media)
+  );
+
+  const pages: ParsedPage[] = [];
+  for (const slide of slides) {
+    const images: ParsedImage[] = [];
+    for (const mediaPath of new Set(slide.mediaPaths)) {
+      if (decorative.has(mediaPath)) {
+        continue;
+      }
+      const extension = path.posix.extname(mediaPath).slice(1).toLowerCase();
+      const contentType = IMAGE_CONTENT_TYPES[extension];
+      const entry = zip.file(mediaPath);
+      if (!contentType || !entry) {
+        continue;
+      }
+      images.push({ buffer: await entry.async('nodebuffer'), contentType });
+    }
+
+    pages.push({
+      pageNumber: slide.pageNumber,
+      text: formatSlideText(slide),
+      images
+    });
+  }
+
+  return { docType: 'slides', pages };
+}
+
+function formatSlideText(slide: SlideContent): string {
+  const parts: string[] = [];
+  if (slide.title) {
+    parts.push(`# ${slide.title}`);
+  }
+  if (slide.body.length) {
+    parts.push(slide.body.join('\n'));
+  }
+  if (slide.notes.length) {
+    parts.push(`Speaker notes:\n${slide.notes.join('\n')}`);
+  }
+  return parts.join('\n\n');
+}
+
+async function readSlide(zip: JSZip, slidePath: string, pageNumber: number): Promise<SlideContent | null> {
+  const xml = await readZipText(zip, slidePath);
+  if (!xml) {
+    return null;
+  }
+
+  const rels = await readRelationships(zip, slidePath);
+  let title: string | null = null;
+  const body: string[] = [];
+
+  for (const block of xml.match(/<p:(?:sp|graphicFrame)\b[\s\S]*?<\/p:(?:sp|graphicFrame)>/g) ?? []) {
+    if (block.includes('<a:tbl>')) {
+      body.push(...readTable(block));
+      continue;
+    }
+
+    const placeholder = /<p:ph\b([^>]*)>/.exec(block);
+    const placeholderType = placeholder ? /\btype="([^"]+)"/.exec(placeholder[1])?.[1] ?? 'body' : null;
+    if (placeholderType === 'sldNum' || placeholderType === 'dt' || placeholderType === 'ftr') {
+      continue;
+    }
+
+    const paragraphs = readParagraphs(block);
+    if (!paragraphs.length) {
+      continue;
+    }
+
+    if ((placeholderType === 'title' || placeholderType === 'ctrTitle') && !title) {
+      title = paragraphs.map(paragraph => paragraph.text).join(' ');
+      continue;
+    }
+
+    paragraphs.forEach(paragraph => {
+      body.push(`${'  '.repeat(paragraph.level)}- ${paragraph.text}`);
+    });
+  }
+
+  const mediaPaths = Array.from(xml.matchAll(/\br:embed="([^"]+)"/g))
+    .map(match => rels.get(match[1]))
+    .filter((rel): rel is Relationship => Boolean(rel) && /\/image$/.test(rel!.type))
+    .map(rel => rel.target);
+
+  const notesRel = Array.from(rels.values()).find(rel => /\/notesSlide$/.test(rel.type));
+  const notes = notesRel ? await readNotes(zip, notesRel.target) : [];
+
+  return { pageNumber, title, body, notes, mediaPaths };
+}
+
+async function readNotes(zip: JSZip, notesPath: string): Promise<string[]> {
+  const xml = await readZipText(zip, notesPath);
+  if (!xml) {
+    return [];
+  }
+
+  const notes: string[] = [];
+  for (const block of xml.match(/<p:sp\b[\s\S]*?<\/p:sp>/g) ?? []) {
+    const placeholder = /<p:ph\b([^>]*)>/.exec(block);
+    const placeholderType = placeholder ? /\btype="([^"]+)"/.exec(placeholder[1])?.[1] ?? 'body' : null;
+    if (placeholderType && placeholderType !== 'body') {
+      continue;
+    }
+    notes.push(...readParagraphs(block).map(paragraph => paragraph.text));
+  }
+  return notes;
+}
+
+function readParagraphs(xml: string): Array<{ level: number; text: string }> {
+  const paragraphs: Array<{ level: number; text: string }> = [];
+  for (const paragraph of xml.match(/<a:p\b[\s\S]*?<\/a:p>/g) ?? []) {
+    const text = Array.from(paragraph.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g))
+      .map(match => (match[1] !== undefined ? decodeEntities(match[1]) : ' '))
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!text) {
+      continue;
+    }
+    const level = Number(/<a:pPr\b[^>]*\blvl="(\d+)"/.exec(paragraph)?.[1] ?? 0);
+    paragraphs.push({ level: Number.isFinite(level) ? level : 0, text });
+  }
+  return paragraphs;
+}
+
+function readTable(xml: string): string[] {
+  const rows = (xml.match(/<a:tr\b[\s\S]*?<\/a:tr>/g) ?? []).map(row =>
+    (row.match(/<a:tc\b[\s\S]*?<\/a:tc>/g) ?? []).map(cell =>
+      readParagraphs(cell)
+        .map(paragraph => paragraph.text)
+        .join(' ')
+        .replace(/\|/g, '\\|')
+    )
+  );
+  const populated = rows.filter(cells => cells.some(Boolean));
+  if (!populated.length) {
+    return [];
+  }
+
+  const width = Math.max(...populated.map(cells => cells.length));
+  const lines: string[] = [];
+  populated.forEach((cells, index) => {
+    const padded = cells.concat(Array(width - cells.length).fill(''));
+    lines.push(`| ${padded.join(' | ')} |`);
+    if (index === 0) {
+      lines.push(`| ${Array(width).fill('---').join(' | ')} |`);
+    }
+  });
+  return lines;
+}
+
+async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const directory = path.posix.dirname(partPath);
+  const relsPath = path.posix.join(directory, '_rels', `${path.posix.basename(partPath)}.rels`);
+  const xml = await readZipText(zip, relsPath);
+  const rels = new Map<string, Relationship>();
+  if (!xml) {
+    return rels;
+  }
+
+  for (const match of xml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const attributes = match[1];
+    const id = /\bId="([^"]+)"/.exec(attributes)?.[1];
+    const type = /\bType="([^"]+)"/.exec(attributes)?.[1];
+    const target = /\bTarget="([^"]+)"/.exec(attributes)?.[1];
+    if (!id || !type || !target || /\bTargetMode="External"/.test(attributes)) {
+      continue;
+    }
+    const resolved = target.startsWith('/')
+      ? target.slice(1)
+      : path.posix.normalize(path.posix.join(directory, decodeEntities(target)));
+    rels.set(id, { type, target: resolved });
+  }
+  return rels;
+}
+
+async function readZipText(zip: JSZip, entryPath: string): Promise<string | null> {
+  const entry = zip.file(entryPath);
+  return entry ? entry.async('string') : null;
+}
@@ -0,0 +1,397 @@
+export interface StructuredSection {
+  title: string | null;
+  text: string;
+}
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'head', 'iframe', 'object']);
+const BLOCK_TAGS = new Set([
+  'p',
+  'div',
+  'section',
+  'article',
+  'header',
+  'footer',
+  'main',
+  'aside',
+  'nav',
+  'blockquote',
+  'figure',
+  'figcaption',
+  'dl',
+  'dt',
+  'dd',
+  'address',
+  'hr'
+]);
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+  middot: '·',
+  times: '×',
+  divide: '÷',
+  deg: '°',
+  plusmn: '±',
+  copy: '©',
+  reg: '®'
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(attributes);
+  if (!match) {
+    return null;
+  }
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? '');
+}
+
+/**
+ * Converts HTML into markdown-style plain text that keeps the structure the
+ * study generators rely on: `#` headings, `-`/`1.` list items, `|` table rows
+ * and fenced code blocks. `imageLabel` lets callers replace `<img>` tags with
+ * their own markers (return null to drop the image).
+ */
+export function htmlToStructuredText(
+  html: string,
+  imageLabel?: (src: string, alt: string) => string | null
+): string {
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '')
+    .replace(/<!doctype[^>]*>/gi, '');
+  const tokenPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|([^<]+)|</g;
+  const lines: string[] = [];
+  const lists: Array<{ ordered: boolean; counter: number }> = [];
+  let current = '';
+  let prefix = '';
+  let skipDepth = 0;
+  let preDepth = 0;
+  let preBuffer = '';
+  let table: string[][] | null = null;
+  let row: string[] | null = null;
+  let cell: string | null = null;
+
+  const append = (text: string) => {
+    if (preDepth > 0) {
+      preBuffer += text;
+    } else if (cell !== null) {
+      cell += text;
+    } else {
+      current += text;
+    }
+  };
+
+  const flush = () => {
+    const text = current.replace(/\s+/g, ' ').trim();
+    if (text) {
+      lines.push(`${prefix}${text}`);
+    }
+    current = '';
+    prefix = '';
+  };
+
+  const blankLine = () => {
+    flush();
+    if (lines.length && lines[lines.length - 1] !== '') {
+      lines.push('');
+    }
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(source)) !== null) {
+    const [, closing, rawTag, attributes, text] = match;
+    if (text !== undefined || !rawTag) {
+      if (skipDepth === 0) {
+        const decoded = decodeEntities(text ?? '<');
+        append(preDepth > 0 ? decoded : decoded.replace(/\s+/g, ' '));
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    const isClosing = closing === '/';
+    const selfClosing = /\/\s*$/.test(attributes ?? '');
+
+    if (SKIPPED_TAGS.has(tag)) {
+      if (!selfClosing) {
+        skipDepth = Math.max(0, skipDepth + (isClosing ? -1 : 1));
+      }
+      continue;
+    }
+    if (skipDepth > 0) {
+      continue;
+    }
+
+    if (tag === 'pre') {
+      if (!isClosing) {
+        if (preDepth === 0) {
+          blankLine();
+          preBuffer = '';
+        }
+        preDepth += 1;
+      } else if (preDepth > 0) {
+        preDepth -= 1;
+        if (preDepth === 0) {
+          const code = preBuffer.replace(/^\n+|\s+$/g, '');
+          if (code) {
+            lines.push('```', ...code.split('\n'), '```', '');
+          }
+          preBuffer = '';
+        }
+      }
+      continue;
+    }
+
+    if (/^h[1-6]$/.test(tag)) {
+      if (cell !== null) {
+        continue;
+      }
+      flush();
+      if (!isClosing) {
+        prefix = `${'#'.repeat(Number(tag[1]))} `;
+      } else {
+        blankLine();
+      }
+      continue;
+    }
+
+    switch (tag) {
+      case 'br':
+        if (preDepth > 0) {
+          preBuffer += '\n';
+        } else if (cell !== null) {
+          cell += ' ';
+        } else {
+          const keepPrefix = prefix ? ' '.repeat(prefix.length) : '';
+          flush();
+          prefix = keepPrefix;
+        }
+        break;
+      case 'ul':
+      case 'ol':
+        flush();
+        if (!isClosing) {
+          lists.push({ ordered: tag === 'ol', counter: 0 });
+        } else {
+          lists.pop();
+          if (!lists.length) {
+            blankLine();
+          }
+        }
+        break;
+      case 'li':
+        flush();
+        if (!isClosing) {
+          const list = lists[lists.length - 1];
+          const depth = Math.max(0, lists.length - 1);
+          if (list) {
+            list.counter += 1;
+          }
+          prefix = `${'  '.repeat(depth)}${list?.ordered ? `${list.counter}.` : '-'} `;
+        }
+        break;
+      case 'table':
+        if (!isClosing) {
+          blankLine();
+          table = [];
+        } else if (table) {
+          const rows = table.filter(cells => cells.some(value => value));
+          if (rows.length) {
+            const width = Math.max(...rows.map(cells => cells.length));
+            rows.forEach((cells, index) => {
+              const padded = cells.concat(Array(width - cells.length).fill(''));
+              lines.push(`| ${padded.join(' | ')} |`);
+              if (index === 0) {
+                lines.push(`| ${Array(width).fill('---').join(' | ')} |`);
+              }
+            });
+            lines.push('');
+          }
+          table = null;
+        }
+        break;
+      case 'tr':
+        if (!isClosing) {
+          row = [];
+        } else if (row && table) {
+          table.push(row);
+          row = null;
+        }
+        break;
+      case 'td':
+      case 'th':
+        if (!isClosing) {
+          cell = '';
+        } else if (cell !== null) {
+          (row ?? (row = [])).push(cell.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim());
+          cell = null;
+        }
+        break;
+      case 'code':
+        append('`');
+        break;
+      case 'img': {
+        const src = readAttribute(attributes ?? '', 'src') ?? '';
+        const alt = readAttribute(attributes ?? '', 'alt') ?? '';
+        const label = imageLabel ? imageLabel(src, alt) : alt ? `[Image: ${alt}]` : null;
+        if (label) {
+          append(` ${label} `);
+        }
+        break;
+      }
+      default:
+        if (BLOCK_TAGS.has(tag)) {
+          if (lists.length && tag !== 'blockquote') {
+            const keepPrefix = prefix;
+            if (current.trim()) {
+              flush();
+              prefix = ' '.repeat(keepPrefix.length || 2);
+            } else {
+              prefix = keepPrefix;
+            }
+          } else {
+            blankLine();
+          }
+        }
+        break;
+    }
+  }
+
+  flush();
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Splits markdown-style text into page-like sections at its top heading
+ * levels, keeping fenced code blocks intact. Sections longer than `maxChars`
+ * are split further at paragraph boundaries.
+ */
+export function splitStructuredSections(text: string, maxChars = 4000): StructuredSection[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const headingPattern = /^(#{1,6})\s+(.+?)\s*#*$/;
+  let inFence = false;
+  let minLevel = 7;
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    const heading = inFence ? null : headingPattern.exec(line);
+    if (heading) {
+      minLevel = Math.min(minLevel, heading[1].length);
+    }
+  }
+
+  const breakLevel = Math.max(2, minLevel);
+  const sections: Array<{ title: string | null; lines: string[] }> = [];
+  let currentSection: { title: string | null; lines: string[] } = { title: null, lines: [] };
+  inFence = false;
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = inFence ? null : headingPattern.exec(line);
+    if (heading && heading[1].length <= breakLevel) {
+      const hasBody = currentSection.lines.some(item => item.trim() && !headingPattern.test(item));
+      if (hasBody) {
+        sections.push(currentSection);
+        currentSection = { title: heading[2].trim(), lines: [] };
+      } else if (!currentSection.title) {
+        currentSection.title = heading[2].trim();
+      }
+    }
+    currentSection.lines.push(line);
+  }
+  sections.push(currentSection);
+
+  const result: StructuredSection[] = [];
+  for (const section of sections) {
+    const body = section.lines.join('\n').trim();
+    if (!body) {
+      continue;
+    }
+    const chunks = splitLongText(body, maxChars);
+    chunks.forEach((chunk, index) => {
+      result.push({
+        title: section.title ? (index === 0 ? section.title : `${section.title} (cont.)`) : null,
+        text: chunk
+      });
+    });
+  }
+
+  return result;
+}
+
+function splitLongText(text: string, maxChars: number): string[] {
+  if (maxChars <= 0 || text.length <= maxChars) {
+    return [text];
+  }
+
+  const blocks: string[] = [];
+  let buffer: string[] = [];
+  let inFence = false;
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    buffer.push(line);
+    if (!inFence && !line.trim()) {
+      blocks.push(buffer.join('\n'));
+      buffer = [];
+    }
+  }
+  if (buffer.length) {
+    blocks.push(buffer.join('\n'));
+  }
+
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const block of blocks) {
+    if (chunk && chunk.length + block.length + 1 > maxChars) {
+      chunks.push(chunk.trim());
+      chunk = '';
+    }
+    if (block.length > maxChars) {
+      for (let offset = 0; offset < block.length; offset += maxChars) {
+        const piece = block.slice(offset, offset + maxChars).trim();
+        if (piece) {
+          chunks.push(piece);
+        }
+      }
+      continue;
+    }
+    chunk = chunk ? `${chunk}\n${block}` : block;
+  }
+  if (chunk.trim()) {
+    chunks.push(chunk.trim());
+  }
+
+  return chunks.filter(Boolean);
+}
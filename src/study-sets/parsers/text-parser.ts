@@ -0,0 +1,63 @@
+import { ParsedDocument } from './parsed-document';
+import { htmlToStructuredText, splitStructuredSections } from './structured-text';
+
+export function parseMarkdown(buffer: Buffer, sectionMaxChars = 4000): ParsedDocument {
+  const lines = decodeText(buffer).split('\n');
+  const normalized: string[] = [];
+  let inFence = false;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      normalized.push(line);
+      continue;
+    }
+    if (inFence) {
+      normalized.push(line);
+      continue;
+    }
+
+    const underline = lines[index + 1];
+    if (line.trim() && underline !== undefined && /^\s*(=+|-+)\s*$/.test(underline) && !/^\s*[-*+]\s/.test(line)) {
+      normalized.push(`${underline.trim().startsWith('=') ? '#' : '##'} ${line.trim()}`);
+      index += 1;
+      continue;
+    }
+
+    normalized.push(
+      line.replace(/!\[([^\]]*)\]\([^)]*\)/g, (_, alt: string) => (alt.trim() ? `[Image: ${alt.trim()}]` : '[Image]'))
+    );
+  }
+
+  return toParsedDocument(normalized.join('\n'), sectionMaxChars);
+}
+
+export function parseHtml(buffer: Buffer, sectionMaxChars = 4000): ParsedDocument {
+  return toParsedDocument(htmlToStructuredText(decodeText(buffer)), sectionMaxChars);
+}
+
+export function parsePlainText(buffer: Buffer, sectionMaxChars = 4000): ParsedDocument {
+  return toParsedDocument(decodeText(buffer), sectionMaxChars);
+}
+
+export function looksLikeText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 8192);
+  return !sample.includes(0);
+}
+
+function decodeText(buffer: Buffer): string {
+  return buffer
+    .toString('utf8')
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n');
+}
+
+function toParsedDocument(text: string, sectionMaxChars: number): ParsedDocument {
+  const pages = splitStructuredSections(text.trim(), sectionMaxChars).map((section, index) => ({
+    pageNumber: index + 1,
+    text: section.text,
+    images: []
+  }));
+  return { docType: 'text', pages };
+}
@@ -0,0 +1,242 @@
+import { BadRequestException, ConflictException, Injectable, Logger } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { StudySetsService } from './study-sets.service';
+import { DocumentProcessingService } from './document-processing.service';
+import { CreatePracticeExamDto } from './dto/practice-exam.dto';
+import { PracticeExamDocument } from './schemas/practice-exam.schema';
+import { QuizzesService } from '../quizzes/quizzes.service';
+import { DEFAULT_QUIZ_QUESTION_TYPES, QuizQuestion } from '../quizzes/quiz-questions';
+import {
+  assembleExam,
+  ExamGap,
+  fillGapsFromPool,
+  planPracticeExam,
+  PoolQuestion,
+  PracticeExamBlueprint,
+  QuizDifficulty,
+  topicKey
+} from '../quizzes/practice-exam-plan';
+import { DifficultyMix, QUIZ_DIFFICULTIES, selectByDifficulty } from '../ai/generation-options';
+import { normalizeOutputLanguage, OutputLanguage } from '../ai/output-language';
+import { UsageService } from '../usage/usage.service';
+
+interface GapContext {
+  studySet: Types.ObjectId;
+  blueprint: PracticeExamBlueprint;
+  pool: PoolQuestion[];
+  files: Array<{ fileId: string; fileName: string }>;
+  topicLabels: Map<string, string>;
+  language?: OutputLanguage;
+}
+
+/**
+ * Assembles practice exams from the quiz questions of every file in a study
+ * set. Where the quizzes do not cover the blueprint, extra questions are
+ * generated from the file sources; what still cannot be covered is filled with
+ * other quiz questions.
+ */
+@Injectable()
+export class PracticeExamBuilderService {
+  private readonly logger = new Logger(PracticeExamBuilderService.name);
+
+  constructor(
+    private readonly studySetsService: StudySetsService,
+    private readonly quizzesService: QuizzesService,
+    private readonly documentProcessing: DocumentProcessingService,
+    private readonly usageService: UsageService
+  ) {}
+
+  async build(userId: string, studySetId: string, dto: CreatePracticeExamDto): Promise<PracticeExamDocument> {
+    const { studySet, language, files, pool } = await this.studySetsService.getPracticeExamPool(
+      userId,
+      studySetId,
+      dto.language
+    );
+    const { blueprint, topicLabels } = this.resolveBlueprint(dto, files, pool);
+    const plan = planPracticeExam(pool, blueprint);
+
+    let generated: PoolQuestion[] = [];
+    let leftover: ExamGap[] = [];
+    if (plan.gaps.length) {
+      this.logger.log(`Practice exam for study set ${studySetId} has ${plan.gaps.length} uncovered bucket(s)`);
+      const context: GapContext = {
+        studySet: studySet._id,
+        blueprint,
+        pool,
+        files,
+        topicLabels,
+        language: normalizeOutputLanguage(language) ?? undefined
+      };
+      ({ generated, leftover } = await this.usageService.track({ userId, studySetId }, () =>
+        this.generateForGaps(plan.gaps, context)
+      ));
+    }
+
+    const filled = fillGapsFromPool(pool, plan.picked, leftover, blueprint.weightBy);
+    const questions = assembleExam([...plan.picked, ...generated, ...filled]);
+    if (!questions.length) {
+      throw new BadRequestException('No quiz questions are available. Generate quizzes for this study set first.');
+    }
+
+    return this.studySetsService.savePracticeExam({
+      studySet: studySet._id,
+      title: dto.title?.trim() || studySet.title,
+      language,
+      blueprint,
+      questions
+    });
+  }
+
+  private resolveBlueprint(
+    dto: CreatePracticeExamDto,
+    files: Array<{ fileId: string; fileName: string }>,
+    pool: PoolQuestion[]
+  ): { blueprint: PracticeExamBlueprint; topicLabels: Map<string, string> } {
+    const weightBy = dto.weightBy ?? 'file';
+    const weights: Record<string, number> = {};
+    const topicLabels = new Map<string, string>();
+
+    if (dto.weights?.length) {
+      const fileIds = new Set(files.map(file => file.fileId));
+      for (const entry of dto.weights) {
+        const key = weightBy === 'file' ? entry.key : topicKey(entry.key);
+        if (weightBy === 'file' && !fileIds.has(key)) {
+          throw new BadRequestException(`File ${entry.key} is not part of this study set.`);
+        }
+        if (!key) {
+          throw new BadRequestException('Weight keys cannot be empty.');
+        }
+        if (weightBy === 'topic' && !topicLabels.has(key)) {
+          // Generated questions reuse the quizzes' spelling of the tag.
+          const tagged = pool.find(question => topicKey(question.question.topicTag) === key);
+          topicLabels.set(key, tagged?.question.topicTag?.trim() ?? entry.key.trim());
+        }
+        weights[key] = (weights[key] ?? 0) + entry.weight;
+      }
+    } else if (weightBy === 'topic') {
+      throw new BadRequestException('Topic exams need weights for the topic tags to cover.');
+    } else {
+      // Every file with quiz questions counts the same; files without any only when none have quizzes yet.
+      const quizzed = new Set(pool.map(entry => entry.fileId));
+      const candidates = files.some(file => quizzed.has(file.fileId))
+        ? files.filter(file => quizzed.has(file.fileId))
+        : files;
+      candidates.forEach(file => {
+        weights[file.fileId] = 1;
+      });
+    }
+
+    if (!Object.values(weights).some(weight => weight > 0)) {
+      throw new BadRequestException('At least one weight must be greater than zero.');
+    }
+
+    const difficulty = Object.fromEntries(
+      QUIZ_DIFFICULTIES.filter(level => (dto.difficulty?.[level] ?? 0) > 0).map(level => [level, dto.difficulty?.[level]])
+    ) as DifficultyMix<QuizDifficulty>;
+
+    return {
+      blueprint: {
+        questionCount: dto.questionCount,
+        weightBy,
+        weights,
+        difficulty: Object.keys(difficulty).length ? difficulty : null,
+        timeLimitMinutes: dto.timeLimitMinutes ?? null
+      },
+      topicLabels
+    };
+  }
+
+  /** Generates the missing questions bucket by bucket; buckets that fail are returned as leftover gaps. */
+  private async generateForGaps(
+    gaps: ExamGap[],
+    context: GapContext
+  ): Promise<{ generated: PoolQuestion[]; leftover: ExamGap[] }> {
+    const generated: PoolQuestion[] = [];
+    const leftover: ExamGap[] = [];
+    const known = new Set(context.pool.map(entry => questionKey(entry.question)));
+
+    for (const gap of gaps) {
+      const count = gap.missing.reduce((sum, entry) => sum + entry.count, 0);
+      let questions: PoolQuestion[] = [];
+      try {
+        questions = await this.generateForGap(gap, count, context);
+      } catch (error) {
+        if (error instanceof ConflictException) {
+          throw error;
+        }
+        this.logger.warn(
+          `Could not generate practice exam questions for ${gap.key}. Using quiz questions instead.`,
+          error as Error
+        );
+      }
+
+      const fresh = questions.filter(entry => !known.has(questionKey(entry.question))).slice(0, count);
+      fresh.forEach(entry => known.add(questionKey(entry.question)));
+      generated.push(...fresh);
+      if (fresh.length < count) {
+        leftover.push({ key: gap.key, missing: [{ level: null, count: count - fresh.length }] });
+      }
+    }
+
+    return { generated, leftover };
+  }
+
+  private async generateForGap(gap: ExamGap, count: number, context: GapContext): Promise<PoolQuestion[]> {
+    const file = this.pickSourceFile(gap.key, context);
+    if (!file) {
+      return [];
+    }
+    const snapshot = await this.studySetsService.getLatestFileSnapshot(context.studySet, file.fileId);
+    if (!snapshot) {
+      this.logger.warn(`${file.fileName} has not been processed yet; no questions can be generated from it.`);
+      return [];
+    }
+
+    const topic = context.blueprint.weightBy === 'topic' ? (context.topicLabels.get(gap.key) ?? gap.key) : null;
+    const difficulty = Object.fromEntries(
+      gap.missing.filter(entry => entry.level !== null).map(entry => [entry.level, entry.count])
+    ) as DifficultyMix<QuizDifficulty>;
+    const types = Array.from(
+      new Set(context.pool.filter(entry => entry.fileId === file.fileId).map(entry => entry.question.type))
+    );
+
+    // Extraction can take minutes, so only sources that need no OCR or vision are used in the request.
+    const source = await this.documentProcessing.findCachedStudySource(snapshot);
+    if (!source) {
+      throw new ConflictException(
+        `${file.fileName} has to be processed again before practice exam questions can be generated from it.`
+      );
+    }
+    const response = await this.quizzesService.generateQuiz(
+      source.text,
+      topic ?? file.fileName,
+      context.language,
+      types.length ? types : DEFAULT_QUIZ_QUESTION_TYPES,
+      { count, difficulty, ...(topic ? { focusTopics: [topic] } : {}) }
+    );
+
+    return selectByDifficulty(response.questions, count, difficulty, question => question.difficulty).map(question => ({
+      fileId: file.fileId,
+      fileName: file.fileName,
+      sourceIndex: null,
+      question: topic ? { ...question, topicTag: topic } : question
+    }));
+  }
+
+  /** The file itself for file buckets; for topics, the file whose quizzes test the topic most. */
+  private pickSourceFile(key: string, context: GapContext): { fileId: string; fileName: string } | null {
+    if (context.blueprint.weightBy === 'file') {
+      return context.files.find(file => file.fileId === key) ?? null;
+    }
+    const counts = new Map<string, number>();
+    context.pool
+      .filter(entry => topicKey(entry.question.topicTag) === key)
+      .forEach(entry => counts.set(entry.fileId, (counts.get(entry.fileId) ?? 0) + 1));
+    const [best] = [...counts].sort((a, b) => b[1] - a[1]);
+    return (best && context.files.find(file => file.fileId === best[0])) ?? context.files[0] ?? null;
+  }
+}
+
+function questionKey(question: QuizQuestion): string {
+  return question.question.toLowerCase().replace(/\s+/g, ' ').trim();
+}
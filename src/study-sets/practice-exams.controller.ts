@@ -0,0 +1,94 @@
+import { Body, Controller, Get, Param, Post, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { ApiBearerAuth, ApiCreatedResponse, ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { StudySetsService } from './study-sets.service';
+import { PracticeExamBuilderService } from './practice-exam-builder.service';
+import { PracticeExamDocument } from './schemas/practice-exam.schema';
+import { CreatePracticeExamDto, PracticeExamResponseDto, PracticeExamSummaryDto } from './dto/practice-exam.dto';
+
+@ApiTags('Practice Exams')
+@ApiBearerAuth('bearer')
+@Controller('study-sets/:id/practice-exams')
+export class PracticeExamsController {
+  constructor(
+    private readonly studySetsService: StudySetsService,
+    private readonly practiceExamBuilder: PracticeExamBuilderService
+  ) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Build a practice exam',
+    description:
+      'Assembles an exam from the quiz questions of all files following the blueprint (question count, file or topic weights, difficulty mix and time limit). Questions are generated where the quizzes do not cover the blueprint. The exam is stored so it can be retaken.'
+  })
+  @ApiCreatedResponse({ description: 'Practice exam created successfully', type: PracticeExamResponseDto })
+  async createPracticeExam(
+    @Param('id') studySetId: string,
+    @Body() dto: CreatePracticeExamDto,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<PracticeExamResponseDto> {
+    const exam = await this.practiceExamBuilder.build(req.user.id, studySetId, dto);
+    return this.toResponse(exam);
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'List practice exams',
+    description: 'Returns the practice exams of a study set, newest first, without their questions.'
+  })
+  @ApiOkResponse({ description: 'Practice exams fetched successfully', type: [PracticeExamSummaryDto] })
+  async listPracticeExams(
+    @Param('id') studySetId: string,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<PracticeExamSummaryDto[]> {
+    const exams = await this.studySetsService.listPracticeExams(req.user.id, studySetId);
+    return exams.map(exam => this.toSummary(exam));
+  }
+
+  @Get(':examId')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Get a practice exam',
+    description: 'Returns a stored practice exam with its questions, to take or retake it.'
+  })
+  @ApiOkResponse({ description: 'Practice exam fetched successfully', type: PracticeExamResponseDto })
+  async getPracticeExam(
+    @Param('id') studySetId: string,
+    @Param('examId') examId: string,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<PracticeExamResponseDto> {
+    const exam = await this.studySetsService.getPracticeExam(req.user.id, studySetId, examId);
+    return this.toResponse(exam);
+  }
+
+  private toSummary(exam: PracticeExamDocument): PracticeExamSummaryDto {
+    return {
+      examId: exam._id.toString(),
+      studySetId: exam.studySet.toString(),
+      title: exam.title,
+      language: exam.language ?? null,
+      timeLimitMinutes: exam.timeLimitMinutes ?? null,
+      questionCount: exam.questions.length,
+      generatedCount: exam.questions.filter(question => question.origin === 'generated').length,
+      blueprint: { ...exam.blueprint },
+      createdAt: exam.createdAt ?? null
+    };
+  }
+
+  private toResponse(exam: PracticeExamDocument): PracticeExamResponseDto {
+    return {
+      ...this.toSummary(exam),
+      questions: exam.questions.map(entry => ({
+        number: entry.number,
+        fileId: entry.fileId,
+        fileName: entry.fileName,
+        origin: entry.origin,
+        sourceIndex: entry.sourceIndex,
+        question: { ...entry.question }
+      }))
+    };
+  }
+}
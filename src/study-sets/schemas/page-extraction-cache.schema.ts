@@ -0,0 +1,65 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument } from 'mongoose';
+import {
+  ExtractionClassificationSource,
+  ExtractionDocumentType,
+  ExtractionPageReport
+} from './study-set-extraction-report.schema';
+
+export type PageExtractionCacheDocument = HydratedDocument<PageExtractionCache>;
+
+@Schema({ timestamps: true, collection: 'page_extraction_cache' })
+export class PageExtractionCache {
+  @Prop({ required: true })
+  contentHash!: string;
+
+  @Prop({ required: true })
+  settingsFingerprint!: string;
+
+  @Prop({ required: true })
+  pageNumber!: number;
+
+  @Prop({ required: true })
+  pageCount!: number;
+
+  @Prop({ type: String, enum: ['slides', 'text', 'photos'], required: true })
+  documentType!: ExtractionDocumentType;
+
+  @Prop({ type: String, enum: ['heuristic', 'format'], required: true })
+  classificationSource!: ExtractionClassificationSource;
+
+  @Prop({ type: String, default: null })
+  language!: string | null;
+
+  @Prop({ type: String, default: null })
+  pageHash!: string | null;
+
+  @Prop({ type: String, default: '' })
+  text!: string;
+
+  @Prop({ type: Number, default: null })
+  ocrConfidence!: number | null;
+
+  @Prop({ default: false })
+  needsVision!: boolean;
+
+  @Prop({ type: String, default: null })
+  needsVisionReason!: string | null;
+
+  @Prop({ type: String, default: null })
+  visionSummary!: string | null;
+
+  @Prop({ type: Object, default: null })
+  report!: ExtractionPageReport | null;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const PageExtractionCacheSchema = SchemaFactory.createForClass(PageExtractionCache);
+
+PageExtractionCacheSchema.index({ contentHash: 1, settingsFingerprint: 1, pageNumber: 1 }, { unique: true });
+PageExtractionCacheSchema.index({ settingsFingerprint: 1, pageHash: 1 });
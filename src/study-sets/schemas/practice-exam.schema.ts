@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { StudySet } from './study-set.schema';
+import { PracticeExamBlueprint, PracticeExamQuestion } from '../../quizzes/practice-exam-plan';
+
+export type PracticeExamDocument = HydratedDocument<PracticeExam>;
+
+/** A fixed set of questions assembled from a blueprint, kept so the same exam can be retaken. */
+@Schema({ timestamps: true })
+export class PracticeExam {
+  @Prop({ type: Types.ObjectId, ref: StudySet.name, required: true })
+  studySet!: Types.ObjectId;
+
+  @Prop({ required: true })
+  title!: string;
+
+  @Prop({ type: String, default: null })
+  language!: string | null;
+
+  @Prop({ type: Object, required: true })
+  blueprint!: PracticeExamBlueprint;
+
+  @Prop({ type: [Object], default: [] })
+  questions!: PracticeExamQuestion[];
+
+  @Prop({ type: Number, default: null })
+  timeLimitMinutes!: number | null;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const PracticeExamSchema = SchemaFactory.createForClass(PracticeExam);
+
+PracticeExamSchema.index({ studySet: 1, createdAt: -1 });
@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { StudySet } from './study-set.schema';
+import { STUDY_GUIDE_FORMATS, StudyGuide as StudyGuideContent, StudyGuideFormat } from '../../study-guides/study-guides.service';
+
+export type StudyGuideDocument = HydratedDocument<StudyGuide>;
+
+/** The latest study guide of a study set per language and format; regenerating replaces it. */
+@Schema({ timestamps: true })
+export class StudyGuide {
+  @Prop({ type: Types.ObjectId, ref: StudySet.name, required: true })
+  studySet!: Types.ObjectId;
+
+  @Prop({ type: String, default: null })
+  language!: string | null;
+
+  @Prop({ type: String, enum: [...STUDY_GUIDE_FORMATS], required: true })
+  format!: StudyGuideFormat;
+
+  @Prop({ required: true })
+  maxWords!: number;
+
+  @Prop({ type: Object, required: true })
+  guide!: StudyGuideContent;
+
+  @Prop({ type: [Object], default: [] })
+  sourceFiles!: Array<{ fileId: string; fileName: string }>;
+
+  @Prop({ required: true })
+  model!: string;
+
+  @Prop({ required: true })
+  promptVersion!: string;
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const StudyGuideSchema = SchemaFactory.createForClass(StudyGuide);
+
+StudyGuideSchema.index({ studySet: 1, language: 1, format: 1 }, { unique: true });
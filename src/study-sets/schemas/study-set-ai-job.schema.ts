@@ -2,11 +2,22 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { HydratedDocument, Types } from 'mongoose';
 import { StudySet } from './study-set.schema';
 import { User } from '../../users/schemas/user.schema';
+import { QuizQuestionType } from '../../quizzes/quiz-questions';
+import { FlashcardGenerationMode } from '../../flashcards/flashcards.service';
+import { GenerationOptions } from '../../ai/generation-options';
+import { LlmCallRecord, UsageTotals } from '../../llm/llm-usage';
 
 export type StudySetAiJobDocument = HydratedDocument<StudySetAiJob>;
 
 export type StudySetAiJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
+/** LLM usage summed over every attempt of a job, per model, with the latest individual calls. */
+export interface StudySetAiJobUsage extends UsageTotals {
+  /** Keyed by an escaped model name, since MongoDB field names cannot contain dots. */
+  models?: Record<string, UsageTotals & { model: string }>;
+  callLog: LlmCallRecord[];
+}
+
 export interface AiProcessFileSnapshot {
   fileId: string;
   fileName: string;
@@ -22,6 +33,7 @@ export interface AiProcessFileSnapshot {
   storedSizeBytes?: number | null;
   textContent?: string | null;
   pageImageKeys?: Array<{ pageNumber: number; storageKey: string }>;
+  detectedLanguage?: string | null;
   notes: string[];
 }
 
@@ -66,10 +78,16 @@ export class StudySetAiJob {
   @Prop()
   lastError?: string;
 
+  @Prop({ type: Object })
+  usage?: StudySetAiJobUsage;
+
   @Prop({ type: Object, required: true })
   payload!: {
     preferredLanguage?: string | null;
     aiFeatures: string[];
+    quizQuestionTypes?: QuizQuestionType[] | null;
+    flashcardMode?: FlashcardGenerationMode | null;
+    generationOptions?: GenerationOptions | null;
     manualContent?: string | null;
     files: AiProcessFileSnapshot[];
   };
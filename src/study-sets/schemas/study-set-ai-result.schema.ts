@@ -5,9 +5,12 @@ import { StudySetAiJob } from './study-set-ai-job.schema';
 
 export type StudySetAiResultDocument = HydratedDocument<StudySetAiResult>;
 
-export type StudySetAiFeature = 'summary' | 'flashcards' | 'quizzes';
+export type StudySetAiFeature = 'summary' | 'flashcards' | 'quizzes' | 'glossary' | 'conceptMap';
 export type StudySetAiResultStatus = 'pending' | 'processing' | 'completed' | 'failed';
 
+/** fileId used for results that cover the whole study set, such as the master summary and merged glossary or concept map. */
+export const STUDY_SET_RESULT_FILE_ID = '__study_set__';
+
 @Schema({ timestamps: true })
 export class StudySetAiResult {
   @Prop({ type: Types.ObjectId, ref: StudySetAiJob.name, required: true })
@@ -22,9 +25,12 @@ export class StudySetAiResult {
   @Prop({ required: true })
   fileName!: string;
 
-  @Prop({ type: String, enum: ['summary', 'flashcards', 'quizzes'], required: true })
+  @Prop({ type: String, enum: ['summary', 'flashcards', 'quizzes', 'glossary', 'conceptMap'], required: true })
   feature!: StudySetAiFeature;
 
+  @Prop({ type: String, default: null })
+  language!: string | null;
+
   @Prop({ type: String, enum: ['pending', 'processing', 'completed', 'failed'], default: 'pending' })
   status!: StudySetAiResultStatus;
 
@@ -43,4 +49,4 @@ export class StudySetAiResult {
 
 export const StudySetAiResultSchema = SchemaFactory.createForClass(StudySetAiResult);
 
-StudySetAiResultSchema.index({ studySet: 1, fileId: 1, feature: 1 }, { unique: true });
+StudySetAiResultSchema.index({ studySet: 1, fileId: 1, feature: 1, language: 1 }, { unique: true });
@@ -0,0 +1,88 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { StudySet } from './study-set.schema';
+import { StudySetAiJob } from './study-set-ai-job.schema';
+
+export type StudySetExtractionReportDocument = HydratedDocument<StudySetExtractionReport>;
+
+export type ExtractionDocumentType = 'slides' | 'text' | 'photos';
+export type ExtractionClassificationSource = 'heuristic' | 'format';
+
+export interface ExtractionPageReport {
+  pageNumber: number;
+  textChars: number;
+  nativeTextChars: number;
+  alphaRatio: number;
+  ocrTextLen: number;
+  ocrConfidence: number | null;
+  shortTokenRatio: number;
+  imageCount: number;
+  imageAreaRatio: number;
+  vectorOps: number;
+  duplicateOf: number | null;
+  needsVision: boolean;
+  needsVisionReason: string;
+  visionRankScore: number;
+  hasVisionCaption: boolean;
+  fromCache: boolean;
+}
+
+export interface ExtractionReport {
+  fileKind: string;
+  documentType: ExtractionDocumentType;
+  classificationSource: ExtractionClassificationSource;
+  language: string | null;
+  pageCount: number;
+  visionPages: number;
+  cachedPages: number;
+  pages: ExtractionPageReport[];
+}
+
+@Schema({ timestamps: true })
+export class StudySetExtractionReport {
+  @Prop({ type: Types.ObjectId, ref: StudySet.name, required: true })
+  studySet!: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: StudySetAiJob.name, required: true })
+  job!: Types.ObjectId;
+
+  @Prop({ required: true })
+  fileId!: string;
+
+  @Prop({ required: true })
+  fileName!: string;
+
+  @Prop({ required: true })
+  fileKind!: string;
+
+  @Prop({ type: String, enum: ['slides', 'text', 'photos'], required: true })
+  documentType!: ExtractionDocumentType;
+
+  @Prop({ type: String, enum: ['heuristic', 'format'], required: true })
+  classificationSource!: ExtractionClassificationSource;
+
+  @Prop({ type: String, default: null })
+  language!: string | null;
+
+  @Prop({ required: true })
+  pageCount!: number;
+
+  @Prop({ default: 0 })
+  visionPages!: number;
+
+  @Prop({ default: 0 })
+  cachedPages!: number;
+
+  @Prop({ type: [Object], default: [] })
+  pages!: ExtractionPageReport[];
+
+  @Prop()
+  createdAt?: Date;
+
+  @Prop()
+  updatedAt?: Date;
+}
+
+export const StudySetExtractionReportSchema = SchemaFactory.createForClass(StudySetExtractionReport);
+
+StudySetExtractionReportSchema.index({ studySet: 1, fileId: 1 }, { unique: true });
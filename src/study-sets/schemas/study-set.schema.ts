@@ -45,6 +45,18 @@ export class FileSummary {
 
   @Prop({ type: [{ pageNumber: Number, storageKey: String }], default: [] })
   pageImageKeys?: Array<{ pageNumber: number; storageKey: string }>;
+
+  @Prop({ type: String, default: null })
+  originalStorageKey?: string | null;
+
+  @Prop({ type: Number, default: null })
+  originalPageCount?: number | null;
+
+  @Prop({ type: [{ pageNumber: Number, storageKey: String }], default: [] })
+  originalPageImageKeys?: Array<{ pageNumber: number; storageKey: string }>;
+
+  @Prop({ type: String, default: null })
+  detectedLanguage?: string | null;
 }
 
 export const FileSummarySchema = SchemaFactory.createForClass(FileSummary);
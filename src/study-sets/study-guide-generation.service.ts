@@ -0,0 +1,72 @@
+import { Injectable, Logger, UnprocessableEntityException } from '@nestjs/common';
+import { StudySetsService } from './study-sets.service';
+import { StudyGuideDocument } from './schemas/study-guide.schema';
+import { StudyGuideFormat, StudyGuidesService } from '../study-guides/study-guides.service';
+import { findUnprintableCharacters, renderStudyGuidePdf } from '../study-guides/study-guide-pdf';
+import { normalizeOutputLanguage } from '../ai/output-language';
+import { UsageService } from '../usage/usage.service';
+
+/** Builds exam study guides from a study set's finished results and exports them as PDF. */
+@Injectable()
+export class StudyGuideGenerationService {
+  private readonly logger = new Logger(StudyGuideGenerationService.name);
+
+  constructor(
+    private readonly studySetsService: StudySetsService,
+    private readonly studyGuidesService: StudyGuidesService,
+    private readonly usageService: UsageService
+  ) {}
+
+  async generate(
+    userId: string,
+    studySetId: string,
+    options: { format: StudyGuideFormat; maxWords: number; language?: string }
+  ): Promise<StudyGuideDocument> {
+    const { studySet, language, material, sourceFiles } = await this.studySetsService.getStudyGuideMaterial(
+      userId,
+      studySetId,
+      options.language
+    );
+
+    this.logger.log(
+      `Building ${options.format} study guide for study set ${studySetId} from ${material.summaries.length} summary(ies), ` +
+        `${material.terms.length} term(s) and ${material.quizTopics.length} quiz topic(s)`
+    );
+    const generated = await this.usageService.track({ userId, studySetId }, () =>
+      this.studyGuidesService.generateStudyGuide(
+        material,
+        options.format,
+        options.maxWords,
+        normalizeOutputLanguage(language) ?? undefined
+      )
+    );
+
+    return this.studySetsService.saveStudyGuide({
+      studySet: studySet._id,
+      language,
+      maxWords: options.maxWords,
+      guide: generated.guide,
+      sourceFiles,
+      model: generated.model,
+      promptVersion: generated.promptVersion
+    });
+  }
+
+  async exportPdf(
+    userId: string,
+    studySetId: string,
+    format: StudyGuideFormat,
+    language?: string
+  ): Promise<{ fileName: string; buffer: Buffer }> {
+    const studyGuide = await this.studySetsService.getStudyGuide(userId, studySetId, format, language);
+    const unprintable = await findUnprintableCharacters(studyGuide.guide);
+    if (unprintable.length) {
+      throw new UnprocessableEntityException(
+        `The PDF export cannot print some characters of this study guide (${unprintable.slice(0, 10).join(' ')}). Use the study guide itself instead.`
+      );
+    }
+    const buffer = await renderStudyGuidePdf(studyGuide.guide, studyGuide.language);
+    const baseName = studyGuide.guide.title.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'study-guide';
+    return { fileName: `${baseName}-${format}.pdf`, buffer };
+  }
+}
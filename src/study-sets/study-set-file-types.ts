@@ -0,0 +1,89 @@
+import { detectPhotoContentType } from './parsers/photo-image';
+import { looksLikeText } from './parsers/text-parser';
+
+export type StudySetFileKind = 'pdf' | 'docx' | 'pptx' | 'image' | 'markdown' | 'html' | 'text';
+
+interface StudySetFileType {
+  extensions: string[];
+  mimeTypes: string[];
+  contentType: string;
+  sniff?: (buffer: Buffer) => boolean;
+}
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+const isZipArchive = (buffer: Buffer) => ZIP_SIGNATURE.every((byte, index) => buffer[index] === byte);
+
+export const STUDY_SET_FILE_TYPES: Record<StudySetFileKind, StudySetFileType> = {
+  pdf: {
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf', 'application/x-pdf'],
+    contentType: 'application/pdf'
+  },
+  docx: {
+    extensions: ['docx'],
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/zip',
+      'application/octet-stream'
+    ],
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    sniff: isZipArchive
+  },
+  pptx: {
+    extensions: ['pptx'],
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'application/zip',
+      'application/octet-stream'
+    ],
+    contentType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    sniff: isZipArchive
+  },
+  image: {
+    extensions: ['jpg', 'jpeg', 'png', 'heic', 'heif'],
+    mimeTypes: ['image/jpeg', 'image/pjpeg', 'image/png', 'image/heic', 'image/heif', 'application/octet-stream'],
+    contentType: 'image/jpeg',
+    sniff: buffer => detectPhotoContentType(buffer) !== null
+  },
+  markdown: {
+    extensions: ['md', 'markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown', 'text/plain', 'application/octet-stream'],
+    contentType: 'text/markdown; charset=utf-8',
+    sniff: looksLikeText
+  },
+  html: {
+    extensions: ['html', 'htm'],
+    mimeTypes: ['text/html', 'application/xhtml+xml', 'text/plain', 'application/octet-stream'],
+    contentType: 'text/html; charset=utf-8',
+    sniff: looksLikeText
+  },
+  text: {
+    extensions: ['txt'],
+    mimeTypes: ['text/plain', 'application/octet-stream'],
+    contentType: 'text/plain; charset=utf-8',
+    sniff: looksLikeText
+  }
+};
+
+export const SUPPORTED_STUDY_SET_EXTENSIONS = Object.values(STUDY_SET_FILE_TYPES).flatMap(type => type.extensions);
+
+export function resolveStudySetFileKind(extension: string | null | undefined): StudySetFileKind | null {
+  const normalized = (extension ?? '').trim().toLowerCase().replace(/^\./, '');
+  const entry = (Object.keys(STUDY_SET_FILE_TYPES) as StudySetFileKind[]).find(kind =>
+    STUDY_SET_FILE_TYPES[kind].extensions.includes(normalized)
+  );
+  return entry ?? null;
+}
+
+export function isAcceptedUpload(kind: StudySetFileKind, mimeType: string | undefined, buffer: Buffer): boolean {
+  const type = STUDY_SET_FILE_TYPES[kind];
+  const normalizedMime = (mimeType ?? '').split(';')[0].trim().toLowerCase();
+  if (!type.mimeTypes.includes(normalizedMime)) {
+    return false;
+  }
+  if (type.sniff && !type.sniff(buffer)) {
+    return false;
+  }
+  return true;
+}
@@ -1,5 +1,21 @@
-import { Body, Controller, Delete, Get, Param, Patch, Post, Query, Req, UploadedFiles, UseGuards, UseInterceptors } from '@nestjs/common';
-import { Request } from 'express';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  Res,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors
+} from '@nestjs/common';
+import { Request, Response } from 'express';
 import {
   ApiAcceptedResponse,
   ApiBearerAuth,
@@ -8,6 +24,8 @@ import {
   ApiCreatedResponse,
   ApiOkResponse,
   ApiOperation,
+  ApiProduces,
+  ApiQuery,
   ApiTags
 } from '@nestjs/swagger';
 import { FileFieldsInterceptor } from '@nestjs/platform-express';
@@ -21,19 +39,48 @@ import { StartAiProcessDto } from './dto/start-ai-process.dto';
 import { AddStudySetFilesDto } from './dto/add-study-set-files.dto';
 import { AddStudySetFilesResponseDto } from './dto/add-study-set-files-response.dto';
 import { StartAiProcessResponseDto } from './dto/start-ai-process-response.dto';
-import { StudySetAiFileResultsResponseDto, StudySetAiResultsResponseDto } from './dto/ai-results-response.dto';
-import { StudySetAiResultStatus } from './schemas/study-set-ai-result.schema';
+import {
+  MasterSummaryResponseDto,
+  StudySetAiFileResultsResponseDto,
+  StudySetAiResultsResponseDto,
+  StudySetGlossaryResponseDto
+} from './dto/ai-results-response.dto';
+import {
+  StudySetAiResultDocument,
+  StudySetAiResultStatus,
+  STUDY_SET_RESULT_FILE_ID
+} from './schemas/study-set-ai-result.schema';
+import { ConceptMapResponseDto } from './dto/concept-map-response.dto';
+import { ConceptMap } from '../concept-maps/concept-maps.service';
+import { normalizeQuizResult } from '../quizzes/quiz-questions';
 import { UploadStudySetFileDto } from './dto/upload-study-set-file.dto';
 import { UploadStudySetFileResponseDto } from './dto/upload-study-set-file-response.dto';
 import { FlashcardsResponseDto } from './dto/flashcards-response.dto';
 import { UpdateSummaryDto } from './dto/update-summary.dto';
 import { UpdateStudySetTitleDto } from './dto/update-study-set-title.dto';
+import { ExtractionReportResponseDto } from './dto/extraction-report-response.dto';
+import { UpdateFileRangeDto } from './dto/update-file-range.dto';
+import { UpdateFileRangeResponseDto } from './dto/update-file-range-response.dto';
+import {
+  RegenerateItemDto,
+  RegenerateKeyPointResponseDto,
+  RegenerateQuizQuestionResponseDto
+} from './dto/regenerate-item.dto';
+import { AiRegenerationService } from './ai-regeneration.service';
+import { GenerateStudyGuideDto, StudyGuideResponseDto } from './dto/study-guide.dto';
+import { StudyGuideDocument } from './schemas/study-guide.schema';
+import { StudyGuideGenerationService } from './study-guide-generation.service';
+import { DEFAULT_STUDY_GUIDE_WORDS, STUDY_GUIDE_FORMATS, StudyGuideFormat } from '../study-guides/study-guides.service';
 
 @ApiTags('Study Sets')
 @ApiBearerAuth('bearer')
 @Controller('study-sets')
 export class StudySetsController {
-  constructor(private readonly studySetsService: StudySetsService) {}
+  constructor(
+    private readonly studySetsService: StudySetsService,
+    private readonly aiRegeneration: AiRegenerationService,
+    private readonly studyGuideGeneration: StudyGuideGenerationService
+  ) {}
 
   @Post()
   @UseGuards(JwtAuthGuard)
@@ -101,7 +148,8 @@ export class StudySetsController {
     FileFieldsInterceptor(
       [
         { name: 'file', maxCount: 1 },
-        { name: 'pageImages', maxCount: 50 }
+        { name: 'pageImages', maxCount: 50 },
+        { name: 'photos', maxCount: 30 }
       ],
       {
         storage: memoryStorage(),
@@ -110,8 +158,9 @@ export class StudySetsController {
     )
   )
   @ApiOperation({
-    summary: 'Upload a sliced PDF for a study set',
-    description: 'Accepts a sliced PDF and stores it in Cloudflare R2 for later processing.'
+    summary: 'Upload a study set file',
+    description:
+      'Accepts a sliced PDF, a DOCX document, a PPTX presentation, a Markdown, HTML or plain-text file, or one or more photos (JPEG, PNG, HEIC) of notes and stores it in Cloudflare R2 for later processing. Photos are sent as `file` and/or `photos` and become one page each, in upload order.'
   })
   @ApiConsumes('multipart/form-data')
   @ApiBody({ type: UploadStudySetFileDto })
@@ -125,6 +174,7 @@ export class StudySetsController {
     files: {
       file?: Express.Multer.File[];
       pageImages?: Express.Multer.File[];
+      photos?: Express.Multer.File[];
     },
     @Body() dto: UploadStudySetFileDto,
     @Req() req: Request & { user: { id: string } }
@@ -134,7 +184,8 @@ export class StudySetsController {
       studySetId,
       dto,
       files?.file?.[0],
-      files?.pageImages ?? []
+      files?.pageImages ?? [],
+      files?.photos ?? []
     );
     return {
       fileId: uploaded.fileId,
@@ -144,6 +195,26 @@ export class StudySetsController {
     };
   }
 
+  @Patch(':id/files/:fileId/range')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Change the selected page range of an uploaded PDF',
+    description:
+      'Re-slices the stored original PDF to the new range. Only available for files uploaded with uploadMode "original". Start AI processing again to regenerate results for the new range.'
+  })
+  @ApiOkResponse({
+    description: 'Page range updated successfully',
+    type: UpdateFileRangeResponseDto
+  })
+  async updateFileRange(
+    @Param('id') studySetId: string,
+    @Param('fileId') fileId: string,
+    @Body() dto: UpdateFileRangeDto,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<UpdateFileRangeResponseDto> {
+    return this.studySetsService.updateFileRange(req.user.id, studySetId, fileId, dto);
+  }
+
   @Post(':id/files/prepare')
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
@@ -190,17 +261,24 @@ export class StudySetsController {
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Get AI results for a study set',
-    description: 'Returns stored AI outputs (summaries, flashcards, quizzes) grouped per file.'
+    description:
+      'Returns stored AI outputs (summaries, flashcards, quizzes, glossaries, concept maps) grouped per file, plus the study-set-wide master summaries, glossaries and concept maps.'
   })
   @ApiOkResponse({
     description: 'AI results fetched successfully',
     type: StudySetAiResultsResponseDto
   })
+  @ApiQuery({ name: 'language', required: false, description: 'Only return results generated in this language.' })
   async getAiResults(
     @Param('id') studySetId: string,
+    @Query('language') language: string | undefined,
     @Req() req: Request & { user: { id: string } }
   ): Promise<StudySetAiResultsResponseDto> {
-    const results = await this.studySetsService.getResultsForStudySet(req.user.id, studySetId);
+    const { results, pageThumbnails } = await this.studySetsService.getResultsForStudySet(
+      req.user.id,
+      studySetId,
+      language
+    );
     const files = new Map<
       string,
       {
@@ -208,56 +286,247 @@ export class StudySetsController {
         fileName: string;
         features: Array<{
           feature: string;
+          language: string | null;
           status: StudySetAiResultStatus;
           result: unknown | null;
           error: string | null;
         }>;
+        pageThumbnails: Array<{ pageNumber: number; url: string }>;
       }
     >();
+    const masterSummaries: StudySetAiResultsResponseDto['masterSummaries'] = [];
+    const glossaries: StudySetAiResultsResponseDto['glossaries'] = [];
+    const conceptMaps: StudySetAiResultsResponseDto['conceptMaps'] = [];
+    const studySetResults = { summary: masterSummaries, glossary: glossaries, conceptMap: conceptMaps };
 
     for (const result of results) {
+      if (result.fileId === STUDY_SET_RESULT_FILE_ID) {
+        studySetResults[result.feature as keyof typeof studySetResults]?.push({
+          feature: result.feature,
+          language: result.language ?? null,
+          status: result.status as StudySetAiResultStatus,
+          result: result.result ?? null,
+          error: result.error ?? null
+        });
+        continue;
+      }
+
       const key = `${result.fileId}:${result.fileName}`;
       if (!files.has(key)) {
         files.set(key, {
           fileId: result.fileId,
           fileName: result.fileName,
-          features: []
+          features: [],
+          pageThumbnails: pageThumbnails.get(result.fileId) ?? []
         });
       }
 
       files.get(key)!.features.push({
         feature: result.feature,
+        language: result.language ?? null,
         status: result.status as StudySetAiResultStatus,
-        result: result.result ?? null,
+        result: result.feature === 'quizzes' ? normalizeQuizResult(result.result ?? null) : result.result ?? null,
         error: result.error ?? null
       });
     }
 
     return {
       studySetId,
-      files: Array.from(files.values())
+      files: Array.from(files.values()),
+      masterSummaries,
+      glossaries,
+      conceptMaps
+    };
+  }
+
+  @Get(':id/master-summary')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Get the study set master summary',
+    description:
+      'Returns the outline merged from all file summaries, with the source files cited per section. It is rebuilt whenever summaries are generated for the study set.'
+  })
+  @ApiOkResponse({
+    description: 'Master summary fetched successfully',
+    type: MasterSummaryResponseDto
+  })
+  @ApiQuery({ name: 'language', required: false, description: 'Master summary language. Defaults to the latest one.' })
+  async getMasterSummary(
+    @Param('id') studySetId: string,
+    @Query('language') language: string | undefined,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<MasterSummaryResponseDto> {
+    const result = await this.studySetsService.getMasterSummary(req.user.id, studySetId, language);
+    return {
+      studySetId,
+      language: result.language ?? null,
+      status: result.status as StudySetAiResultStatus,
+      result: result.result ?? null,
+      error: result.error ?? null,
+      updatedAt: result.updatedAt ?? null
+    };
+  }
+
+  @Get(':id/glossary')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Get the study set glossary',
+    description:
+      'Returns the key terms merged from all file glossaries, with the files that define each term. It is rebuilt whenever glossaries are generated for the study set.'
+  })
+  @ApiOkResponse({
+    description: 'Glossary fetched successfully',
+    type: StudySetGlossaryResponseDto
+  })
+  @ApiQuery({ name: 'language', required: false, description: 'Glossary language. Defaults to the latest one.' })
+  async getGlossary(
+    @Param('id') studySetId: string,
+    @Query('language') language: string | undefined,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<StudySetGlossaryResponseDto> {
+    const result = await this.studySetsService.getStudySetGlossary(req.user.id, studySetId, language);
+    return {
+      studySetId,
+      language: result.language ?? null,
+      status: result.status as StudySetAiResultStatus,
+      result: result.result ?? null,
+      error: result.error ?? null,
+      updatedAt: result.updatedAt ?? null
     };
   }
 
+  @Get(':id/concept-map')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Get the study set concept map',
+    description:
+      'Returns the concept graph merged from all file concept maps as nodes and edges. It is rebuilt whenever concept maps are generated for the study set.'
+  })
+  @ApiOkResponse({ description: 'Concept map fetched successfully', type: ConceptMapResponseDto })
+  @ApiQuery({ name: 'language', required: false, description: 'Concept map language. Defaults to the latest one.' })
+  async getConceptMap(
+    @Param('id') studySetId: string,
+    @Query('language') language: string | undefined,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<ConceptMapResponseDto> {
+    const result = await this.studySetsService.getConceptMap(req.user.id, studySetId, STUDY_SET_RESULT_FILE_ID, language);
+    return this.toConceptMapResponse(studySetId, null, result);
+  }
+
+  @Get(':id/files/:fileId/concept-map')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Get the concept map of a file',
+    description: 'Returns the concepts and typed relations found in the file text and diagram captions as nodes and edges.'
+  })
+  @ApiOkResponse({ description: 'Concept map fetched successfully', type: ConceptMapResponseDto })
+  @ApiQuery({ name: 'language', required: false, description: 'Concept map language. Defaults to the latest one.' })
+  async getFileConceptMap(
+    @Param('id') studySetId: string,
+    @Param('fileId') fileId: string,
+    @Query('language') language: string | undefined,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<ConceptMapResponseDto> {
+    const result = await this.studySetsService.getConceptMap(req.user.id, studySetId, fileId, language);
+    return this.toConceptMapResponse(studySetId, fileId, result);
+  }
+
+  @Post(':id/study-guide')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Generate an exam study guide',
+    description:
+      'Condenses the study set summaries, glossary and quiz topics into a compact study guide in the chosen format and length. Replaces the previous guide of the same format and language.'
+  })
+  @ApiCreatedResponse({ description: 'Study guide generated successfully', type: StudyGuideResponseDto })
+  async generateStudyGuide(
+    @Param('id') studySetId: string,
+    @Body() dto: GenerateStudyGuideDto,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<StudyGuideResponseDto> {
+    const studyGuide = await this.studyGuideGeneration.generate(req.user.id, studySetId, {
+      format: dto.format,
+      maxWords: dto.maxWords ?? DEFAULT_STUDY_GUIDE_WORDS,
+      language: dto.language
+    });
+    return this.toStudyGuideResponse(studySetId, studyGuide);
+  }
+
+  @Get(':id/study-guide')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Get the study guide',
+    description: 'Returns the latest generated study guide in the requested format.'
+  })
+  @ApiOkResponse({ description: 'Study guide fetched successfully', type: StudyGuideResponseDto })
+  @ApiQuery({ name: 'format', required: true, enum: STUDY_GUIDE_FORMATS })
+  @ApiQuery({ name: 'language', required: false, description: 'Study guide language. Defaults to the latest one.' })
+  async getStudyGuide(
+    @Param('id') studySetId: string,
+    @Query('format') format: string,
+    @Query('language') language: string | undefined,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<StudyGuideResponseDto> {
+    const studyGuide = await this.studySetsService.getStudyGuide(
+      req.user.id,
+      studySetId,
+      this.parseStudyGuideFormat(format),
+      language
+    );
+    return this.toStudyGuideResponse(studySetId, studyGuide);
+  }
+
+  @Get(':id/study-guide/pdf')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Download the study guide as PDF',
+    description:
+      'Renders the latest study guide in the requested format as a printable A4 PDF. Latin, Greek and Cyrillic text is supported; guides in right-to-left scripts or with characters the embedded font lacks (such as Chinese or Japanese) are refused with 422.'
+  })
+  @ApiProduces('application/pdf')
+  @ApiOkResponse({ description: 'Study guide PDF' })
+  @ApiQuery({ name: 'format', required: true, enum: STUDY_GUIDE_FORMATS })
+  @ApiQuery({ name: 'language', required: false, description: 'Study guide language. Defaults to the latest one.' })
+  async downloadStudyGuidePdf(
+    @Param('id') studySetId: string,
+    @Query('format') format: string,
+    @Query('language') language: string | undefined,
+    @Req() req: Request & { user: { id: string } },
+    @Res() res: Response
+  ): Promise<void> {
+    const pdf = await this.studyGuideGeneration.exportPdf(
+      req.user.id,
+      studySetId,
+      this.parseStudyGuideFormat(format),
+      language
+    );
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${pdf.fileName}"`);
+    res.send(pdf.buffer);
+  }
+
   @Get(':id/files/:fileId/ai-results')
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Get AI results for a specific file',
-    description: 'Returns stored AI outputs (summary, flashcards, quizzes) for a single file.'
+    description: 'Returns stored AI outputs (summary, flashcards, quizzes, glossary, concept map) for a single file.'
   })
   @ApiOkResponse({
     description: 'File AI results fetched successfully',
     type: StudySetAiFileResultsResponseDto
   })
+  @ApiQuery({ name: 'language', required: false, description: 'Only return results generated in this language.' })
   async getAiResultsForFile(
     @Param('id') studySetId: string,
     @Param('fileId') fileId: string,
+    @Query('language') language: string | undefined,
     @Req() req: Request & { user: { id: string } }
   ): Promise<StudySetAiFileResultsResponseDto> {
-    const { fileName, results } = await this.studySetsService.getResultsForStudySetFile(
+    const { fileName, results, pageThumbnails } = await this.studySetsService.getResultsForStudySetFile(
       req.user.id,
       studySetId,
-      fileId
+      fileId,
+      language
     );
 
     return {
@@ -267,14 +536,75 @@ export class StudySetsController {
         fileName,
         features: results.map(result => ({
           feature: result.feature,
+          language: result.language ?? null,
           status: result.status as StudySetAiResultStatus,
-          result: result.result ?? null,
+          result: result.feature === 'quizzes' ? normalizeQuizResult(result.result ?? null) : result.result ?? null,
           error: result.error ?? null
-        }))
+        })),
+        pageThumbnails
       }
     };
   }
 
+  @Get(':id/files/:fileId/pages/:pageNumber/image')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Get a stored page image',
+    description: 'Streams the uploaded page render or photo for a page. Pass width to get a downscaled JPEG thumbnail.'
+  })
+  @ApiProduces('image/jpeg', 'image/png')
+  @ApiOkResponse({ description: 'Page image' })
+  async getPageImage(
+    @Param('id') studySetId: string,
+    @Param('fileId') fileId: string,
+    @Param('pageNumber', ParseIntPipe) pageNumber: number,
+    @Query('width') width: string | undefined,
+    @Req() req: Request & { user: { id: string } },
+    @Res() res: Response
+  ): Promise<void> {
+    const parsedWidth = width ? Number.parseInt(width, 10) : undefined;
+    if (parsedWidth !== undefined && (!Number.isFinite(parsedWidth) || parsedWidth < 1)) {
+      throw new BadRequestException('width must be a positive integer.');
+    }
+    const image = await this.studySetsService.getPageImage(req.user.id, studySetId, fileId, pageNumber, parsedWidth);
+    res.setHeader('Content-Type', image.contentType);
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.send(image.buffer);
+  }
+
+  @Get(':id/files/:fileId/extraction-report')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Get the extraction report for a file',
+    description:
+      'Returns the per-page extraction decisions (text layer, OCR, images, duplicates, vision captions) and the document classification from the latest processing run.'
+  })
+  @ApiOkResponse({
+    description: 'Extraction report fetched successfully',
+    type: ExtractionReportResponseDto
+  })
+  async getExtractionReport(
+    @Param('id') studySetId: string,
+    @Param('fileId') fileId: string,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<ExtractionReportResponseDto> {
+    const report = await this.studySetsService.getExtractionReport(req.user.id, studySetId, fileId);
+    return {
+      studySetId,
+      fileId,
+      fileName: report.fileName,
+      fileKind: report.fileKind,
+      documentType: report.documentType,
+      classificationSource: report.classificationSource,
+      language: report.language ?? null,
+      pageCount: report.pageCount,
+      visionPages: report.visionPages,
+      cachedPages: report.cachedPages,
+      generatedAt: report.updatedAt ?? null,
+      pages: report.pages ?? []
+    };
+  }
+
   @Patch(':id/ai-results/:fileId/summary')
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
@@ -284,21 +614,63 @@ export class StudySetsController {
   @ApiOkResponse({
     description: 'Summary updated successfully'
   })
+  @ApiQuery({ name: 'language', required: false, description: 'Summary language to edit. Defaults to the latest summary.' })
   async updateSummary(
     @Param('id') studySetId: string,
     @Param('fileId') fileId: string,
+    @Query('language') language: string | undefined,
     @Body() dto: UpdateSummaryDto,
     @Req() req: Request & { user: { id: string } }
   ): Promise<{ success: boolean }> {
-    await this.studySetsService.updateSummary(req.user.id, studySetId, fileId, dto);
+    await this.studySetsService.updateSummary(req.user.id, studySetId, fileId, dto, language);
     return { success: true };
   }
 
+  @Post(':id/ai-results/:fileId/summary/key-points/:index/regenerate')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Regenerate one summary key point',
+    description:
+      'Rewrites one key_points entry from the file\'s source, optionally guided by a note on what is wrong. The previous version is kept in the key point history.'
+  })
+  @ApiOkResponse({ type: RegenerateKeyPointResponseDto })
+  @ApiQuery({ name: 'language', required: false, description: 'Summary language to edit. Defaults to the latest summary.' })
+  async regenerateSummaryKeyPoint(
+    @Param('id') studySetId: string,
+    @Param('fileId') fileId: string,
+    @Param('index', ParseIntPipe) index: number,
+    @Query('language') language: string | undefined,
+    @Body() dto: RegenerateItemDto,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<RegenerateKeyPointResponseDto> {
+    return this.aiRegeneration.regenerateSummaryKeyPoint(req.user.id, studySetId, fileId, index, dto.note, language);
+  }
+
+  @Post(':id/ai-results/:fileId/quizzes/questions/:index/regenerate')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Regenerate one quiz question',
+    description:
+      'Rewrites one quiz question from the file\'s source, keeping its question type and optionally guided by a note on what is wrong. The previous version is kept in the question history.'
+  })
+  @ApiOkResponse({ type: RegenerateQuizQuestionResponseDto })
+  @ApiQuery({ name: 'language', required: false, description: 'Quiz language to edit. Defaults to the latest quiz.' })
+  async regenerateQuizQuestion(
+    @Param('id') studySetId: string,
+    @Param('fileId') fileId: string,
+    @Param('index', ParseIntPipe) index: number,
+    @Query('language') language: string | undefined,
+    @Body() dto: RegenerateItemDto,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<RegenerateQuizQuestionResponseDto> {
+    return this.aiRegeneration.regenerateQuizQuestion(req.user.id, studySetId, fileId, index, dto.note, language);
+  }
+
   @Get(':id/flashcards')
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Get flashcards with user progress',
-    description: 'Returns all flashcards for a study set with user\'s progress merged in. Supports filtering by mastery status, difficulty level, and source file.'
+    description: 'Returns all flashcards for a study set with user\'s progress merged in. Supports filtering by mastery status, difficulty level, source file and language.'
   })
   @ApiOkResponse({
     description: 'Flashcards fetched successfully',
@@ -306,14 +678,14 @@ export class StudySetsController {
   })
   async getFlashcards(
     @Param('id') studySetId: string,
-    @Query() query: { mastery?: string; difficulty?: string; fileId?: string },
+    @Query() query: { mastery?: string; difficulty?: string; fileId?: string; language?: string },
     @Req() req: Request & { user: { id: string } }
   ): Promise<FlashcardsResponseDto> {
-    const { mastery, difficulty, fileId } = query ?? {};
+    const { mastery, difficulty, fileId, language } = query ?? {};
     return this.studySetsService.getFlashcardsWithProgress(
       req.user.id,
       studySetId,
-      { mastery, difficulty, fileId }
+      { mastery, difficulty, fileId, language }
     );
   }
 
@@ -346,9 +718,50 @@ export class StudySetsController {
           : new Date(summary.uploadedAt).toISOString(),
         extension: summary.extension,
         sizeBytes: summary.sizeBytes,
-        displaySize: summary.displaySize
+        displaySize: summary.displaySize,
+        detectedLanguage: summary.detectedLanguage ?? null
       })),
       createdAt: studySet.createdAt ?? new Date()
     };
   }
+
+  private parseStudyGuideFormat(format: string | undefined): StudyGuideFormat {
+    if (!STUDY_GUIDE_FORMATS.includes(format as StudyGuideFormat)) {
+      throw new BadRequestException(`format must be one of ${STUDY_GUIDE_FORMATS.join(', ')}.`);
+    }
+    return format as StudyGuideFormat;
+  }
+
+  private toStudyGuideResponse(studySetId: string, studyGuide: StudyGuideDocument): StudyGuideResponseDto {
+    return {
+      studySetId,
+      language: studyGuide.language ?? null,
+      format: studyGuide.format,
+      maxWords: studyGuide.maxWords,
+      wordCount: studyGuide.guide.wordCount,
+      title: studyGuide.guide.title,
+      sections: studyGuide.guide.sections,
+      summary: studyGuide.guide.summary,
+      sourceFiles: studyGuide.sourceFiles ?? [],
+      updatedAt: studyGuide.updatedAt ?? null
+    };
+  }
+
+  private toConceptMapResponse(
+    studySetId: string,
+    fileId: string | null,
+    result: StudySetAiResultDocument
+  ): ConceptMapResponseDto {
+    const map = result.result as Partial<ConceptMap> | null;
+    return {
+      studySetId,
+      fileId,
+      language: result.language ?? null,
+      status: result.status as StudySetAiResultStatus,
+      nodes: map?.nodes ?? [],
+      edges: map?.edges ?? [],
+      error: result.error ?? null,
+      updatedAt: result.updatedAt ?? null
+    };
+  }
 }
@@ -4,18 +4,38 @@ import { StudySetsService } from './study-sets.service';
 import { StudySetsController } from './study-sets.controller';
 import { FlashcardsController } from './flashcards.controller';
 import { StudySessionsController } from './study-sessions.controller';
+import { PracticeExamsController } from './practice-exams.controller';
 import { StudySet, StudySetSchema } from './schemas/study-set.schema';
 import { StudySetAiJob, StudySetAiJobSchema } from './schemas/study-set-ai-job.schema';
 import { AiJobsController } from './ai-jobs.controller';
 import { AiJobsProcessorService } from './ai-jobs.processor';
+import { AiRegenerationService } from './ai-regeneration.service';
+import { AiResultMigrationService } from './ai-result-migration.service';
+import { StudyGuideGenerationService } from './study-guide-generation.service';
+import { StudyGuide, StudyGuideSchema } from './schemas/study-guide.schema';
+import { PracticeExamBuilderService } from './practice-exam-builder.service';
+import { PracticeExam, PracticeExamSchema } from './schemas/practice-exam.schema';
 import { StudySetAiResult, StudySetAiResultSchema } from './schemas/study-set-ai-result.schema';
 import { SummariesModule } from '../summaries/summaries.module';
 import { FlashcardsModule } from '../flashcards/flashcards.module';
 import { QuizzesModule } from '../quizzes/quizzes.module';
+import { GlossaryModule } from '../glossary/glossary.module';
+import { ConceptMapsModule } from '../concept-maps/concept-maps.module';
+import { StudyGuidesModule } from '../study-guides/study-guides.module';
 import { AIModule } from '../ai/ai.module';
 import { R2StorageService } from '../storage/r2-storage.service';
 import { DocumentProcessingService } from './document-processing.service';
 import { UsersModule } from '../users/users.module';
+import { LlmModule } from '../llm/llm.module';
+import { GroundingModule } from '../grounding/grounding.module';
+import { UsageModule } from '../usage/usage.module';
+import { GenerationCacheModule } from '../generation-cache/generation-cache.module';
+import { PageExtractionCache, PageExtractionCacheSchema } from './schemas/page-extraction-cache.schema';
+import { PageExtractionCacheService } from './page-extraction-cache.service';
+import {
+  StudySetExtractionReport,
+  StudySetExtractionReportSchema
+} from './schemas/study-set-extraction-report.schema';
 
 @Module({
   imports: [
@@ -31,15 +51,54 @@ import { UsersModule } from '../users/users.module';
       {
         name: StudySetAiResult.name,
         schema: StudySetAiResultSchema
+      },
+      {
+        name: PageExtractionCache.name,
+        schema: PageExtractionCacheSchema
+      },
+      {
+        name: StudySetExtractionReport.name,
+        schema: StudySetExtractionReportSchema
+      },
+      {
+        name: StudyGuide.name,
+        schema: StudyGuideSchema
+      },
+      {
+        name: PracticeExam.name,
+        schema: PracticeExamSchema
       }
     ]),
     SummariesModule,
     FlashcardsModule,
     QuizzesModule,
+    GlossaryModule,
+    ConceptMapsModule,
+    StudyGuidesModule,
     AIModule,
-    UsersModule
+    UsersModule,
+    LlmModule,
+    GroundingModule,
+    UsageModule,
+    GenerationCacheModule
+  ],
+  controllers: [
+    StudySetsController,
+    AiJobsController,
+    FlashcardsController,
+    StudySessionsController,
+    PracticeExamsController
   ],
-  controllers: [StudySetsController, AiJobsController, FlashcardsController, StudySessionsController],
-  providers: [StudySetsService, AiJobsProcessorService, R2StorageService, DocumentProcessingService]
+  providers: [
+    StudySetsService,
+    AiJobsProcessorService,
+    AiRegenerationService,
+    AiResultMigrationService,
+    StudyGuideGenerationService,
+    PracticeExamBuilderService,
+    R2StorageService,
+    DocumentProcessingService,
+    PageExtractionCacheService
+  ]
 })
 export class StudySetsModule {}
@@ -3,6 +3,7 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Express } from 'express';
 import { PDFDocument } from 'pdf-lib';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
 import { CreateStudySetDto } from './dto/create-study-set.dto';
 import { StudySet, StudySetDocument } from './schemas/study-set.schema';
 import { StartAiProcessDto } from './dto/start-ai-process.dto';
@@ -13,12 +14,53 @@ import {
   StudySetAiResult,
   StudySetAiResultDocument,
   StudySetAiFeature,
-  StudySetAiResultStatus
+  StudySetAiResultStatus,
+  STUDY_SET_RESULT_FILE_ID
 } from './schemas/study-set-ai-result.schema';
 import { R2StorageService } from '../storage/r2-storage.service';
 import { FlashcardProgress, FlashcardProgressDocument } from '../flashcards/schemas/flashcard-progress.schema';
 import { StudySession, StudySessionDocument } from '../flashcards/schemas/study-session.schema';
 import { UsersService } from '../users/users.service';
+import {
+  isAcceptedUpload,
+  resolveStudySetFileKind,
+  STUDY_SET_FILE_TYPES,
+  SUPPORTED_STUDY_SET_EXTENSIONS
+} from './study-set-file-types';
+import { normalizePhoto } from './parsers/photo-image';
+import { DEFAULT_OUTPUT_LANGUAGE, normalizeOutputLanguage } from '../ai/output-language';
+import { normalizeGenerationOptions } from '../ai/generation-options';
+import { buildFlashcardId, Flashcard, FlashcardType, parseFlashcardId } from '../flashcards/flashcards.service';
+import {
+  buildClozeDeletions,
+  ClozeDeletion,
+  parseClozeItemId,
+  renderClozePrompt,
+  ReviewableCard,
+  toReviewItems,
+  validateClozeDeletions
+} from '../flashcards/cloze';
+import { MasterSummarySource, StructuredSummary } from '../summaries/summaries.service';
+import { GlossarySource, GlossaryTerm } from '../glossary/glossary.service';
+import { ConceptMap, ConceptMapSource } from '../concept-maps/concept-maps.service';
+import { StudyGuide as StudyGuideContent, StudyGuideFormat, StudyGuideMaterial } from '../study-guides/study-guides.service';
+import { normalizeQuizQuestion, QuizQuestion } from '../quizzes/quiz-questions';
+import { PoolQuestion } from '../quizzes/practice-exam-plan';
+import { StudyGuide, StudyGuideDocument } from './schemas/study-guide.schema';
+import { PracticeExam, PracticeExamDocument } from './schemas/practice-exam.schema';
+import {
+  ExtractionReport,
+  StudySetExtractionReport,
+  StudySetExtractionReportDocument
+} from './schemas/study-set-extraction-report.schema';
+
+export interface PageThumbnail {
+  pageNumber: number;
+  url: string;
+}
+
+const PAGE_THUMBNAIL_WIDTH = 320;
+const MAX_PAGE_IMAGE_WIDTH = 2000;
 
 @Injectable()
 export class StudySetsService {
@@ -35,6 +77,12 @@ export class StudySetsService {
     private readonly flashcardProgressModel: Model<FlashcardProgressDocument>,
     @InjectModel(StudySession.name)
     private readonly studySessionModel: Model<StudySessionDocument>,
+    @InjectModel(StudySetExtractionReport.name)
+    private readonly extractionReportModel: Model<StudySetExtractionReportDocument>,
+    @InjectModel(StudyGuide.name)
+    private readonly studyGuideModel: Model<StudyGuideDocument>,
+    @InjectModel(PracticeExam.name)
+    private readonly practiceExamModel: Model<PracticeExamDocument>,
     private readonly storage: R2StorageService,
     private readonly usersService: UsersService
   ) {}
@@ -85,14 +133,16 @@ export class StudySetsService {
     studySetId: string,
     params: {
       fileId: string;
-      rangeStart: number;
-      rangeEnd: number;
+      uploadMode?: 'sliced' | 'original';
+      rangeStart?: number;
+      rangeEnd?: number;
       rangeSummary?: string | null;
     },
     file?: Express.Multer.File,
-    pageImages: Express.Multer.File[] = []
+    pageImages: Express.Multer.File[] = [],
+    photos: Express.Multer.File[] = []
   ): Promise<{ fileId: string; storageKey: string; storedSizeBytes: number; pageImagesStored: number }> {
-    if (!file?.buffer) {
+    if (!file?.buffer && !photos.length) {
       throw new BadRequestException('File upload is required.');
     }
 
@@ -100,14 +150,6 @@ export class StudySetsService {
       throw new BadRequestException('fileId is required.');
     }
 
-    if (!Number.isFinite(params.rangeStart) || !Number.isFinite(params.rangeEnd)) {
-      throw new BadRequestException('rangeStart and rangeEnd are required.');
-    }
-
-    if (params.rangeStart > params.rangeEnd) {
-      throw new BadRequestException('rangeStart must be less than rangeEnd.');
-    }
-
     const studySet = await this.studySetModel
       .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
       .exec();
@@ -124,29 +166,117 @@ export class StudySetsService {
       throw new NotFoundException('File not found for this study set');
     }
 
-    if (summary.extension !== 'pdf') {
-      throw new BadRequestException('Only PDF uploads are supported.');
+    const kind = resolveStudySetFileKind(summary.extension);
+    if (!kind) {
+      throw new BadRequestException(
+        `Unsupported file type. Supported types: ${SUPPORTED_STUDY_SET_EXTENSIONS.join(', ')}.`
+      );
+    }
+
+    if (kind === 'image') {
+      const stored = await this.storePhotoPages(studySet.id, params.fileId, file ? [file, ...photos] : photos);
+      summary.storageKey = stored.pageImageKeys[0].storageKey;
+      summary.mimeType = stored.mimeType;
+      summary.storedSizeBytes = stored.storedSizeBytes;
+      summary.selectedRange = null;
+      summary.rangeSummary = params.rangeSummary ?? `${stored.pageImageKeys.length} photo(s)`;
+      summary.pageImageKeys = stored.pageImageKeys;
+      this.clearOriginalPdf(summary);
+      await studySet.save();
+
+      return {
+        fileId: params.fileId,
+        storageKey: summary.storageKey,
+        storedSizeBytes: stored.storedSizeBytes,
+        pageImagesStored: stored.pageImageKeys.length
+      };
+    }
+
+    if (!file?.buffer) {
+      throw new BadRequestException('File upload is required.');
     }
-    if (!file.mimetype || !file.mimetype.includes('pdf')) {
-      throw new BadRequestException('Uploaded file must be a PDF.');
+    if (!isAcceptedUpload(kind, file.mimetype, file.buffer)) {
+      throw new BadRequestException(`Uploaded file content does not match the ${summary.extension} file type.`);
     }
 
-    const slicedBuffer = await this.slicePdfIfNeeded(
-      file.buffer,
-      params.rangeStart,
-      params.rangeEnd
-    );
+    if (kind === 'pdf' && params.uploadMode === 'original') {
+      let pageCount: number;
+      try {
+        pageCount = (await PDFDocument.load(file.buffer)).getPageCount();
+      } catch {
+        throw new BadRequestException('Uploaded PDF could not be read.');
+      }
+      const range = this.resolveOriginalRange(params.rangeStart, params.rangeEnd, pageCount);
+
+      const originalKey = `study-sets/${studySet.id}/files/${params.fileId}/original.pdf`;
+      await this.storage.uploadBuffer({ key: originalKey, body: file.buffer, contentType: 'application/pdf' });
+
+      if (pageImages.length > 0 && pageImages.length !== pageCount) {
+        this.logger.warn(
+          `Received ${pageImages.length} page images but the original PDF has ${pageCount} pages for ${params.fileId}.`
+        );
+      }
+      const originalPageImageKeys: Array<{ pageNumber: number; storageKey: string }> = [];
+      for (let index = 0; index < Math.min(pageImages.length, pageCount); index += 1) {
+        const image = pageImages[index];
+        const pageKey = `study-sets/${studySet.id}/files/${params.fileId}/original-pages/${index + 1}.png`;
+        await this.storage.uploadBuffer({
+          key: pageKey,
+          body: image.buffer,
+          contentType: image.mimetype || 'image/png'
+        });
+        originalPageImageKeys.push({ pageNumber: index + 1, storageKey: pageKey });
+      }
+
+      summary.originalStorageKey = originalKey;
+      summary.originalPageCount = pageCount;
+      summary.originalPageImageKeys = originalPageImageKeys;
+      await this.applyPdfRange(studySet.id, summary, file.buffer, range, params.rangeSummary ?? null);
+      await studySet.save();
+
+      return {
+        fileId: params.fileId,
+        storageKey: summary.storageKey as string,
+        storedSizeBytes: summary.storedSizeBytes ?? file.buffer.length,
+        pageImagesStored: originalPageImageKeys.length
+      };
+    }
+
+    let storedBuffer = file.buffer;
+    let selectedRange: { start: number; end: number } | null = null;
+    let rangeSummary = params.rangeSummary ?? null;
+
+    if (kind === 'pdf') {
+      const rangeStart = params.rangeStart;
+      const rangeEnd = params.rangeEnd;
+      if (
+        rangeStart === undefined ||
+        rangeEnd === undefined ||
+        !Number.isFinite(rangeStart) ||
+        !Number.isFinite(rangeEnd)
+      ) {
+        throw new BadRequestException('rangeStart and rangeEnd are required.');
+      }
+
+      if (rangeStart > rangeEnd) {
+        throw new BadRequestException('rangeStart must be less than rangeEnd.');
+      }
+
+      storedBuffer = await this.slicePdfIfNeeded(file.buffer, rangeStart, rangeEnd);
+      selectedRange = { start: rangeStart, end: rangeEnd };
+      rangeSummary = rangeSummary ?? `Pages ${rangeStart}–${rangeEnd}`;
+    }
 
-    const storageKey = `study-sets/${studySet.id}/files/${params.fileId}.pdf`;
+    const storageKey = `study-sets/${studySet.id}/files/${params.fileId}.${kind}`;
     await this.storage.uploadBuffer({
       key: storageKey,
-      body: slicedBuffer,
-      contentType: file.mimetype
+      body: storedBuffer,
+      contentType: STUDY_SET_FILE_TYPES[kind].contentType
     });
 
     const imageKeys: Array<{ pageNumber: number; storageKey: string }> = [];
-    if (pageImages.length > 0) {
-      const expectedPages = params.rangeEnd - params.rangeStart + 1;
+    if (pageImages.length > 0 && selectedRange) {
+      const expectedPages = selectedRange.end - selectedRange.start + 1;
       if (pageImages.length !== expectedPages) {
         this.logger.warn(
           `Received ${pageImages.length} page images but expected ${expectedPages} for ${params.fileId}.`
@@ -164,28 +294,75 @@ export class StudySetsService {
         });
         imageKeys.push({ pageNumber: slicePageNumber, storageKey: pageKey });
       }
+    } else if (pageImages.length > 0) {
+      this.logger.warn(`Ignoring ${pageImages.length} page images for ${kind} file ${params.fileId}.`);
     }
 
     summary.storageKey = storageKey;
-    summary.mimeType = file.mimetype;
-    summary.storedSizeBytes = slicedBuffer.length;
-    summary.selectedRange = {
-      start: params.rangeStart,
-      end: params.rangeEnd
-    };
-    summary.rangeSummary = params.rangeSummary ?? `Pages ${params.rangeStart}–${params.rangeEnd}`;
+    summary.mimeType = STUDY_SET_FILE_TYPES[kind].contentType;
+    summary.storedSizeBytes = storedBuffer.length;
+    summary.selectedRange = selectedRange;
+    summary.rangeSummary = rangeSummary;
     summary.pageImageKeys = imageKeys;
+    this.clearOriginalPdf(summary);
 
     await studySet.save();
 
     return {
       fileId: params.fileId,
       storageKey,
-      storedSizeBytes: slicedBuffer.length,
+      storedSizeBytes: storedBuffer.length,
       pageImagesStored: imageKeys.length
     };
   }
 
+  private async storePhotoPages(
+    studySetId: string,
+    fileId: string,
+    photos: Express.Multer.File[]
+  ): Promise<{
+    pageImageKeys: Array<{ pageNumber: number; storageKey: string }>;
+    mimeType: string;
+    storedSizeBytes: number;
+  }> {
+    const pageImageKeys: Array<{ pageNumber: number; storageKey: string }> = [];
+    let mimeType: string = STUDY_SET_FILE_TYPES.image.contentType;
+    let storedSizeBytes = 0;
+
+    for (let index = 0; index < photos.length; index += 1) {
+      const photo = photos[index];
+      if (!photo?.buffer || !isAcceptedUpload('image', photo.mimetype, photo.buffer)) {
+        throw new BadRequestException(
+          `Photo ${photo?.originalname ?? index + 1} must be a JPEG, PNG or HEIC image.`
+        );
+      }
+
+      let normalized: Awaited<ReturnType<typeof normalizePhoto>>;
+      try {
+        normalized = await normalizePhoto(photo.buffer);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Photo conversion failed for ${fileId}: ${message}`);
+        throw new BadRequestException(`Photo ${photo.originalname ?? index + 1} could not be read.`);
+      }
+
+      const pageNumber = index + 1;
+      const storageKey = `study-sets/${studySetId}/files/${fileId}/pages/${pageNumber}.${normalized.extension}`;
+      await this.storage.uploadBuffer({
+        key: storageKey,
+        body: normalized.buffer,
+        contentType: normalized.contentType
+      });
+      if (index === 0) {
+        mimeType = normalized.contentType;
+      }
+      storedSizeBytes += normalized.buffer.length;
+      pageImageKeys.push({ pageNumber, storageKey });
+    }
+
+    return { pageImageKeys, mimeType, storedSizeBytes };
+  }
+
   async addStudySetFiles(
     userId: string,
     studySetId: string,
@@ -251,6 +428,106 @@ export class StudySetsService {
     return job;
   }
 
+  async updateFileRange(
+    userId: string,
+    studySetId: string,
+    fileId: string,
+    params: { rangeStart: number; rangeEnd: number; rangeSummary?: string | null }
+  ): Promise<{
+    fileId: string;
+    selectedRange: { start: number; end: number };
+    rangeSummary: string;
+    originalPageCount: number;
+    storedSizeBytes: number;
+    pageImagesMapped: number;
+  }> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const summary = studySet.fileSummaries.find(item => item.fileId?.toString() === fileId);
+    if (!summary) {
+      throw new NotFoundException('File not found for this study set');
+    }
+
+    if (!summary.originalStorageKey || !summary.originalPageCount) {
+      throw new BadRequestException(
+        'This file was uploaded already sliced. Upload the original PDF to change its page range.'
+      );
+    }
+
+    const range = this.resolveOriginalRange(params.rangeStart, params.rangeEnd, summary.originalPageCount);
+    const original = await this.storage.getObjectBuffer(summary.originalStorageKey);
+    await this.applyPdfRange(studySet.id, summary, original, range, params.rangeSummary ?? null);
+    await studySet.save();
+
+    return {
+      fileId,
+      selectedRange: range,
+      rangeSummary: summary.rangeSummary ?? `Pages ${range.start}–${range.end}`,
+      originalPageCount: summary.originalPageCount,
+      storedSizeBytes: summary.storedSizeBytes ?? original.length,
+      pageImagesMapped: summary.pageImageKeys?.length ?? 0
+    };
+  }
+
+  private clearOriginalPdf(summary: StudySet['fileSummaries'][number]): void {
+    summary.originalStorageKey = null;
+    summary.originalPageCount = null;
+    summary.originalPageImageKeys = [];
+  }
+
+  private resolveOriginalRange(
+    rangeStart: number | undefined,
+    rangeEnd: number | undefined,
+    pageCount: number
+  ): { start: number; end: number } {
+    const start = rangeStart ?? 1;
+    const end = rangeEnd ?? pageCount;
+    if (!Number.isInteger(start) || !Number.isInteger(end)) {
+      throw new BadRequestException('rangeStart and rangeEnd must be whole page numbers.');
+    }
+    if (start > end) {
+      throw new BadRequestException('rangeStart must be less than rangeEnd.');
+    }
+    if (start < 1 || end > pageCount) {
+      throw new BadRequestException('Page range exceeds PDF length.');
+    }
+    return { start, end };
+  }
+
+  private async applyPdfRange(
+    studySetId: string,
+    summary: StudySet['fileSummaries'][number],
+    original: Buffer,
+    range: { start: number; end: number },
+    rangeSummary: string | null
+  ): Promise<void> {
+    const fullDocument = range.start === 1 && range.end === summary.originalPageCount;
+    let storageKey = summary.originalStorageKey as string;
+    let storedSizeBytes = original.length;
+
+    if (!fullDocument) {
+      const sliced = await this.slicePdfRange(await PDFDocument.load(original), range.start, range.end);
+      storageKey = `study-sets/${studySetId}/files/${summary.fileId.toString()}.pdf`;
+      await this.storage.uploadBuffer({ key: storageKey, body: sliced, contentType: 'application/pdf' });
+      storedSizeBytes = sliced.length;
+    }
+
+    summary.storageKey = storageKey;
+    summary.mimeType = 'application/pdf';
+    summary.storedSizeBytes = storedSizeBytes;
+    summary.selectedRange = range;
+    summary.rangeSummary = rangeSummary ?? `Pages ${range.start}–${range.end}`;
+    summary.pageImageKeys = (summary.originalPageImageKeys ?? [])
+      .filter(item => item.pageNumber >= range.start && item.pageNumber <= range.end)
+      .map(item => ({ pageNumber: item.pageNumber - range.start + 1, storageKey: item.storageKey }));
+  }
+
   private async slicePdfIfNeeded(
     buffer: Buffer,
     rangeStart: number,
@@ -272,6 +549,10 @@ export class StudySetsService {
       throw new BadRequestException('Page range exceeds PDF length.');
     }
 
+    return this.slicePdfRange(pdfDoc, rangeStart, rangeEnd);
+  }
+
+  private async slicePdfRange(pdfDoc: PDFDocument, rangeStart: number, rangeEnd: number): Promise<Buffer> {
     const targetDoc = await PDFDocument.create();
     const indices: number[] = [];
     for (let index = rangeStart - 1; index <= rangeEnd - 1; index += 1) {
@@ -300,6 +581,11 @@ export class StudySetsService {
     const jobId = randomUUID();
     const queuedAt = new Date();
 
+    const preferredLanguage = dto.preferredLanguage ?? studySet.preferredLanguage ?? null;
+    if (preferredLanguage && !normalizeOutputLanguage(preferredLanguage)) {
+      throw new BadRequestException('preferredLanguage must be a language tag such as en or pt-BR.');
+    }
+
     const requestedFileIds = dto.fileIds ?? [];
     if (!requestedFileIds.length) {
       throw new BadRequestException('fileIds are required to start processing.');
@@ -329,6 +615,7 @@ export class StudySetsService {
         storageKey: summary.storageKey ?? null,
         textContent: null,
         pageImageKeys: summary.pageImageKeys ?? [],
+        detectedLanguage: summary.detectedLanguage ?? null,
         notes: []
       };
     });
@@ -355,8 +642,11 @@ export class StudySetsService {
     }
 
     const payload = {
-      preferredLanguage: dto.preferredLanguage ?? null,
+      preferredLanguage,
       aiFeatures: dto.aiFeatures ?? [],
+      quizQuestionTypes: dto.quizQuestionTypes?.length ? Array.from(new Set(dto.quizQuestionTypes)) : null,
+      flashcardMode: dto.flashcardMode ?? null,
+      generationOptions: normalizeGenerationOptions(dto.generationOptions),
       manualContent,
       files: fileSnapshots
     };
@@ -499,6 +789,7 @@ export class StudySetsService {
         .updateMany(
           {
             studySet: existing.studySet,
+            job: existing._id,
             fileId: { $in: fileIds },
             feature: { $in: features }
           },
@@ -525,6 +816,7 @@ export class StudySetsService {
     fileId: string;
     fileName: string;
     feature: StudySetAiFeature;
+    language: string;
     status: StudySetAiResultStatus;
     result?: unknown | null;
     error?: string | null;
@@ -534,13 +826,15 @@ export class StudySetsService {
         {
           studySet: params.job.studySet,
           fileId: params.fileId,
-          feature: params.feature
+          feature: params.feature,
+          language: this.resultLanguageCondition(params.language)
         },
         {
           $set: {
             job: params.job._id,
             studySet: params.job.studySet,
             fileName: params.fileName,
+            language: params.language,
             status: params.status,
             result: params.result ?? null,
             error: params.error ?? null
@@ -551,7 +845,212 @@ export class StudySetsService {
       .exec();
   }
 
-  async getResultsForStudySet(userId: string, studySetId: string): Promise<StudySetAiResultDocument[]> {
+  /** Removes a study-set-wide result, e.g. a master summary whose files no longer justify one. */
+  async deleteStudySetResult(studySetId: Types.ObjectId, feature: StudySetAiFeature, language: string): Promise<void> {
+    await this.aiResultModel
+      .deleteMany({
+        studySet: studySetId,
+        fileId: STUDY_SET_RESULT_FILE_ID,
+        feature,
+        language: this.resultLanguageCondition(language)
+      })
+      .exec();
+  }
+
+  async saveExtractionReport(params: {
+    job: StudySetAiJobDocument;
+    fileId: string;
+    fileName: string;
+    report: ExtractionReport;
+  }): Promise<void> {
+    await this.extractionReportModel
+      .findOneAndUpdate(
+        { studySet: params.job.studySet, fileId: params.fileId },
+        {
+          $set: {
+            job: params.job._id,
+            fileName: params.fileName,
+            ...params.report
+          }
+        },
+        { upsert: true }
+      )
+      .exec();
+  }
+
+  async saveDetectedLanguage(studySetId: Types.ObjectId, fileId: string, language: string): Promise<void> {
+    if (!Types.ObjectId.isValid(fileId)) {
+      return;
+    }
+
+    await this.studySetModel
+      .updateOne(
+        { _id: studySetId, 'fileSummaries.fileId': new Types.ObjectId(fileId) },
+        { $set: { 'fileSummaries.$.detectedLanguage': language } }
+      )
+      .exec();
+  }
+
+  /**
+   * Loads a completed result the user owns together with the file snapshot it
+   * was generated from, so one item can be regenerated from the same source.
+   */
+  async getRegenerationContext(
+    userId: string,
+    params: {
+      studySetId: string;
+      fileId: string;
+      feature: StudySetAiFeature;
+      language?: string | null;
+      exactLanguage?: boolean;
+    }
+  ): Promise<{ aiResult: StudySetAiResultDocument; file: AiProcessFileSnapshot }> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(params.studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const aiResult = await this.aiResultModel
+      .findOne({
+        studySet: studySet._id,
+        fileId: params.fileId,
+        feature: params.feature,
+        status: 'completed',
+        ...(params.exactLanguage
+          ? { language: this.resultLanguageCondition(params.language ?? null) }
+          : this.buildResultLanguageFilter(params.language))
+      })
+      .sort({ updatedAt: -1 })
+      .exec();
+
+    if (!aiResult) {
+      throw new NotFoundException(`No completed ${params.feature} found for this file`);
+    }
+
+    const job = await this.aiJobModel.findById(aiResult.job).lean().exec();
+    const file = job?.payload?.files?.find(snapshot => snapshot.fileId === params.fileId);
+    if (!file) {
+      throw new BadRequestException('This content has no source document to regenerate from.');
+    }
+
+    return { aiResult, file };
+  }
+
+  /** Completed per-file summaries in one language, in upload order, for building the master summary. */
+  async getMasterSummarySources(
+    studySetId: Types.ObjectId,
+    language: string
+  ): Promise<{ title: string; sources: MasterSummarySource[] }> {
+    const { studySet, results } = await this.findCompletedFileResults(studySetId, 'summary', language);
+    const sources = results
+      .map(result => ({
+        fileId: result.fileId,
+        fileName: result.fileName,
+        summary: (result.result as { summary?: StructuredSummary } | null)?.summary
+      }))
+      .filter((source): source is MasterSummarySource => Boolean(source.summary));
+
+    return { title: studySet.title, sources };
+  }
+
+  /** Completed per-file glossaries in one language, in upload order, for building the study set glossary. */
+  async getGlossarySources(
+    studySetId: Types.ObjectId,
+    language: string
+  ): Promise<{ title: string; sources: GlossarySource[] }> {
+    const { studySet, results } = await this.findCompletedFileResults(studySetId, 'glossary', language);
+    const sources = results
+      .map(result => ({
+        fileId: result.fileId,
+        fileName: result.fileName,
+        terms: (result.result as { terms?: GlossaryTerm[] } | null)?.terms
+      }))
+      .filter((source): source is GlossarySource => Array.isArray(source.terms));
+
+    return { title: studySet.title, sources };
+  }
+
+  /** Completed per-file concept maps in one language, in upload order, for building the study set map. */
+  async getConceptMapSources(
+    studySetId: Types.ObjectId,
+    language: string
+  ): Promise<{ title: string; sources: ConceptMapSource[] }> {
+    const { studySet, results } = await this.findCompletedFileResults(studySetId, 'conceptMap', language);
+    const sources = results
+      .map(result => {
+        const map = result.result as Partial<ConceptMap> | null;
+        return { fileId: result.fileId, fileName: result.fileName, nodes: map?.nodes, edges: map?.edges ?? [] };
+      })
+      .filter((source): source is ConceptMapSource => Array.isArray(source.nodes));
+
+    return { title: studySet.title, sources };
+  }
+
+  private async findCompletedFileResults(
+    studySetId: Types.ObjectId,
+    feature: StudySetAiFeature,
+    language: string | null
+  ): Promise<{ studySet: StudySetDocument; results: StudySetAiResultDocument[] }> {
+    const studySet = await this.studySetModel.findById(studySetId).exec();
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const results = await this.aiResultModel
+      .find({
+        studySet: studySet._id,
+        fileId: { $ne: STUDY_SET_RESULT_FILE_ID },
+        feature,
+        status: 'completed',
+        language: this.resultLanguageCondition(language)
+      })
+      .sort({ createdAt: 1 })
+      .exec();
+
+    const order = new Map(
+      studySet.fileSummaries.map((summary, index) => [summary.fileId?.toString() ?? '', index])
+    );
+    results.sort(
+      (a, b) =>
+        (order.get(a.fileId) ?? Number.MAX_SAFE_INTEGER) - (order.get(b.fileId) ?? Number.MAX_SAFE_INTEGER)
+    );
+    return { studySet, results };
+  }
+
+  async getExtractionReport(
+    userId: string,
+    studySetId: string,
+    fileId: string
+  ): Promise<StudySetExtractionReportDocument> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const summary = studySet.fileSummaries.find(item => item.fileId?.toString() === fileId);
+    if (!summary) {
+      throw new NotFoundException('File not found for this study set');
+    }
+
+    const report = await this.extractionReportModel.findOne({ studySet: studySet._id, fileId }).exec();
+    if (!report) {
+      throw new NotFoundException('No extraction report yet. Start AI processing for this file first.');
+    }
+
+    return report;
+  }
+
+  async getResultsForStudySet(
+    userId: string,
+    studySetId: string,
+    language?: string
+  ): Promise<{ results: StudySetAiResultDocument[]; pageThumbnails: Map<string, PageThumbnail[]> }> {
     const studySet = await this.studySetModel
       .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
       .exec();
@@ -560,17 +1059,33 @@ export class StudySetsService {
       throw new NotFoundException('Study set not found');
     }
 
-    return this.aiResultModel
-      .find({ studySet: studySet._id })
-      .sort({ fileId: 1, feature: 1 })
+    const results = await this.aiResultModel
+      .find({ studySet: studySet._id, ...this.buildResultLanguageFilter(language) })
+      .sort({ fileId: 1, feature: 1, language: 1 })
       .exec();
+
+    const pageThumbnails = new Map<string, PageThumbnail[]>();
+    studySet.fileSummaries.forEach(summary => {
+      const fileId = summary.fileId?.toString();
+      if (fileId) {
+        pageThumbnails.set(fileId, this.buildPageThumbnails(studySetId, fileId, summary));
+      }
+    });
+
+    return { results, pageThumbnails };
   }
 
   async getResultsForStudySetFile(
     userId: string,
     studySetId: string,
-    fileId: string
-  ): Promise<{ fileName: string; fileId: string; results: StudySetAiResultDocument[] }> {
+    fileId: string,
+    language?: string
+  ): Promise<{
+    fileName: string;
+    fileId: string;
+    results: StudySetAiResultDocument[];
+    pageThumbnails: PageThumbnail[];
+  }> {
     const studySet = await this.studySetModel
       .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
       .exec();
@@ -585,8 +1100,8 @@ export class StudySetsService {
     }
 
     const results = await this.aiResultModel
-      .find({ studySet: studySet._id, fileId })
-      .sort({ feature: 1 })
+      .find({ studySet: studySet._id, fileId, ...this.buildResultLanguageFilter(language) })
+      .sort({ feature: 1, language: 1 })
       .exec();
 
     const fileName = results[0]?.fileName ?? summary.fileName;
@@ -594,15 +1109,417 @@ export class StudySetsService {
     return {
       fileId,
       fileName,
-      results
+      results,
+      pageThumbnails: this.buildPageThumbnails(studySetId, fileId, summary)
     };
   }
 
+  async getMasterSummary(
+    userId: string,
+    studySetId: string,
+    language?: string
+  ): Promise<StudySetAiResultDocument> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const result = await this.aiResultModel
+      .findOne({
+        studySet: studySet._id,
+        fileId: STUDY_SET_RESULT_FILE_ID,
+        feature: 'summary',
+        ...this.buildResultLanguageFilter(language)
+      })
+      .sort({ updatedAt: -1 })
+      .exec();
+
+    if (!result) {
+      throw new NotFoundException('No master summary yet. Generate summaries for at least two files first.');
+    }
+
+    return result;
+  }
+
+  async getStudySetGlossary(
+    userId: string,
+    studySetId: string,
+    language?: string
+  ): Promise<StudySetAiResultDocument> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const result = await this.aiResultModel
+      .findOne({
+        studySet: studySet._id,
+        fileId: STUDY_SET_RESULT_FILE_ID,
+        feature: 'glossary',
+        ...this.buildResultLanguageFilter(language)
+      })
+      .sort({ updatedAt: -1 })
+      .exec();
+
+    if (!result) {
+      throw new NotFoundException('No glossary yet. Generate a glossary for at least one file first.');
+    }
+
+    return result;
+  }
+
+  /** The concept map of one file, or of the whole study set when fileId is STUDY_SET_RESULT_FILE_ID. */
+  async getConceptMap(
+    userId: string,
+    studySetId: string,
+    fileId: string,
+    language?: string
+  ): Promise<StudySetAiResultDocument> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+    if (
+      fileId !== STUDY_SET_RESULT_FILE_ID &&
+      !studySet.fileSummaries.some(summary => summary.fileId?.toString() === fileId)
+    ) {
+      throw new NotFoundException('File not found for this study set');
+    }
+
+    const result = await this.aiResultModel
+      .findOne({
+        studySet: studySet._id,
+        fileId,
+        feature: 'conceptMap',
+        ...this.buildResultLanguageFilter(language)
+      })
+      .sort({ updatedAt: -1 })
+      .exec();
+
+    if (!result) {
+      throw new NotFoundException('No concept map yet. Generate a concept map for this content first.');
+    }
+
+    return result;
+  }
+
+  /**
+   * Everything a study guide is built from: the master summary when there is
+   * one (otherwise the file summaries), the study set glossary and how often
+   * each quiz topic is tested. Without a language, the latest summary's is used.
+   */
+  async getStudyGuideMaterial(
+    userId: string,
+    studySetId: string,
+    language?: string
+  ): Promise<{
+    studySet: StudySetDocument;
+    language: string | null;
+    material: StudyGuideMaterial;
+    sourceFiles: Array<{ fileId: string; fileName: string }>;
+  }> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const resolvedLanguage = language
+      ? (normalizeOutputLanguage(language)?.code ?? null)
+      : ((
+          await this.aiResultModel
+            .findOne({ studySet: studySet._id, feature: 'summary', status: 'completed' })
+            .sort({ updatedAt: -1 })
+            .lean()
+            .exec()
+        )?.language ?? null);
+    if (language && !resolvedLanguage) {
+      throw new BadRequestException('language must be a language tag such as en or pt-BR.');
+    }
+
+    const studySetResult = (feature: StudySetAiFeature) =>
+      this.aiResultModel
+        .findOne({
+          studySet: studySet._id,
+          fileId: STUDY_SET_RESULT_FILE_ID,
+          feature,
+          status: 'completed',
+          language: this.resultLanguageCondition(resolvedLanguage)
+        })
+        .sort({ updatedAt: -1 })
+        .exec();
+
+    const [masterSummary, glossary, { results: fileSummaries }, { results: quizzes }] = await Promise.all([
+      studySetResult('summary'),
+      studySetResult('glossary'),
+      this.findCompletedFileResults(studySet._id, 'summary', resolvedLanguage),
+      this.findCompletedFileResults(studySet._id, 'quizzes', resolvedLanguage)
+    ]);
+
+    const summaryResults = masterSummary ? [masterSummary] : fileSummaries;
+    const summaries = summaryResults
+      .map(result => ({
+        fileName: result.fileName,
+        summary: (result.result as { summary?: StructuredSummary } | null)?.summary
+      }))
+      .filter((entry): entry is StudyGuideMaterial['summaries'][number] => Boolean(entry.summary));
+
+    const topicCounts = new Map<string, number>();
+    quizzes.forEach(result => {
+      const questions = (result.result as { questions?: QuizQuestion[] } | null)?.questions;
+      (Array.isArray(questions) ? questions : []).forEach(question => {
+        const topic = question.topicTag?.trim();
+        if (topic) {
+          topicCounts.set(topic, (topicCounts.get(topic) ?? 0) + 1);
+        }
+      });
+    });
+    const quizTopics = Array.from(topicCounts, ([topic, questionCount]) => ({ topic, questionCount })).sort(
+      (a, b) => b.questionCount - a.questionCount
+    );
+
+    const terms = (glossary?.result as { terms?: GlossaryTerm[] } | null)?.terms;
+    return {
+      studySet,
+      language: resolvedLanguage,
+      material: {
+        title: studySet.title,
+        summaries,
+        terms: Array.isArray(terms) ? terms : [],
+        quizTopics
+      },
+      sourceFiles: fileSummaries.map(result => ({ fileId: result.fileId, fileName: result.fileName }))
+    };
+  }
+
+  async saveStudyGuide(params: {
+    studySet: Types.ObjectId;
+    language: string | null;
+    maxWords: number;
+    guide: StudyGuideContent;
+    sourceFiles: Array<{ fileId: string; fileName: string }>;
+    model: string;
+    promptVersion: string;
+  }): Promise<StudyGuideDocument> {
+    const saved = await this.studyGuideModel
+      .findOneAndUpdate(
+        { studySet: params.studySet, language: params.language, format: params.guide.format },
+        { $set: { ...params, format: params.guide.format } },
+        { upsert: true, new: true }
+      )
+      .exec();
+    return saved as StudyGuideDocument;
+  }
+
+  async getStudyGuide(
+    userId: string,
+    studySetId: string,
+    format: StudyGuideFormat,
+    language?: string
+  ): Promise<StudyGuideDocument> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const guide = await this.studyGuideModel
+      .findOne({ studySet: studySet._id, format, ...this.buildResultLanguageFilter(language) })
+      .sort({ updatedAt: -1 })
+      .exec();
+
+    if (!guide) {
+      throw new NotFoundException(`No ${format} study guide yet. Generate one first.`);
+    }
+
+    return guide;
+  }
+
+  /**
+   * The quiz questions of every file in one language, for assembling practice
+   * exams. Without a language, the latest quiz's is used.
+   */
+  async getPracticeExamPool(
+    userId: string,
+    studySetId: string,
+    language?: string
+  ): Promise<{
+    studySet: StudySetDocument;
+    language: string | null;
+    files: Array<{ fileId: string; fileName: string }>;
+    pool: PoolQuestion[];
+  }> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const resolvedLanguage = language
+      ? (normalizeOutputLanguage(language)?.code ?? null)
+      : ((
+          await this.aiResultModel
+            .findOne({ studySet: studySet._id, feature: 'quizzes', status: 'completed' })
+            .sort({ updatedAt: -1 })
+            .lean()
+            .exec()
+        )?.language ?? null);
+    if (language && !resolvedLanguage) {
+      throw new BadRequestException('language must be a language tag such as en or pt-BR.');
+    }
+
+    const { results } = await this.findCompletedFileResults(studySet._id, 'quizzes', resolvedLanguage);
+    const pool = results.flatMap(result => {
+      const questions = (result.result as { questions?: unknown[] } | null)?.questions;
+      return (Array.isArray(questions) ? questions : []).flatMap((raw, index) => {
+        const question = normalizeQuizQuestion(raw);
+        return question ? [{ fileId: result.fileId, fileName: result.fileName, sourceIndex: index, question }] : [];
+      });
+    });
+
+    const files = studySet.fileSummaries
+      .filter(summary => summary.fileId)
+      .map(summary => ({ fileId: summary.fileId.toString(), fileName: summary.fileName }));
+    return { studySet, language: resolvedLanguage, files, pool };
+  }
+
+  /** The file as the most recent AI job saw it, to generate more content from the same source. */
+  async getLatestFileSnapshot(studySetId: Types.ObjectId, fileId: string): Promise<AiProcessFileSnapshot | null> {
+    const job = await this.aiJobModel
+      .findOne({ studySet: studySetId, 'payload.files.fileId': fileId })
+      .sort({ createdAt: -1 })
+      .lean()
+      .exec();
+    return job?.payload?.files?.find(snapshot => snapshot.fileId === fileId) ?? null;
+  }
+
+  async savePracticeExam(params: {
+    studySet: Types.ObjectId;
+    title: string;
+    language: string | null;
+    blueprint: PracticeExam['blueprint'];
+    questions: PracticeExam['questions'];
+  }): Promise<PracticeExamDocument> {
+    return this.practiceExamModel.create({ ...params, timeLimitMinutes: params.blueprint.timeLimitMinutes });
+  }
+
+  async listPracticeExams(userId: string, studySetId: string): Promise<PracticeExamDocument[]> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    return this.practiceExamModel.find({ studySet: studySet._id }).sort({ createdAt: -1 }).exec();
+  }
+
+  async getPracticeExam(userId: string, studySetId: string, examId: string): Promise<PracticeExamDocument> {
+    if (!Types.ObjectId.isValid(examId)) {
+      throw new NotFoundException('Practice exam not found');
+    }
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const exam = await this.practiceExamModel
+      .findOne({ _id: new Types.ObjectId(examId), studySet: studySet._id })
+      .exec();
+    if (!exam) {
+      throw new NotFoundException('Practice exam not found');
+    }
+
+    return exam;
+  }
+
+  async getPageImage(
+    userId: string,
+    studySetId: string,
+    fileId: string,
+    pageNumber: number,
+    width?: number
+  ): Promise<{ buffer: Buffer; contentType: string }> {
+    const studySet = await this.studySetModel
+      .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
+      .exec();
+
+    if (!studySet) {
+      throw new NotFoundException('Study set not found');
+    }
+
+    const summary = studySet.fileSummaries.find(item => item.fileId?.toString() === fileId);
+    if (!summary) {
+      throw new NotFoundException('File not found for this study set');
+    }
+
+    const entry = (summary.pageImageKeys ?? []).find(item => item.pageNumber === pageNumber);
+    if (!entry) {
+      throw new NotFoundException('No image stored for this page');
+    }
+
+    const buffer = await this.storage.getObjectBuffer(entry.storageKey);
+    const contentType = entry.storageKey.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg';
+    if (!width) {
+      return { buffer, contentType };
+    }
+
+    try {
+      const image = await loadImage(buffer);
+      const targetWidth = Math.min(Math.round(width), MAX_PAGE_IMAGE_WIDTH);
+      if (!image.width || image.width <= targetWidth) {
+        return { buffer, contentType };
+      }
+      const scale = targetWidth / image.width;
+      const canvas = createCanvas(targetWidth, Math.max(1, Math.round(image.height * scale)));
+      canvas.getContext('2d').drawImage(image, 0, 0, canvas.width, canvas.height);
+      return { buffer: await canvas.encode('jpeg', 80), contentType: 'image/jpeg' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to resize page image ${entry.storageKey}: ${message}`);
+      return { buffer, contentType };
+    }
+  }
+
+  private buildPageThumbnails(
+    studySetId: string,
+    fileId: string,
+    summary: { pageImageKeys?: Array<{ pageNumber: number; storageKey: string }> }
+  ): PageThumbnail[] {
+    return (summary.pageImageKeys ?? [])
+      .slice()
+      .sort((a, b) => a.pageNumber - b.pageNumber)
+      .map(entry => ({
+        pageNumber: entry.pageNumber,
+        url: `/api/study-sets/${studySetId}/files/${fileId}/pages/${entry.pageNumber}/image?width=${PAGE_THUMBNAIL_WIDTH}`
+      }));
+  }
+
   async updateSummary(
     userId: string,
     studySetId: string,
     fileId: string,
-    dto: UpdateSummaryDto
+    dto: UpdateSummaryDto,
+    language?: string
   ): Promise<void> {
     const studySet = await this.studySetModel
       .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
@@ -616,8 +1533,10 @@ export class StudySetsService {
       .findOne({
         studySet: studySet._id,
         fileId,
-        feature: 'summary'
+        feature: 'summary',
+        ...this.buildResultLanguageFilter(language)
       })
+      .sort({ updatedAt: -1 })
       .exec();
 
     if (!aiResult) {
@@ -658,7 +1577,8 @@ export class StudySetsService {
 
     await Promise.all([
       this.aiResultModel.deleteMany({ studySet: studySet._id }).exec(),
-      this.aiJobModel.deleteMany({ studySet: studySet._id }).exec()
+      this.aiJobModel.deleteMany({ studySet: studySet._id }).exec(),
+      this.extractionReportModel.deleteMany({ studySet: studySet._id }).exec()
     ]);
 
     await this.studySetModel.deleteOne({ _id: studySet._id }).exec();
@@ -667,7 +1587,7 @@ export class StudySetsService {
   async getFlashcardsWithProgress(
     userId: string,
     studySetId: string,
-    filters?: { mastery?: string; difficulty?: string; fileId?: string }
+    filters?: { mastery?: string; difficulty?: string; fileId?: string; language?: string }
   ): Promise<{
     studySetId: string;
     totalCards: number;
@@ -677,6 +1597,7 @@ export class StudySetsService {
     groups: Array<{
       fileId: string;
       fileName: string;
+      language: string | null;
       totalCards: number;
       masteredCards: number;
       cards: Array<any>;
@@ -696,7 +1617,8 @@ export class StudySetsService {
       .find({
         studySet: studySet._id,
         feature: 'flashcards',
-        status: 'completed'
+        status: 'completed',
+        ...this.buildResultLanguageFilter(filters?.language)
       })
       .exec();
 
@@ -736,6 +1658,7 @@ export class StudySetsService {
     const groups: Array<{
       fileId: string;
       fileName: string;
+      language: string | null;
       totalCards: number;
       masteredCards: number;
       cards: Array<any>;
@@ -762,7 +1685,8 @@ export class StudySetsService {
       const cards: Array<any> = [];
       let groupMasteredCount = 0;
 
-      for (const card of flashcards) {
+      // Cloze cards are reviewed one deletion at a time, so each deletion is its own item.
+      for (const card of flashcards.flatMap((stored: Flashcard) => toReviewItems(stored))) {
         const progress = progressMap.get(card.id);
         const mastered = progress?.mastered ?? false;
 
@@ -794,12 +1718,19 @@ export class StudySetsService {
           studySetId,
           fileId: aiResult.fileId,
           sourceFile: aiResult.fileName,
+          language: aiResult.language ?? null,
+          type: card.type ?? 'basic',
+          cardId: card.cardId,
+          clozeIndex: card.clozeIndex,
+          clozeText: card.clozeText ?? null,
           prompt: card.prompt,
           answer: card.answer,
           followUp: card.followUp,
           difficulty: card.difficulty,
           isEdited: card.isEdited ?? false,
           editedAt: card.editedAt ?? null,
+          grounding: card.grounding ?? null,
+          sourcePages: card.sourcePages ?? [],
           mastered,
           timesStudied,
           lastReviewed,
@@ -817,6 +1748,7 @@ export class StudySetsService {
         groups.push({
           fileId: aiResult.fileId,
           fileName: aiResult.fileName,
+          language: aiResult.language ?? null,
           totalCards: cards.length,
           masteredCards: groupMasteredCount,
           cards
@@ -847,13 +1779,12 @@ export class StudySetsService {
     lastReviewed: Date;
     firstStudied: Date;
   }> {
-    // Parse flashcard ID to extract studySetId
-    // Format: fc_<studySetId>_<fileId>_<index>
-    const parts = flashcardId.split('_');
-    if (parts.length < 4 || parts[0] !== 'fc') {
+    const { cardId, clozeIndex } = parseClozeItemId(flashcardId);
+    const parsedId = parseFlashcardId(cardId);
+    if (!parsedId) {
       throw new BadRequestException('Invalid flashcard ID format');
     }
-    const studySetId = parts[1];
+    const { studySetId } = parsedId;
 
     // Verify user owns the study set
     const studySet = await this.studySetModel
@@ -896,15 +1827,17 @@ export class StudySetsService {
 
       for (const result of aiResults) {
         const resultData = result.result as
-          | Array<{ id: string; prompt: string; difficulty: string }>
-          | { flashcards?: Array<{ id: string; prompt: string; difficulty: string }> }
+          | Array<ReviewableCard & { difficulty: string }>
+          | { flashcards?: Array<ReviewableCard & { difficulty: string }> }
           | null;
         const flashcards = Array.isArray(resultData)
           ? resultData
           : Array.isArray(resultData?.flashcards)
             ? resultData.flashcards
             : [];
-        const card = flashcards.find(fc => fc.id === flashcardId);
+        const storedCard = flashcards.find(fc => fc.id === cardId);
+        // Progress is tracked per deletion for cloze cards, so the item must name one that exists.
+        const card = storedCard ? toReviewItems(storedCard).find(item => item.id === flashcardId) : undefined;
         if (card) {
           foundCard = {
             prompt: card.prompt,
@@ -924,6 +1857,7 @@ export class StudySetsService {
         user: userObjectId,
         studySet: studySet._id,
         flashcardId,
+        clozeIndex,
         prompt: foundCard.prompt,
         sourceFile: foundCard.sourceFile,
         difficulty: foundCard.difficulty,
@@ -1135,8 +2069,20 @@ export class StudySetsService {
   async createFlashcard(
     userId: string,
     studySetId: string,
-    dto: { prompt: string; answer: string; followUp?: string; difficulty?: string; fileId?: string }
+    dto: {
+      type?: FlashcardType;
+      prompt?: string;
+      answer?: string;
+      clozeText?: string;
+      clozes?: Array<{ answer: string; hint?: string | null }>;
+      followUp?: string;
+      difficulty?: string;
+      fileId?: string;
+      language?: string;
+    }
   ): Promise<any> {
+    const content = this.resolveFlashcardContent(dto.type ?? 'basic', dto);
+
     // Verify study set ownership
     const studySet = await this.studySetModel
       .findOne({ _id: new Types.ObjectId(studySetId), user: new Types.ObjectId(userId) })
@@ -1155,8 +2101,10 @@ export class StudySetsService {
       .findOne({
         studySet: studySet._id,
         fileId,
-        feature: 'flashcards'
+        feature: 'flashcards',
+        ...this.buildResultLanguageFilter(dto.language)
       })
+      .sort({ updatedAt: -1 })
       .exec();
 
     if (!aiResult) {
@@ -1167,6 +2115,7 @@ export class StudySetsService {
         fileId,
         fileName,
         feature: 'flashcards',
+        language: normalizeOutputLanguage(dto.language)?.code ?? DEFAULT_OUTPUT_LANGUAGE,
         status: 'completed',
         result: { flashcards: [] }
       });
@@ -1176,13 +2125,12 @@ export class StudySetsService {
     const flashcardsData = aiResult.result as any;
     const flashcards = Array.isArray(flashcardsData?.flashcards) ? flashcardsData.flashcards : [];
     const index = flashcards.length;
-    const flashcardId = `fc_${studySetId}_${fileId}_${index.toString().padStart(3, '0')}`;
+    const flashcardId = buildFlashcardId(studySetId, fileId, aiResult.language, index);
 
     // Create the new flashcard
     const newFlashcard = {
       id: flashcardId,
-      prompt: dto.prompt,
-      answer: dto.answer,
+      ...content,
       followUp: dto.followUp || null,
       difficulty: dto.difficulty || 'intermediate',
       isEdited: true,
@@ -1200,6 +2148,10 @@ export class StudySetsService {
       studySetId,
       fileId,
       sourceFile: fileName,
+      language: aiResult.language ?? null,
+      type: newFlashcard.type,
+      clozeText: newFlashcard.clozeText ?? null,
+      clozes: newFlashcard.clozes ?? null,
       prompt: newFlashcard.prompt,
       answer: newFlashcard.answer,
       followUp: newFlashcard.followUp,
@@ -1212,17 +2164,23 @@ export class StudySetsService {
   async updateFlashcard(
     userId: string,
     flashcardId: string,
-    dto: { prompt?: string; answer?: string; followUp?: string; difficulty?: string }
+    dto: {
+      prompt?: string;
+      answer?: string;
+      clozeText?: string;
+      clozes?: Array<{ answer: string; hint?: string | null }>;
+      followUp?: string;
+      difficulty?: string;
+    }
   ): Promise<any> {
-    // Parse flashcard ID: fc_<studySetId>_<fileId>_<index>
-    const parts = flashcardId.split('_');
-    if (parts.length < 4 || parts[0] !== 'fc') {
+    // Review items of a cloze card edit the card they belong to.
+    const { cardId } = parseClozeItemId(flashcardId);
+    const parsedId = parseFlashcardId(cardId);
+    if (!parsedId) {
       throw new BadRequestException('Invalid flashcard ID format');
     }
 
-    const studySetId = parts[1];
-    const fileId = parts.slice(2, -1).join('_');
-    const index = parseInt(parts[parts.length - 1], 10);
+    const { studySetId, fileId, language, index } = parsedId;
 
     // Verify study set ownership
     const studySet = await this.studySetModel
@@ -1238,7 +2196,8 @@ export class StudySetsService {
       .findOne({
         studySet: studySet._id,
         fileId,
-        feature: 'flashcards'
+        feature: 'flashcards',
+        language: this.resultLanguageCondition(language)
       })
       .exec();
 
@@ -1256,23 +2215,42 @@ export class StudySetsService {
     const flashcard = flashcards[index];
 
     // Update fields
-    if (dto.prompt !== undefined) flashcard.prompt = dto.prompt;
-    if (dto.answer !== undefined) flashcard.answer = dto.answer;
+    if (flashcard.type === 'cloze') {
+      if (dto.clozeText !== undefined || dto.clozes !== undefined) {
+        Object.assign(
+          flashcard,
+          this.resolveFlashcardContent(
+            'cloze',
+            { clozeText: dto.clozeText ?? flashcard.clozeText, clozes: dto.clozes ?? flashcard.clozes },
+            flashcard.clozes
+          )
+        );
+      }
+    } else {
+      if (dto.prompt !== undefined) flashcard.prompt = dto.prompt;
+      if (dto.answer !== undefined) flashcard.answer = dto.answer;
+    }
     if (dto.followUp !== undefined) flashcard.followUp = dto.followUp;
     if (dto.difficulty !== undefined) flashcard.difficulty = dto.difficulty;
 
     flashcard.isEdited = true;
     flashcard.editedAt = new Date().toISOString();
+    // The grounding check covered the generated wording, not the user's edit.
+    delete flashcard.grounding;
 
     aiResult.result = { flashcards };
     aiResult.markModified('result');
     await aiResult.save();
 
     return {
-      id: flashcardId,
+      id: cardId,
       studySetId,
       fileId,
       sourceFile: aiResult.fileName,
+      language: aiResult.language ?? null,
+      type: flashcard.type ?? 'basic',
+      clozeText: flashcard.clozeText ?? null,
+      clozes: flashcard.clozes ?? null,
       prompt: flashcard.prompt,
       answer: flashcard.answer,
       followUp: flashcard.followUp,
@@ -1283,15 +2261,13 @@ export class StudySetsService {
   }
 
   async deleteFlashcard(userId: string, flashcardId: string): Promise<void> {
-    // Parse flashcard ID: fc_<studySetId>_<fileId>_<index>
-    const parts = flashcardId.split('_');
-    if (parts.length < 4 || parts[0] !== 'fc') {
+    const { cardId } = parseClozeItemId(flashcardId);
+    const parsedId = parseFlashcardId(cardId);
+    if (!parsedId) {
       throw new BadRequestException('Invalid flashcard ID format');
     }
 
-    const studySetId = parts[1];
-    const fileId = parts.slice(2, -1).join('_');
-    const index = parseInt(parts[parts.length - 1], 10);
+    const { studySetId, fileId, language, index } = parsedId;
 
     // Verify study set ownership
     const studySet = await this.studySetModel
@@ -1307,7 +2283,8 @@ export class StudySetsService {
       .findOne({
         studySet: studySet._id,
         fileId,
-        feature: 'flashcards'
+        feature: 'flashcards',
+        language: this.resultLanguageCondition(language)
       })
       .exec();
 
@@ -1327,14 +2304,73 @@ export class StudySetsService {
 
     // Re-generate IDs for all flashcards after the deleted one
     for (let i = index; i < flashcards.length; i++) {
-      flashcards[i].id = `fc_${studySetId}_${fileId}_${i.toString().padStart(3, '0')}`;
+      flashcards[i].id = buildFlashcardId(studySetId, fileId, language, i);
     }
 
     aiResult.result = { flashcards };
     aiResult.markModified('result');
     await aiResult.save();
 
-    // Also delete any progress records for this flashcard
-    await this.flashcardProgressModel.deleteMany({ flashcardId }).exec();
+    // Also delete any progress records for this flashcard, including each cloze deletion
+    await this.flashcardProgressModel
+      .deleteMany({
+        $or: [{ flashcardId: cardId }, { flashcardId: { $regex: `^${this.escapeRegex(cardId)}\\.c\\d+$` } }]
+      })
+      .exec();
+  }
+
+  private resolveFlashcardContent(
+    type: FlashcardType,
+    dto: {
+      prompt?: string;
+      answer?: string;
+      clozeText?: string;
+      clozes?: Array<{ answer: string; hint?: string | null }>;
+    },
+    previousClozes?: ClozeDeletion[]
+  ): Pick<Flashcard, 'type' | 'prompt' | 'answer' | 'clozeText' | 'clozes'> {
+    if (type !== 'cloze') {
+      if (!dto.prompt || !dto.answer) {
+        throw new BadRequestException('prompt and answer are required for basic flashcards.');
+      }
+      return { type: 'basic', prompt: dto.prompt, answer: dto.answer };
+    }
+
+    const clozeText = dto.clozeText ?? '';
+    const error = validateClozeDeletions(clozeText, dto.clozes ?? []);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+    const clozes = buildClozeDeletions(dto.clozes ?? [], previousClozes);
+    return {
+      type: 'cloze',
+      prompt: renderClozePrompt(clozeText, clozes),
+      answer: clozes.map(cloze => cloze.answer).join('; '),
+      clozeText: clozeText.trim(),
+      clozes
+    };
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private buildResultLanguageFilter(language?: string | null): { language?: unknown } {
+    if (!language) {
+      return {};
+    }
+    const normalized = normalizeOutputLanguage(language);
+    if (!normalized) {
+      throw new BadRequestException('language must be a language tag such as en or pt-BR.');
+    }
+    return { language: this.resultLanguageCondition(normalized.code) };
+  }
+
+  private resultLanguageCondition(language: string | null): unknown {
+    // Results stored before languages were tracked were always generated in English.
+    if (!language) {
+      return { $in: [null, DEFAULT_OUTPUT_LANGUAGE] };
+    }
+    return language.split('-')[0] === DEFAULT_OUTPUT_LANGUAGE ? { $in: [language, null] } : language;
   }
 }
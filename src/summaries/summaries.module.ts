@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { SummariesService } from './summaries.service';
 import { SummariesController } from './summaries.controller';
+import { LlmModule } from '../llm/llm.module';
 
 @Module({
+  imports: [LlmModule],
   controllers: [SummariesController],
   providers: [SummariesService],
   exports: [SummariesService]
@@ -1,5 +1,11 @@
 import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
-import OpenAI from 'openai';
+import { buildTopicFocusInstruction, SummaryDepth, SummaryGenerationOptions } from '../ai/generation-options';
+import { buildLanguageInstruction, OutputLanguage } from '../ai/output-language';
+import { buildPageChunks, readPageChunkSize } from '../ai/page-chunks';
+import { buildSourcePagesInstruction, PageCitation, parseCitedPages } from '../ai/page-citations';
+import { ItemRevision } from '../ai/revision-history';
+import type { ItemGrounding } from '../grounding/grounding.service';
+import { LlmService } from '../llm/llm.service';
 
 export interface StructuredSummary {
   title: string;
@@ -8,6 +14,9 @@ export interface StructuredSummary {
   key_points: Array<{
     heading: string;
     detail: string;
+    history?: ItemRevision[];
+    grounding?: ItemGrounding;
+    sourcePages?: PageCitation[];
   }>;
   study_recommendations: string[];
   confidence: 'high' | 'medium' | 'low' | string;
@@ -20,6 +29,75 @@ export interface GeneratedSummaryResponse {
   rawResponse: unknown;
 }
 
+export interface MasterSummarySource {
+  fileId: string;
+  fileName: string;
+  summary: StructuredSummary;
+}
+
+export interface MasterSummarySection {
+  heading: string;
+  content: string;
+  sources: Array<{ fileId: string; fileName: string }>;
+}
+
+/** Study-set-wide outline merged from the per-file summaries. */
+export interface MasterSummary extends StructuredSummary {
+  sections: MasterSummarySection[];
+}
+
+export interface GeneratedMasterSummaryResponse {
+  model: string;
+  promptVersion: string;
+  summary: MasterSummary;
+  sourceFiles: Array<{ fileId: string; fileName: string }>;
+  rawResponse: unknown;
+}
+
+interface SummaryDepthTarget {
+  words: string;
+  minWords: number;
+  keyPoints: string;
+  minKeyPoints: number;
+  recommendations: string;
+  minRecommendations: number;
+  minSections: number;
+  maxTokens: number;
+}
+
+const SUMMARY_DEPTH_TARGETS: Record<SummaryDepth, SummaryDepthTarget> = {
+  brief: {
+    words: '250-400',
+    minWords: 200,
+    keyPoints: '5-8',
+    minKeyPoints: 5,
+    recommendations: '3-5',
+    minRecommendations: 3,
+    minSections: 3,
+    maxTokens: 2000
+  },
+  standard: {
+    words: '600-900',
+    minWords: 450,
+    keyPoints: '10-15',
+    minKeyPoints: 10,
+    recommendations: '6-8',
+    minRecommendations: 6,
+    minSections: 5,
+    maxTokens: 3500
+  },
+  detailed: {
+    words: '1200-1800',
+    minWords: 1000,
+    keyPoints: '15-25',
+    minKeyPoints: 15,
+    recommendations: '8-12',
+    minRecommendations: 8,
+    minSections: 8,
+    maxTokens: 6000
+  }
+};
+
 const DEFAULT_SUMMARY: StructuredSummary = {
   title: 'Study Summary',
   summary: '',
@@ -32,28 +110,29 @@ const DEFAULT_SUMMARY: StructuredSummary = {
 @Injectable()
 export class SummariesService {
   private readonly logger = new Logger(SummariesService.name);
-  private readonly openai: OpenAI;
-  private readonly model = process.env.OPENAI_MODEL ?? 'gpt-4o-mini';
-  private readonly promptVersion = 'v2-structured-summary';
-  private readonly summaryChunkSize: number;
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY
-    });
-    const rawChunkSize = Number(process.env.SUMMARY_PAGE_CHUNK_SIZE ?? 0);
-    this.summaryChunkSize = Number.isFinite(rawChunkSize) ? Math.max(0, Math.floor(rawChunkSize)) : 0;
+  readonly promptVersion = 'v2-structured-summary';
+  private readonly masterPromptVersion = 'v1-master-summary';
+  readonly pageChunkSize: number;
+
+  constructor(private readonly llm: LlmService) {
+    this.pageChunkSize = readPageChunkSize('SUMMARY_PAGE_CHUNK_SIZE');
   }
 
-  async generateStructuredSummary(content: string, topic?: string): Promise<GeneratedSummaryResponse> {
+  async generateStructuredSummary(
+    content: string,
+    topic?: string,
+    language?: OutputLanguage,
+    options: SummaryGenerationOptions = {}
+  ): Promise<GeneratedSummaryResponse> {
     const trimmedContent = content.trim();
     if (!trimmedContent) {
       throw new InternalServerErrorException('Cannot summarize empty content.');
     }
 
-    const chunkedContent = await this.buildChunkedContent(trimmedContent, topic);
+    const target = SUMMARY_DEPTH_TARGETS[options.depth ?? 'standard'];
+    const chunkedContent = await this.buildChunkedContent(trimmedContent, topic, language);
     const effectiveContent = chunkedContent ?? trimmedContent;
-    const prompt = this.buildPrompt(effectiveContent, topic);
+    const prompt = this.buildPrompt(effectiveContent, topic, target, options, language);
     const systemPrompt = `
                           You are a highly capable AI study assistant.
 
@@ -70,29 +149,36 @@ export class SummariesService {
 
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
+      const response = await this.llm.chat({
+        feature: 'summary',
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: prompt }
         ],
-        response_format: { type: 'json_object' },
+        responseFormat: 'json_object',
         temperature: 0.4,
-        max_tokens: 3500
+        maxTokens: target.maxTokens
       });
 
-      const llmText = response.choices[0]?.message?.content?.trim();
+      const llmText = response.content;
       if (!llmText) {
-        this.logger.error('Received empty response from OpenAI.');
+        this.logger.error('Received empty response from the LLM.');
         throw new InternalServerErrorException('LLM returned an empty response.');
       }
 
-      this.logger.log('OpenAI Response (Summary):', llmText);
+      this.logger.log('LLM Response (Summary):', llmText);
 
       let structuredSummary = this.parseStructuredSummary(llmText);
-      if (this.needsSummaryExpansion(structuredSummary)) {
+      if (this.needsSummaryExpansion(structuredSummary, target)) {
         this.logger.warn('Summary below minimum thresholds. Requesting expansion.');
-        const expanded = await this.requestExpandedSummary(effectiveContent, structuredSummary, topic);
+        const expanded = await this.requestExpandedSummary(
+          effectiveContent,
+          structuredSummary,
+          target,
+          options,
+          topic,
+          language
+        );
         if (expanded) {
           structuredSummary = expanded;
         }
@@ -100,18 +186,132 @@ export class SummariesService {
       const rawResponse = this.tryParseRawResponse(llmText);
 
       return {
-        model: response.model ?? this.model,
+        model: response.model,
         promptVersion: this.promptVersion,
         summary: structuredSummary,
         rawResponse
       };
     } catch (error) {
-      this.logger.error('OpenAI request failed:', error);
+      this.logger.error('LLM request failed:', error);
       throw new InternalServerErrorException('Unable to generate summary at the moment.');
     }
   }
 
-  private buildPrompt(content: string, topic?: string): string {
+  async generateMasterSummary(
+    sources: MasterSummarySource[],
+    topic?: string,
+    language?: OutputLanguage,
+    options: SummaryGenerationOptions = {}
+  ): Promise<GeneratedMasterSummaryResponse> {
+    if (!sources.length) {
+      throw new InternalServerErrorException('Cannot build a master summary without file summaries.');
+    }
+
+    const prompt = this.buildMasterPrompt(sources, topic, options, language);
+    const sourceFiles = sources.map(source => ({ fileId: source.fileId, fileName: source.fileName }));
+
+    try {
+      const response = await this.llm.chat({
+        feature: 'summary',
+        messages: [
+          { role: 'system', content: 'You are a JSON-only assistant that merges study notes into one coherent outline.' },
+          { role: 'user', content: prompt }
+        ],
+        responseFormat: 'json_object',
+        temperature: 0.3,
+        maxTokens: 5000
+      });
+
+      const llmText = response.content;
+      if (!llmText) {
+        this.logger.error('Received empty response from the LLM.');
+        throw new InternalServerErrorException('LLM returned an empty response.');
+      }
+
+      this.logger.log('LLM Response (Master Summary):', llmText);
+
+      return {
+        model: response.model,
+        promptVersion: this.masterPromptVersion,
+        summary: this.parseMasterSummary(llmText, sources),
+        sourceFiles,
+        rawResponse: this.tryParseRawResponse(llmText)
+      };
+    } catch (error) {
+      this.logger.error('LLM request failed:', error);
+      throw new InternalServerErrorException('Unable to generate master summary at the moment.');
+    }
+  }
+
+  /** Rewrites one key point from the same source without repeating the summary's other points. */
+  async regenerateKeyPoint(
+    content: string,
+    summary: StructuredSummary,
+    index: number,
+    note?: string | null,
+    language?: OutputLanguage
+  ): Promise<{ model: string; keyPoint: { heading: string; detail: string; sourcePages: PageCitation[] } }> {
+    const flagged = summary.key_points[index];
+    const others = summary.key_points.filter((_, position) => position !== index);
+    const prompt = [
+      '=== STRICT JSON OUTPUT MODE ===',
+      'Output ONLY a valid JSON object of the form { "key_points": [ { "heading": string, "detail": string } ] }.',
+      '',
+      'TASK: A student flagged one key point of their study summary as wrong or unhelpful. Return exactly 1 replacement key point.',
+      '- Cover the same idea unless the source material shows it was wrong.',
+      '- Keep the detail to at most 2 sentences, taken from the source material.',
+      '- Do not repeat any of the other key points.',
+      '',
+      '=== FLAGGED KEY POINT ===',
+      JSON.stringify({ heading: flagged.heading, detail: flagged.detail }, null, 2),
+      note?.trim() ? `Student's note on what is wrong: ${note.trim()}` : 'The student did not say what is wrong.',
+      '',
+      others.length ? `Other key points (do not repeat):\n- ${others.map(point => point.heading).join('\n- ')}` : '',
+      '',
+      summary.title ? `Summary title: ${summary.title}` : '',
+      buildSourcePagesInstruction(content, 'key point'),
+      buildLanguageInstruction(language),
+      '',
+      '=== SOURCE MATERIAL ===',
+      content,
+      '',
+      '=== OUTPUT JSON ONLY — START WITH { AND END WITH } ==='
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    try {
+      const response = await this.llm.chat({
+        feature: 'summary',
+        messages: [
+          { role: 'system', content: 'You are a JSON-only assistant.' },
+          { role: 'user', content: prompt }
+        ],
+        responseFormat: 'json_object',
+        temperature: 0.4,
+        maxTokens: 600
+      });
+      const [replacement] = this.parseStructuredSummary(response.content).key_points ?? [];
+      if (typeof replacement?.heading !== 'string' || typeof replacement?.detail !== 'string') {
+        throw new Error('LLM did not return a usable key point.');
+      }
+      return {
+        model: response.model,
+        keyPoint: { heading: replacement.heading, detail: replacement.detail, sourcePages: replacement.sourcePages ?? [] }
+      };
+    } catch (error) {
+      this.logger.error('Key point regeneration failed:', error);
+      throw new InternalServerErrorException('Unable to regenerate the key point at the moment.');
+    }
+  }
+
+  private buildPrompt(
+    content: string,
+    topic: string | undefined,
+    target: SummaryDepthTarget,
+    options: SummaryGenerationOptions,
+    language?: OutputLanguage
+  ): string {
 
     return [
       '=== STRICT JSON OUTPUT MODE ===',
@@ -146,11 +346,11 @@ export class SummariesService {
       '{',
       '  "title": string,',
       '  "summary": string,                  // short 3-5 sentence high-level overview',
-      '  "detailed_summary": string,         // 600-900 words, formatted as a numbered outline with bullets',
+      `  "detailed_summary": string,         // ${target.words} words, formatted as a numbered outline with bullets`,
       '  "key_points": [',
       '    { "heading": string, "detail": string }',
-      '  ],                                   // 10-15 key points, each at most 2 sentences',
-      '  "study_recommendations": [ string ], // 6-8 actionable, content-specific suggestions',
+      `  ],                                   // ${target.keyPoints} key points, each at most 2 sentences`,
+      `  "study_recommendations": [ string ], // ${target.recommendations} actionable, content-specific suggestions`,
       '  "confidence": "high" | "medium" | "low"',
       '}',
       '',
@@ -169,9 +369,9 @@ export class SummariesService {
       '- <bullet point 1>',
       '- <bullet point 2>',
       '',
-      '- You MUST include at least 5 numbered sections (1., 2., 3., 4., 5.) if the source text is long.',
+      `- You MUST include at least ${target.minSections} numbered sections if the source text is long.`,
       '- Each section should correspond to a major topic, heading, or logical part of the material.',
-      '- Aim for 600-900 words total in detailed_summary. Most of your output tokens should go here.',
+      `- Aim for ${target.words} words total in detailed_summary. Most of your output tokens should go here.`,
       '',
       '=== QUALITY GUIDELINES ===',
       '- The detailed_summary MUST be the longest and richest part of the JSON.',
@@ -179,10 +379,13 @@ export class SummariesService {
       '- Ensure the numbered sections, taken together, cover the full scope of the material.',
       '- Study recommendations must be specific to this content (what to review, practice, memorize, compare, map, etc.).',
       '- Avoid generic advice that could apply to any topic.',
-      '- Minimum output sizes are mandatory (10+ key_points, 6+ study_recommendations).',
+      `- Minimum output sizes are mandatory (${target.minKeyPoints}+ key_points, ${target.minRecommendations}+ study_recommendations).`,
       '- If the source is short, split concepts into smaller items, but do NOT invent facts.',
       '',
       topic ? `Topic: ${topic}` : '',
+      buildTopicFocusInstruction(options),
+      buildSourcePagesInstruction(content, 'key point'),
+      buildLanguageInstruction(language),
       '',
       '=== SOURCE MATERIAL ===',
       content,
@@ -193,23 +396,139 @@ export class SummariesService {
       .join('\n');
   }
 
-  private async buildChunkedContent(content: string, topic?: string): Promise<string | null> {
-    if (this.summaryChunkSize <= 0) {
-      return null;
+  private buildMasterPrompt(
+    sources: MasterSummarySource[],
+    topic: string | undefined,
+    options: SummaryGenerationOptions,
+    language?: OutputLanguage
+  ): string {
+    const files = sources.map((source, index) =>
+      [
+        `[F${index + 1}] ${source.fileName}`,
+        `Title: ${source.summary.title}`,
+        `Overview: ${source.summary.summary}`,
+        source.summary.detailed_summary ? `Outline:\n${source.summary.detailed_summary}` : '',
+        source.summary.key_points?.length
+          ? `Key points:\n${source.summary.key_points.map(point => `- ${point.heading}: ${point.detail}`).join('\n')}`
+          : ''
+      ]
+        .filter(Boolean)
+        .join('\n')
+    );
+
+    return [
+      '=== STRICT JSON OUTPUT MODE ===',
+      'Output ONLY a valid JSON object. No explanations, no reasoning, and no commentary.',
+      '',
+      'TASK:',
+      `Merge the summaries of ${sources.length} files from one study set into a single master study outline.`,
+      '',
+      '=== RULES ===',
+      '- Organize by topic, not by file. Order sections so that foundations come before the topics that build on them.',
+      '- Merge overlapping material from different files into one section instead of repeating it.',
+      '- Keep every important concept from every file; drop only duplicates.',
+      '- Each section MUST list the files it draws on in "sources", using their tags (e.g. "F1").',
+      '- Do NOT invent information that is not present in the file summaries.',
+      '',
+      '=== REQUIRED JSON STRUCTURE ===',
+      '{',
+      '  "title": string,',
+      '  "summary": string,                  // 3-5 sentence overview of the whole study set',
+      '  "sections": [',
+      '    { "heading": string, "content": string, "sources": [ "F1" ] }',
+      '  ],                                   // 4-12 sections in study order; content uses short bullet lines',
+      '  "key_points": [',
+      '    { "heading": string, "detail": string }',
+      '  ],                                   // 10-15 key points across all files',
+      '  "study_recommendations": [ string ], // 6-8 suggestions, including how the files connect',
+      '  "confidence": "high" | "medium" | "low"',
+      '}',
+      '',
+      topic ? `Topic: ${topic}` : '',
+      buildTopicFocusInstruction(options),
+      buildLanguageInstruction(language),
+      '',
+      '=== FILE SUMMARIES ===',
+      files.join('\n\n'),
+      '',
+      '=== OUTPUT JSON ONLY — START WITH { AND END WITH } ==='
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private parseMasterSummary(raw: string, sources: MasterSummarySource[]): MasterSummary {
+    const base = this.parseStructuredSummary(raw);
+    const rawSections = Array.isArray((base as { sections?: unknown }).sections)
+      ? ((base as { sections?: unknown[] }).sections as Array<Record<string, unknown>>)
+      : [];
+
+    let sections: MasterSummarySection[] = rawSections
+      .filter(section => section && typeof section.heading === 'string' && typeof section.content === 'string')
+      .map(section => ({
+        heading: (section.heading as string).trim(),
+        content: (section.content as string).trim(),
+        sources: this.resolveMasterSources(section.sources, sources)
+      }));
+
+    if (!sections.length) {
+      this.logger.warn('Master summary had no usable sections. Falling back to one section per file.');
+      sections = sources.map(source => ({
+        heading: source.summary.title || source.fileName,
+        content: source.summary.summary,
+        sources: [{ fileId: source.fileId, fileName: source.fileName }]
+      }));
     }
 
-    const pages = this.splitIntoPages(content);
-    if (!pages.length || pages.length <= this.summaryChunkSize) {
+    const detailed = sections
+      .map((section, index) => {
+        const cited = section.sources.map(source => source.fileName).join(', ');
+        return [`${index + 1}. ${section.heading}`, section.content, cited ? `(Sources: ${cited})` : '']
+          .filter(Boolean)
+          .join('\n');
+      })
+      .join('\n\n');
+
+    return { ...base, detailed_summary: detailed, sections };
+  }
+
+  private resolveMasterSources(
+    value: unknown,
+    sources: MasterSummarySource[]
+  ): Array<{ fileId: string; fileName: string }> {
+    const tags = Array.isArray(value) ? value : [value];
+    const resolved = new Map<string, { fileId: string; fileName: string }>();
+    tags.forEach(tag => {
+      if (typeof tag !== 'string') {
+        return;
+      }
+      const index = tag.match(/F\s*(\d+)/i);
+      const source = index
+        ? sources[Number(index[1]) - 1]
+        : sources.find(item => item.fileName.toLowerCase() === tag.trim().toLowerCase());
+      if (source) {
+        resolved.set(source.fileId, { fileId: source.fileId, fileName: source.fileName });
+      }
+    });
+    return Array.from(resolved.values());
+  }
+
+  private async buildChunkedContent(
+    content: string,
+    topic?: string,
+    language?: OutputLanguage
+  ): Promise<string | null> {
+    const chunks = buildPageChunks(content, this.pageChunkSize);
+    if (!chunks) {
       return null;
     }
 
-    const chunks = this.chunkPages(pages, this.summaryChunkSize);
     this.logger.log(`Chunking summary content into ${chunks.length} chunk(s).`);
     const notes: string[] = [];
 
     try {
       for (const chunk of chunks) {
-        const chunkNotes = await this.generateChunkNotes(chunk.text, chunk.rangeLabel, topic);
+        const chunkNotes = await this.generateChunkNotes(chunk.text, chunk.rangeLabel, topic, language);
         if (chunkNotes) {
           notes.push(`=== Pages ${chunk.rangeLabel} Notes ===\n${chunkNotes}`);
         }
@@ -222,52 +541,12 @@ export class SummariesService {
     return notes.length ? notes.join('\n\n') : null;
   }
 
-  private splitIntoPages(content: string): Array<{ pageNumber: number; text: string }> {
-    const regex = /^=== Page\s+(\d+)\s+===$/gm;
-    const pages: Array<{ pageNumber: number; text: string }> = [];
-    let lastIndex = 0;
-    let lastPage: number | null = null;
-    let match: RegExpExecArray | null;
-
-    while ((match = regex.exec(content)) !== null) {
-      if (lastPage !== null) {
-        const text = content.slice(lastIndex, match.index).trim();
-        pages.push({ pageNumber: lastPage, text });
-      }
-      lastPage = Number(match[1]);
-      lastIndex = match.index + match[0].length;
-    }
-
-    if (lastPage !== null) {
-      const text = content.slice(lastIndex).trim();
-      pages.push({ pageNumber: lastPage, text });
-    }
-
-    return pages;
-  }
-
-  private chunkPages(
-    pages: Array<{ pageNumber: number; text: string }>,
-    chunkSize: number
-  ): Array<{ rangeLabel: string; text: string }> {
-    const chunks: Array<{ rangeLabel: string; text: string }> = [];
-    for (let index = 0; index < pages.length; index += chunkSize) {
-      const slice = pages.slice(index, index + chunkSize);
-      if (!slice.length) {
-        continue;
-      }
-      const start = slice[0].pageNumber;
-      const end = slice[slice.length - 1].pageNumber;
-      const rangeLabel = start === end ? `${start}` : `${start}-${end}`;
-      const text = slice
-        .map(page => `=== Page ${page.pageNumber} ===\n${page.text}`)
-        .join('\n\n');
-      chunks.push({ rangeLabel, text });
-    }
-    return chunks;
-  }
-
-  private buildChunkPrompt(content: string, rangeLabel: string, topic?: string): string {
+  private buildChunkPrompt(
+    content: string,
+    rangeLabel: string,
+    topic?: string,
+    language?: OutputLanguage
+  ): string {
     return [
       'TASK:',
       `Summarize pages ${rangeLabel} into concise study notes.`,
@@ -276,6 +555,7 @@ export class SummariesService {
       'Output plain text bullet notes. No JSON, no extra commentary.',
       '',
       topic ? `Topic: ${topic}` : '',
+      buildLanguageInstruction(language),
       '',
       '=== SOURCE MATERIAL ===',
       content
@@ -287,34 +567,38 @@ export class SummariesService {
   private async generateChunkNotes(
     content: string,
     rangeLabel: string,
-    topic?: string
+    topic?: string,
+    language?: OutputLanguage
   ): Promise<string> {
-    const prompt = this.buildChunkPrompt(content, rangeLabel, topic);
-    const response = await this.openai.chat.completions.create({
-      model: this.model,
+    const prompt = this.buildChunkPrompt(content, rangeLabel, topic, language);
+    const response = await this.llm.chat({
+      feature: 'summary',
       messages: [
         { role: 'system', content: 'You are a concise study-notes assistant.' },
         { role: 'user', content: prompt }
       ],
       temperature: 0.3,
-      max_tokens: 1200
+      maxTokens: 1200
     });
 
-    return response.choices[0]?.message?.content?.trim() ?? '';
+    return response.content;
   }
 
-  private needsSummaryExpansion(summary: StructuredSummary): boolean {
+  private needsSummaryExpansion(summary: StructuredSummary, target: SummaryDepthTarget): boolean {
     const detailed = summary.detailed_summary ?? '';
     const words = detailed.trim().split(/\s+/).filter(Boolean).length;
     const keyPoints = summary.key_points?.length ?? 0;
     const recommendations = summary.study_recommendations?.length ?? 0;
-    return words < 450 || keyPoints < 10 || recommendations < 6;
+    return words < target.minWords || keyPoints < target.minKeyPoints || recommendations < target.minRecommendations;
   }
 
   private async requestExpandedSummary(
     content: string,
     existing: StructuredSummary,
-    topic?: string
+    target: SummaryDepthTarget,
+    options: SummaryGenerationOptions,
+    topic?: string,
+    language?: OutputLanguage
   ): Promise<StructuredSummary | null> {
     const prompt = [
       '=== STRICT JSON OUTPUT MODE ===',
@@ -325,11 +609,14 @@ export class SummariesService {
       'Do NOT remove important details from the existing summary.',
       '',
       'Minimum requirements:',
-      '- detailed_summary: 600-900 words',
-      '- key_points: 10-15 items',
-      '- study_recommendations: 6-8 items',
+      `- detailed_summary: ${target.words} words`,
+      `- key_points: ${target.keyPoints} items`,
+      `- study_recommendations: ${target.recommendations} items`,
       '',
       topic ? `Topic: ${topic}` : '',
+      buildTopicFocusInstruction(options),
+      buildSourcePagesInstruction(content, 'key point'),
+      buildLanguageInstruction(language),
       '',
       '=== EXISTING SUMMARY (to expand) ===',
       JSON.stringify(existing, null, 2),
@@ -343,18 +630,18 @@ export class SummariesService {
       .join('\n');
 
     try {
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
+      const response = await this.llm.chat({
+        feature: 'summary',
         messages: [
           { role: 'system', content: 'You are a JSON-only assistant.' },
           { role: 'user', content: prompt }
         ],
-        response_format: { type: 'json_object' },
+        responseFormat: 'json_object',
         temperature: 0.4,
-        max_tokens: 5000
+        maxTokens: Math.max(5000, target.maxTokens)
       });
 
-      const llmText = response.choices[0]?.message?.content?.trim();
+      const llmText = response.content;
       if (!llmText) {
         return null;
       }
@@ -379,7 +666,7 @@ export class SummariesService {
       return {
         ...DEFAULT_SUMMARY,
         ...parsed,
-        key_points: parsed?.key_points ?? DEFAULT_SUMMARY.key_points,
+        key_points: this.withCitedPages(parsed?.key_points) ?? DEFAULT_SUMMARY.key_points,
         study_recommendations: parsed?.study_recommendations ?? DEFAULT_SUMMARY.study_recommendations,
         confidence: parsed?.confidence ?? DEFAULT_SUMMARY.confidence
       };
@@ -390,7 +677,7 @@ export class SummariesService {
         return {
           ...DEFAULT_SUMMARY,
           ...recovered,
-          key_points: recovered?.key_points ?? DEFAULT_SUMMARY.key_points,
+          key_points: this.withCitedPages(recovered?.key_points) ?? DEFAULT_SUMMARY.key_points,
           study_recommendations: recovered?.study_recommendations ?? DEFAULT_SUMMARY.study_recommendations,
           confidence: recovered?.confidence ?? DEFAULT_SUMMARY.confidence
         };
@@ -403,6 +690,17 @@ export class SummariesService {
     }
   }
 
+  private withCitedPages(keyPoints: unknown): StructuredSummary['key_points'] | undefined {
+    if (!Array.isArray(keyPoints)) {
+      return undefined;
+    }
+    return keyPoints.map(point =>
+      point && typeof point === 'object' && 'sourcePages' in point
+        ? { ...point, sourcePages: parseCitedPages(point.sourcePages) }
+        : point
+    );
+  }
+
   private hasWrongStructure(obj: any): boolean {
     // Check for common wrong structures that DeepSeek might generate
     const wrongKeys = ['search_query', 'page_numbers', 'results', 'id', 'text'];
@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UsageTotalsDto {
+  @ApiProperty({ example: 14, description: 'LLM and vision calls, including retried attempts.' })
+  calls!: number;
+
+  @ApiProperty({ example: 1 })
+  failedCalls!: number;
+
+  @ApiProperty({ example: 48210 })
+  promptTokens!: number;
+
+  @ApiProperty({ example: 9630 })
+  completionTokens!: number;
+
+  @ApiProperty({ example: 57840 })
+  totalTokens!: number;
+
+  @ApiProperty({ example: 0.01301, description: 'Estimated from per-model token prices (LLM_PRICING).' })
+  estimatedCostUsd!: number;
+}
+
+export class ModelUsageDto extends UsageTotalsDto {
+  @ApiProperty({ example: 'gpt-4o-mini' })
+  model!: string;
+}
+
+export class DailyUsageDto extends UsageTotalsDto {
+  @ApiProperty({ example: '2025-12-23', description: 'UTC day.' })
+  date!: string;
+
+  @ApiProperty({ type: [ModelUsageDto] })
+  models!: ModelUsageDto[];
+}
+
+export class StudySetUsageDto extends UsageTotalsDto {
+  @ApiProperty({ example: '66be58d6355bf7728390c94f', nullable: true })
+  studySetId!: string | null;
+
+  @ApiProperty({ example: 'Biology midterm', nullable: true, description: 'Null when the study set was deleted.' })
+  title!: string | null;
+}
+
+export class UsageReportResponseDto {
+  @ApiProperty({ example: '2025-11-24' })
+  from!: string;
+
+  @ApiProperty({ example: '2025-12-23' })
+  to!: string;
+
+  @ApiProperty({ type: UsageTotalsDto })
+  totals!: UsageTotalsDto;
+
+  @ApiProperty({ type: [DailyUsageDto], description: 'Days with usage, oldest first.' })
+  days!: DailyUsageDto[];
+
+  @ApiProperty({ type: [StudySetUsageDto], description: 'Usage per study set, most expensive first.' })
+  studySets!: StudySetUsageDto[];
+}
+
+export class JobUsageDto extends UsageTotalsDto {
+  @ApiProperty({ type: [ModelUsageDto] })
+  models!: ModelUsageDto[];
+}
@@ -0,0 +1,44 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { HydratedDocument, Types } from 'mongoose';
+import { User } from '../../users/schemas/user.schema';
+import { StudySet } from '../../study-sets/schemas/study-set.schema';
+
+export type LlmUsageRollupDocument = HydratedDocument<LlmUsageRollup>;
+
+/** LLM usage of one user on one (UTC) day, per study set and model. */
+@Schema({ timestamps: true })
+export class LlmUsageRollup {
+  @Prop({ type: Types.ObjectId, ref: User.name, required: true })
+  user!: Types.ObjectId;
+
+  @Prop({ required: true })
+  day!: string;
+
+  @Prop({ type: Types.ObjectId, ref: StudySet.name, default: null })
+  studySet!: Types.ObjectId | null;
+
+  @Prop({ required: true })
+  model!: string;
+
+  @Prop({ default: 0 })
+  calls!: number;
+
+  @Prop({ default: 0 })
+  failedCalls!: number;
+
+  @Prop({ default: 0 })
+  promptTokens!: number;
+
+  @Prop({ default: 0 })
+  completionTokens!: number;
+
+  @Prop({ default: 0 })
+  totalTokens!: number;
+
+  @Prop({ default: 0 })
+  estimatedCostUsd!: number;
+}
+
+export const LlmUsageRollupSchema = SchemaFactory.createForClass(LlmUsageRollup);
+
+LlmUsageRollupSchema.index({ user: 1, day: 1, studySet: 1, model: 1 }, { unique: true });
@@ -0,0 +1,31 @@
+import { Controller, Get, Query, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { ApiBearerAuth, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { UsageService } from './usage.service';
+import { UsageReportResponseDto } from './dto/usage-report-response.dto';
+
+@ApiTags('Usage')
+@ApiBearerAuth('bearer')
+@Controller('usage')
+export class UsageController {
+  constructor(private readonly usageService: UsageService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Get LLM usage',
+    description:
+      'Returns token usage and estimated cost of the authenticated user\'s AI processing per day and per study set. Defaults to the last 30 days.'
+  })
+  @ApiQuery({ name: 'from', required: false, example: '2025-11-24', description: 'First UTC day (YYYY-MM-DD).' })
+  @ApiQuery({ name: 'to', required: false, example: '2025-12-23', description: 'Last UTC day (YYYY-MM-DD), defaults to today.' })
+  @ApiOkResponse({ description: 'Usage report', type: UsageReportResponseDto })
+  async getUsage(
+    @Query('from') from: string | undefined,
+    @Query('to') to: string | undefined,
+    @Req() req: Request & { user: { id: string } }
+  ): Promise<UsageReportResponseDto> {
+    return this.usageService.getUsageReport(req.user.id, { from, to });
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { UsageService } from './usage.service';
+import { UsageController } from './usage.controller';
+import { LlmUsageRollup, LlmUsageRollupSchema } from './schemas/llm-usage-rollup.schema';
+import { StudySetAiJob, StudySetAiJobSchema } from '../study-sets/schemas/study-set-ai-job.schema';
+import { StudySet, StudySetSchema } from '../study-sets/schemas/study-set.schema';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LlmUsageRollup.name, schema: LlmUsageRollupSchema },
+      { name: StudySetAiJob.name, schema: StudySetAiJobSchema },
+      { name: StudySet.name, schema: StudySetSchema }
+    ])
+  ],
+  controllers: [UsageController],
+  providers: [UsageService],
+  exports: [UsageService]
+})
+export class UsageModule {}
@@ -0,0 +1,222 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { LlmUsageRollup, LlmUsageRollupDocument } from './schemas/llm-usage-rollup.schema';
+import { StudySetAiJob, StudySetAiJobDocument } from '../study-sets/schemas/study-set-ai-job.schema';
+import { StudySet, StudySetDocument } from '../study-sets/schemas/study-set.schema';
+import { addUsage, emptyUsageTotals, LlmCallRecord, runWithLlmUsage, UsageTotals } from '../llm/llm-usage';
+
+export interface UsageScope {
+  userId: string;
+  studySetId?: string | null;
+  jobId?: string | null;
+}
+
+export interface ModelUsage extends UsageTotals {
+  model: string;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  days: Array<UsageTotals & { date: string; models: ModelUsage[] }>;
+  studySets: Array<UsageTotals & { studySetId: string | null; title: string | null }>;
+}
+
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_DAYS = 366;
+const MAX_JOB_CALL_LOG = 500;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+
+  constructor(
+    @InjectModel(LlmUsageRollup.name)
+    private readonly rollupModel: Model<LlmUsageRollupDocument>,
+    @InjectModel(StudySetAiJob.name)
+    private readonly aiJobModel: Model<StudySetAiJobDocument>,
+    @InjectModel(StudySet.name)
+    private readonly studySetModel: Model<StudySetDocument>
+  ) {}
+
+  /**
+   * Runs `fn` and charges every LLM call it makes to the user (and job, when
+   * given). Usage is saved even when `fn` fails, since failed runs still cost tokens.
+   */
+  async track<T>(scope: UsageScope, fn: () => Promise<T>): Promise<T> {
+    const records: LlmCallRecord[] = [];
+    try {
+      return await runWithLlmUsage(records, fn);
+    } finally {
+      await this.save(scope, records).catch(error => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Failed to save LLM usage for user ${scope.userId}: ${message}`);
+      });
+    }
+  }
+
+  async getUsageReport(userId: string, range: { from?: string; to?: string } = {}): Promise<UsageReport> {
+    const { from, to } = this.resolveRange(range.from, range.to);
+    const rows = await this.rollupModel
+      .find({ user: new Types.ObjectId(userId), day: { $gte: from, $lte: to } })
+      .sort({ day: 1 })
+      .lean()
+      .exec();
+
+    const totals = emptyUsageTotals();
+    const days = new Map<string, { totals: UsageTotals; models: Map<string, UsageTotals> }>();
+    const studySets = new Map<string, UsageTotals>();
+    for (const row of rows) {
+      addUsage(totals, row);
+      const day = days.get(row.day) ?? { totals: emptyUsageTotals(), models: new Map<string, UsageTotals>() };
+      addUsage(day.totals, row);
+      day.models.set(row.model, addUsage(day.models.get(row.model) ?? emptyUsageTotals(), row));
+      days.set(row.day, day);
+      const studySetKey = row.studySet?.toString() ?? '';
+      studySets.set(studySetKey, addUsage(studySets.get(studySetKey) ?? emptyUsageTotals(), row));
+    }
+
+    const titles = await this.loadStudySetTitles(Array.from(studySets.keys()).filter(Boolean));
+    return {
+      from,
+      to,
+      totals: this.round(totals),
+      days: Array.from(days.entries()).map(([date, day]) => ({
+        date,
+        ...this.round(day.totals),
+        models: Array.from(day.models.entries()).map(([model, usage]) => ({ model, ...this.round(usage) }))
+      })),
+      // Most expensive first, so runaway documents stand out.
+      studySets: Array.from(studySets.entries())
+        .map(([studySetId, usage]) => ({
+          studySetId: studySetId || null,
+          title: titles.get(studySetId) ?? null,
+          ...this.round(usage)
+        }))
+        .sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd)
+    };
+  }
+
+  /** Per-model totals of a job's calls, for the job status endpoint. */
+  summarizeJobUsage(usage: StudySetAiJobDocument['usage']): (UsageTotals & { models: ModelUsage[] }) | null {
+    if (!usage) {
+      return null;
+    }
+    const models = new Map<string, UsageTotals>();
+    if (usage.models) {
+      Object.values(usage.models).forEach(entry => models.set(entry.model, entry));
+    } else {
+      // Jobs recorded before per-model totals only have the call log to go on.
+      (usage.callLog ?? []).forEach(call =>
+        models.set(call.model, addUsage(models.get(call.model) ?? emptyUsageTotals(), call))
+      );
+    }
+    return {
+      ...this.round(usage),
+      models: Array.from(models.entries()).map(([model, totals]) => ({ model, ...this.round(totals) }))
+    };
+  }
+
+  private async save(scope: UsageScope, records: LlmCallRecord[]): Promise<void> {
+    if (!records.length) {
+      return;
+    }
+
+    const user = new Types.ObjectId(scope.userId);
+    const studySet = scope.studySetId ? new Types.ObjectId(scope.studySetId) : null;
+    const rollups = new Map<string, { day: string; model: string; totals: UsageTotals }>();
+    for (const record of records) {
+      const day = record.at.toISOString().slice(0, 10);
+      const key = `${day}|${record.model}`;
+      const entry = rollups.get(key) ?? { day, model: record.model, totals: emptyUsageTotals() };
+      addUsage(entry.totals, record);
+      rollups.set(key, entry);
+    }
+
+    await this.rollupModel.bulkWrite(
+      Array.from(rollups.values()).map(({ day, model, totals }) => ({
+        updateOne: {
+          filter: { user, day, studySet, model },
+          update: { $inc: { ...totals } },
+          upsert: true
+        }
+      }))
+    );
+
+    if (scope.jobId) {
+      const totals = records.reduce((sum, record) => addUsage(sum, record), emptyUsageTotals());
+      const models = new Map<string, UsageTotals>();
+      records.forEach(record => models.set(record.model, addUsage(models.get(record.model) ?? emptyUsageTotals(), record)));
+      const increments: Record<string, number> = Object.fromEntries(
+        Object.entries(totals).map(([field, value]) => [`usage.${field}`, value])
+      );
+      const modelNames: Record<string, string> = {};
+      models.forEach((modelTotals, model) => {
+        const path = `usage.models.${modelUsageKey(model)}`;
+        modelNames[`${path}.model`] = model;
+        Object.entries(modelTotals).forEach(([field, value]) => {
+          increments[`${path}.${field}`] = value;
+        });
+      });
+      // Per-model totals are kept apart from the call log, which only holds the latest calls.
+      await this.aiJobModel
+        .updateOne(
+          { jobId: scope.jobId },
+          {
+            $inc: increments,
+            $set: modelNames,
+            $push: { 'usage.callLog': { $each: records, $slice: -MAX_JOB_CALL_LOG } }
+          }
+        )
+        .exec();
+    }
+  }
+
+  private resolveRange(from?: string, to?: string): { from: string; to: string } {
+    for (const value of [from, to]) {
+      if (value && (!DAY_PATTERN.test(value) || Number.isNaN(Date.parse(value)))) {
+        throw new BadRequestException('from and to must be dates in YYYY-MM-DD format.');
+      }
+    }
+    const end = to ?? new Date().toISOString().slice(0, 10);
+    const start =
+      from ?? new Date(Date.parse(end) - (DEFAULT_REPORT_DAYS - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    if (start > end) {
+      throw new BadRequestException('from must not be after to.');
+    }
+    if ((Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000) >= MAX_REPORT_DAYS) {
+      throw new BadRequestException(`The usage report covers at most ${MAX_REPORT_DAYS} days.`);
+    }
+    return { from: start, to: end };
+  }
+
+  private async loadStudySetTitles(ids: string[]): Promise<Map<string, string>> {
+    if (!ids.length) {
+      return new Map();
+    }
+    const studySets = await this.studySetModel
+      .find({ _id: { $in: ids.map(id => new Types.ObjectId(id)) } }, { title: 1 })
+      .lean()
+      .exec();
+    return new Map(studySets.map(studySet => [studySet._id.toString(), studySet.title]));
+  }
+
+  private round(usage: UsageTotals): UsageTotals {
+    return {
+      calls: usage.calls,
+      failedCalls: usage.failedCalls,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      estimatedCostUsd: Math.round(usage.estimatedCostUsd * 1_000_000) / 1_000_000
+    };
+  }
+}
+
+/** Field name for a model under usage.models; MongoDB field names cannot contain dots or start with $. */
+function modelUsageKey(model: string): string {
+  return encodeURIComponent(model).replace(/\./g, '%2E');
+}